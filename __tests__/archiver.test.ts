@@ -0,0 +1,131 @@
+import { fileArchiver, parseArchiveAfterDays } from "../src/archiver";
+import { stateManager } from "../src/state";
+import * as fs from "fs";
+import * as path from "path";
+
+describe("FileArchiver", () => {
+  const testDir = "/tmp/test-brain-dump-archive";
+  const now = new Date("2025-09-20T12:00:00Z").getTime();
+  const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000);
+
+  const writeFile = (name: string, content: string, ageDays: number) => {
+    const filePath = path.join(testDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    fs.utimesSync(filePath, daysAgo(ageDays), daysAgo(ageDays));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+    stateManager.reset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("archiveProcessed", () => {
+    it("should move old, fully processed files into a dated folder", async () => {
+      const filePath = writeFile("2025-08-15.md", "- [ ] Buy milk", 30);
+      stateManager.updateFileModifiedTime(filePath);
+
+      const archived = await fileArchiver.archiveProcessed(testDir, {}, 14, now);
+
+      expect(archived.map((entry) => entry.to)).toEqual(["processed/2025/08/2025-08-15.md"]);
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(fs.existsSync(path.join(testDir, "processed/2025/08/2025-08-15.md"))).toBe(true);
+
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(testDir, "processed", "manifest.json"), "utf8")
+      );
+      expect(manifest.entries[0]).toMatchObject({
+        from: "2025-08-15.md",
+        to: "processed/2025/08/2025-08-15.md",
+      });
+    });
+
+    it("should leave recent, unprocessed and edited files in place", async () => {
+      const recent = writeFile("recent.md", "- [ ] New", 2);
+      writeFile("never-synced.md", "- [ ] Pending", 30);
+      const edited = writeFile("edited.md", "- [ ] Old", 30);
+      stateManager.updateFileModifiedTime(recent);
+      stateManager.updateFileModifiedTime(edited);
+      writeFile("edited.md", "- [ ] Old\n- [ ] Added later", 20);
+
+      const archived = await fileArchiver.archiveProcessed(testDir, {}, 14, now);
+
+      expect(archived).toHaveLength(0);
+      expect(fs.readdirSync(testDir).sort()).toEqual(["edited.md", "never-synced.md", "recent.md"]);
+    });
+
+    it("should keep the state of moved files so they are not processed again", async () => {
+      const filePath = writeFile("notes.md", "- [ ] Buy milk", 45);
+      stateManager.updateFileModifiedTime(filePath);
+      const hashBefore = stateManager.generateTaskHash(
+        { title: "Buy milk", due: null, tags: null },
+        filePath,
+        null
+      );
+
+      const [entry] = await fileArchiver.archiveProcessed(testDir, {}, 14, now);
+      const movedPath = path.join(testDir, entry.to);
+
+      expect(entry.to).toBe("processed/2025/08/notes.md");
+      expect(stateManager.isFileModified(movedPath)).toBe(false);
+      expect(
+        stateManager.generateTaskHash({ title: "Buy milk", due: null, tags: null }, movedPath, null)
+      ).toBe(hashBefore);
+    });
+
+    it("should not overwrite files already in the archive", async () => {
+      writeFile("processed/2025/08/2025-08-15.md", "older copy", 60);
+      const filePath = writeFile("2025-08-15.md", "- [ ] Buy milk", 30);
+      stateManager.updateFileModifiedTime(filePath);
+
+      const archived = await fileArchiver.archiveProcessed(testDir, {}, 14, now);
+
+      expect(archived[0].to).toBe("processed/2025/08/2025-08-15-1.md");
+    });
+  });
+
+  describe("undoLastArchive", () => {
+    it("should move the last archived batch back", async () => {
+      const filePath = writeFile("2025-08-15.md", "- [ ] Buy milk", 30);
+      stateManager.updateFileModifiedTime(filePath);
+      await fileArchiver.archiveProcessed(testDir, {}, 14, now);
+
+      const { restored, skipped } = fileArchiver.undoLastArchive(testDir);
+
+      expect(restored).toHaveLength(1);
+      expect(skipped).toHaveLength(0);
+      expect(fs.existsSync(filePath)).toBe(true);
+      expect(stateManager.isFileModified(filePath)).toBe(false);
+
+      expect(fileArchiver.undoLastArchive(testDir).restored).toHaveLength(0);
+    });
+
+    it("should skip files whose original path is taken again", async () => {
+      const filePath = writeFile("2025-08-15.md", "- [ ] Buy milk", 30);
+      stateManager.updateFileModifiedTime(filePath);
+      await fileArchiver.archiveProcessed(testDir, {}, 14, now);
+      fs.writeFileSync(filePath, "new notes");
+
+      const { restored, skipped } = fileArchiver.undoLastArchive(testDir);
+
+      expect(restored).toHaveLength(0);
+      expect(skipped.map((entry) => entry.from)).toEqual(["2025-08-15.md"]);
+      expect(fs.readFileSync(filePath, "utf8")).toBe("new notes");
+    });
+  });
+
+  describe("parseArchiveAfterDays", () => {
+    it("should treat empty and non-positive values as disabled", () => {
+      expect(parseArchiveAfterDays("14")).toBe(14);
+      expect(parseArchiveAfterDays("")).toBeUndefined();
+      expect(parseArchiveAfterDays("0")).toBeUndefined();
+      expect(parseArchiveAfterDays(undefined)).toBeUndefined();
+    });
+  });
+});
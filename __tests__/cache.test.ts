@@ -0,0 +1,103 @@
+import { ExtractionCache } from "../src/cache";
+import * as fs from "fs";
+import * as path from "path";
+
+// Raycast API is mocked globally via __mocks__/@raycast/api.js
+
+describe("ExtractionCache", () => {
+  const testSupportPath = "/tmp/test-raycast-support";
+  const cacheFile = path.join(testSupportPath, "test-cache.json");
+  const parts = { promptVersion: 1, provider: "openai", model: "gpt-4o" };
+  const tasks = [{ title: "Buy milk", due: null, tags: null, startLine: 1, endLine: 1 }];
+
+  // Only the cache's own file is removed, as other suites share the support folder
+  beforeEach(() => {
+    fs.rmSync(cacheFile, { force: true });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(cacheFile, { force: true });
+  });
+
+  describe("key", () => {
+    const cache = new ExtractionCache("test-cache.json");
+
+    it("should be stable for the same prompts and settings", () => {
+      expect(cache.key(parts, "system", "user")).toBe(cache.key({ ...parts }, "system", "user"));
+    });
+
+    it.each([
+      ["prompt version", { ...parts, promptVersion: 2 }, "system", "user"],
+      ["model", { ...parts, model: "gpt-4o-mini" }, "system", "user"],
+      ["provider", { ...parts, provider: "ollama" }, "system", "user"],
+      ["user prompt", parts, "system", "user, edited"],
+      ["split between prompts", parts, "systemuser", ""],
+    ])("should change with the %s", (_, changed, systemPrompt, userPrompt) => {
+      expect(cache.key(changed, systemPrompt, userPrompt)).not.toBe(
+        cache.key(parts, "system", "user")
+      );
+    });
+  });
+
+  it("should return stored tasks and persist them", () => {
+    const cache = new ExtractionCache("test-cache.json");
+    const key = cache.key(parts, "system", "user");
+
+    expect(cache.get(key)).toBeNull();
+    cache.set(key, tasks);
+    expect(cache.get(key)).toEqual(tasks);
+
+    cache.save();
+    expect(new ExtractionCache("test-cache.json").get(key)).toEqual(tasks);
+  });
+
+  it("should only write when something changed", () => {
+    const cache = new ExtractionCache("test-cache.json");
+    cache.save();
+    expect(fs.existsSync(cacheFile)).toBe(false);
+
+    cache.set("key", tasks);
+    cache.save();
+    expect(fs.existsSync(cacheFile)).toBe(true);
+  });
+
+  it("should evict the least recently used entries beyond its size limit", () => {
+    jest.useFakeTimers();
+    const entrySize = Buffer.byteLength(JSON.stringify(tasks), "utf8");
+    const cache = new ExtractionCache("test-cache.json", entrySize * 2);
+
+    jest.setSystemTime(new Date("2025-08-15T09:00:00Z"));
+    cache.set("first", tasks);
+    jest.setSystemTime(new Date("2025-08-15T09:01:00Z"));
+    cache.set("second", tasks);
+    jest.setSystemTime(new Date("2025-08-15T09:02:00Z"));
+    cache.get("first");
+    jest.setSystemTime(new Date("2025-08-15T09:03:00Z"));
+    cache.set("third", tasks);
+
+    expect(cache.get("first")).toEqual(tasks);
+    expect(cache.get("second")).toBeNull();
+    expect(cache.get("third")).toEqual(tasks);
+  });
+
+  it("should start empty when the cache file is unreadable", () => {
+    fs.mkdirSync(testSupportPath, { recursive: true });
+    fs.writeFileSync(cacheFile, "not json");
+
+    const cache = new ExtractionCache("test-cache.json");
+
+    expect(cache.get("key")).toBeNull();
+  });
+
+  it("should forget everything when cleared", () => {
+    const cache = new ExtractionCache("test-cache.json");
+    cache.set("key", tasks);
+    cache.save();
+
+    cache.clear();
+
+    expect(cache.get("key")).toBeNull();
+    expect(new ExtractionCache("test-cache.json").get("key")).toBeNull();
+  });
+});
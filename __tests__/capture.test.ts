@@ -0,0 +1,105 @@
+import { quickCapture } from "../src/capture";
+import * as fs from "fs";
+import * as path from "path";
+
+describe("QuickCapture", () => {
+  const testDir = "/tmp/test-brain-dump-capture";
+  const now = new Date(2025, 7, 15, 9, 30, 5);
+  const filePath = path.join(testDir, "2025-08-15.md");
+  const lockPath = `${filePath}.lock`;
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("appendEntry", () => {
+    it("should create today's file with a header", async () => {
+      const captured = await quickCapture.appendEntry(testDir, "- [ ] Call John tomorrow\n", {
+        now,
+      });
+
+      expect(fs.readFileSync(filePath, "utf8")).toBe(
+        "# 2025-08-15\n\n## 09:30:05\n- [ ] Call John tomorrow\n"
+      );
+      expect(captured).toEqual({
+        filePath,
+        heading: "## 09:30:05",
+        startLine: 3,
+        endLine: 4,
+        createdFile: true,
+      });
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it("should append later entries after a blank line", async () => {
+      await quickCapture.appendEntry(testDir, "First thought", { now });
+      const captured = await quickCapture.appendEntry(
+        testDir,
+        "Second thought\n- [ ] Book flights",
+        {
+          now: new Date(2025, 7, 15, 14, 2, 0),
+        }
+      );
+
+      expect(fs.readFileSync(filePath, "utf8")).toBe(
+        "# 2025-08-15\n\n## 09:30:05\nFirst thought\n\n## 14:02:00\nSecond thought\n- [ ] Book flights\n"
+      );
+      expect(captured.startLine).toBe(6);
+      expect(captured.endLine).toBe(8);
+      expect(captured.createdFile).toBe(false);
+    });
+
+    it("should keep content written by an editor without a trailing newline", async () => {
+      fs.writeFileSync(filePath, "# Friday\n\n- [ ] Water plants");
+
+      const captured = await quickCapture.appendEntry(testDir, "Pay rent", { now });
+
+      expect(fs.readFileSync(filePath, "utf8")).toBe(
+        "# Friday\n\n- [ ] Water plants\n\n## 09:30:05\nPay rent\n"
+      );
+      expect(captured.startLine).toBe(5);
+    });
+
+    it("should wait for another capture to release its lock", async () => {
+      fs.writeFileSync(lockPath, "123");
+      setTimeout(() => fs.rmSync(lockPath, { force: true }), 120);
+
+      await quickCapture.appendEntry(testDir, "Waited my turn", { now, lockTimeoutMs: 2000 });
+
+      expect(fs.readFileSync(filePath, "utf8")).toContain("Waited my turn");
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it("should replace a lock left behind by a crashed capture", async () => {
+      fs.writeFileSync(lockPath, "123");
+      const old = new Date(Date.now() - 60000);
+      fs.utimesSync(lockPath, old, old);
+
+      await quickCapture.appendEntry(testDir, "After a crash", { now, lockTimeoutMs: 100 });
+
+      expect(fs.readFileSync(filePath, "utf8")).toContain("After a crash");
+    });
+
+    it("should give up when the lock is held too long", async () => {
+      fs.writeFileSync(lockPath, "123");
+
+      await expect(
+        quickCapture.appendEntry(testDir, "Blocked", { now, lockTimeoutMs: 100 })
+      ).rejects.toThrow("2025-08-15.md is in use by another capture or sync");
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(fs.existsSync(lockPath)).toBe(true);
+    });
+
+    it("should reject empty entries", async () => {
+      await expect(quickCapture.appendEntry(testDir, "  \n ", { now })).rejects.toThrow(
+        "Nothing to capture"
+      );
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+  });
+});
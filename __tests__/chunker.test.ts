@@ -0,0 +1,99 @@
+import { markdownChunker } from "../src/chunker";
+import { estimateTokens } from "../src/tokens";
+
+describe("MarkdownChunker", () => {
+  const entry = (time: string, lines: number) =>
+    [`## ${time}`, ...Array.from({ length: lines }, (_, i) => `- note ${time} ${i}`)].join("\n");
+
+  it("should return a single chunk for content under the limit", () => {
+    const chunks = markdownChunker.chunk("# 2025-08-15\n## 09:00:00\n- a", { maxChunkTokens: 250 });
+
+    expect(chunks).toEqual([
+      {
+        content: "# 2025-08-15\n## 09:00:00\n- a",
+        startLine: 0,
+        headingContext: [],
+        overlapLines: 0,
+        estimatedTokens: 7,
+      },
+    ]);
+  });
+
+  it("should split on timestamp entries before anything else", () => {
+    const content = ["# 2025-08-15", entry("09:00:00", 5), entry("14:32:10", 5)].join("\n");
+
+    const chunks = markdownChunker.chunk(content, { maxChunkTokens: 40 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].content.startsWith("# 2025-08-15\n## 09:00:00")).toBe(true);
+    expect(chunks[1].content.startsWith("## 14:32:10")).toBe(true);
+    expect(chunks[1].headingContext).toEqual(["# 2025-08-15"]);
+    expect(chunks[1].startLine).toBe(7);
+  });
+
+  it("should repeat the entry heading when an entry is split", () => {
+    const content = [
+      "# 2025-08-15",
+      "## 14:32:10",
+      "First paragraph line one",
+      "first paragraph line two",
+      "",
+      "- list item",
+      "  - nested item",
+      "",
+      "  continued list text",
+    ].join("\n");
+
+    const chunks = markdownChunker.chunk(content, { maxChunkTokens: 18 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    const listChunk = chunks.find((chunk) => chunk.content.includes("- list item"))!;
+    expect(listChunk.content).toContain("  - nested item");
+    expect(listChunk.headingContext).toEqual(["# 2025-08-15", "## 14:32:10"]);
+  });
+
+  it("should fall back to single lines for oversized paragraphs", () => {
+    const content = Array.from({ length: 20 }, (_, i) => `line ${i} of a long paragraph`).join(
+      "\n"
+    );
+
+    const chunks = markdownChunker.chunk(content, { maxChunkTokens: 25 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(25));
+    expect(chunks.map((chunk) => chunk.content).join("\n")).toBe(content);
+  });
+
+  it("should prefix the file title when the content has none", () => {
+    const chunks = markdownChunker.chunk(entry("14:00:00", 1), {
+      maxChunkTokens: 250,
+      fileTitle: "# 2025-08-15",
+    });
+
+    expect(chunks[0].headingContext).toEqual(["# 2025-08-15"]);
+  });
+
+  it("should overlap consecutive chunks when requested", () => {
+    const content = [entry("09:00:00", 4), entry("10:00:00", 4)].join("\n");
+
+    const chunks = markdownChunker.chunk(content, { maxChunkTokens: 25, overlapLines: 2 });
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].overlapLines).toBe(0);
+    expect(chunks[1].overlapLines).toBe(2);
+    expect(chunks[1].content.startsWith("- note 09:00:00 2\n- note 09:00:00 3\n## 10:00:00")).toBe(
+      true
+    );
+    expect(chunks[1].headingContext).toEqual(["## 09:00:00"]);
+  });
+
+  it("should size chunks by estimated tokens rather than characters", () => {
+    const cjkLine = "明日までに請求書を送る";
+    const content = Array.from({ length: 10 }, () => cjkLine).join("\n");
+
+    const chunks = markdownChunker.chunk(content, { maxChunkTokens: 30 });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach((chunk) => expect(chunk.estimatedTokens).toBeLessThanOrEqual(30));
+  });
+});
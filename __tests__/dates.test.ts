@@ -0,0 +1,207 @@
+import {
+  addDays,
+  addMonths,
+  currentAnchor,
+  DateAnchor,
+  endOfMonth,
+  isIsoDate,
+  parseDueDate,
+  resolveDayMonth,
+  resolveRelativeDate,
+  toNotionDate,
+  weekdayName,
+} from "../src/dates";
+
+describe("dates", () => {
+  // 2025-08-15 is a Friday
+  const anchor = "2025-08-15";
+
+  describe("resolveRelativeDate", () => {
+    it.each([
+      ["today", "2025-08-15"],
+      ["Tonight", "2025-08-15"],
+      ["end of day", "2025-08-15"],
+      ["tomorrow", "2025-08-16"],
+      ["the day after tomorrow", "2025-08-17"],
+      ["yesterday", "2025-08-14"],
+      ["next week", "2025-08-22"],
+      ["in 3 days", "2025-08-18"],
+      ["in two weeks", "2025-08-29"],
+      ["Monday", "2025-08-18"],
+      ["on wednesday", "2025-08-20"],
+      ["friday", "2025-08-22"],
+      ["next Saturday", "2025-08-16"],
+      ["tue", "2025-08-19"],
+      ["next Thurs", "2025-08-21"],
+      ["in 2 weeks", "2025-08-29"],
+      ["in a week", "2025-08-22"],
+      ["in 3 months", "2025-11-15"],
+      ["next month", "2025-09-15"],
+      ["end of week", "2025-08-15"],
+      ["EOW", "2025-08-15"],
+      ["end of month", "2025-08-31"],
+      ["by the end of the month", "2025-08-31"],
+      ["end of next month", "2025-09-30"],
+    ])("should resolve %s", (text, expected) => {
+      expect(resolveRelativeDate(text, anchor)).toBe(expected);
+    });
+
+    it("should return null for text it doesn't understand", () => {
+      expect(resolveRelativeDate("soon", anchor)).toBeNull();
+      expect(resolveRelativeDate("someday", anchor)).toBeNull();
+    });
+
+    it("should cross month and year boundaries", () => {
+      expect(resolveRelativeDate("tomorrow", "2025-12-31")).toBe("2026-01-01");
+      expect(resolveRelativeDate("tomorrow", "2024-02-28")).toBe("2024-02-29");
+    });
+  });
+
+  describe("parseDueDate", () => {
+    // Friday 2025-08-15 at 10:30
+    const at: DateAnchor = { date: anchor, time: "10:30:00" };
+
+    it.each([
+      // ISO dates and date-times
+      ["2025-09-15", "2025-09-15"],
+      ["2025-09-15T15:00", "2025-09-15T15:00"],
+      ["2025-09-15T15:00:45", "2025-09-15T15:00"],
+      ["2025-09-15 09:30", "2025-09-15T09:30"],
+      // Numeric dates, day first
+      ["16/08", "2025-08-16"],
+      ["5/1", "2026-01-05"],
+      ["16.08", "2025-08-16"],
+      ["16/08/2026", "2026-08-16"],
+      ["16/08/26", "2026-08-16"],
+      // Month names
+      ["16 Aug", "2025-08-16"],
+      ["16th of August", "2025-08-16"],
+      ["Aug 16", "2025-08-16"],
+      ["September 3rd", "2025-09-03"],
+      ["Sept 3, 2026", "2026-09-03"],
+      ["3 jan", "2026-01-03"],
+      // Relative dates
+      ["today", "2025-08-15"],
+      ["tomorrow", "2025-08-16"],
+      ["tmrw", "2025-08-16"],
+      ["next Tue", "2025-08-19"],
+      ["by Friday", "2025-08-22"],
+      ["due Monday", "2025-08-18"],
+      ["in 2 weeks", "2025-08-29"],
+      ["end of month", "2025-08-31"],
+      ["end of week", "2025-08-15"],
+      // End of day
+      ["EOD", "2025-08-15T17:00"],
+      ["end of day", "2025-08-15T17:00"],
+      ["eod 6pm", "2025-08-15T18:00"],
+      // Times on dates
+      ["tomorrow 3pm", "2025-08-16T15:00"],
+      ["tomorrow at 9:30am", "2025-08-16T09:30"],
+      ["3pm tomorrow", "2025-08-16T15:00"],
+      ["next Tue at 15:30", "2025-08-19T15:30"],
+      ["Friday 3 PM", "2025-08-22T15:00"],
+      ["16/08 9am", "2025-08-16T09:00"],
+      ["16/08 @ 14:00", "2025-08-16T14:00"],
+      ["Aug 16 at noon", "2025-08-16T12:00"],
+      ["in 3 days at 8am", "2025-08-18T08:00"],
+      ["12am tomorrow", "2025-08-16T00:00"],
+      ["12pm", "2025-08-15T12:00"],
+      // Times alone: today, or tomorrow once passed
+      ["3pm", "2025-08-15T15:00"],
+      ["at 17:45", "2025-08-15T17:45"],
+      ["9am", "2025-08-16T09:00"],
+      // Punctuation and spacing
+      ["  Tomorrow   3pm. ", "2025-08-16T15:00"],
+    ])("should parse %s", (text, expected) => {
+      expect(parseDueDate(text, at)).toBe(expected);
+    });
+
+    it.each([
+      [""],
+      ["someday"],
+      ["soonish"],
+      ["2025-02-30"],
+      ["2025-09-15T25:00"],
+      ["31/02"],
+      ["16/13"],
+      ["13pm"],
+      ["24:00"],
+      ["3pm someday"],
+      ["the 5th"],
+      ["Smarch 3"],
+    ])("should not parse %j", (text) => {
+      expect(parseDueDate(text, at)).toBeNull();
+    });
+
+    it.each([
+      ["08/16", "2025-08-16"],
+      ["1/5", "2026-01-05"],
+      ["12/25/2025", "2025-12-25"],
+      ["08/16 3pm", "2025-08-16T15:00"],
+      ["16/08", null],
+      // Unambiguous forms don't depend on the date order
+      ["2025-09-15", "2025-09-15"],
+      ["16 Aug", "2025-08-16"],
+    ])("should read %s month first when asked", (text, expected) => {
+      expect(parseDueDate(text, { ...at, dateOrder: "mdy" })).toBe(expected);
+    });
+
+    it("should keep a time alone on the anchor date when the entry time is unknown", () => {
+      expect(parseDueDate("9am", { date: anchor, time: null })).toBe("2025-08-15T09:00");
+    });
+
+    it("should cross month and year boundaries", () => {
+      const newYearsEve: DateAnchor = { date: "2025-12-31", time: "18:00:00" };
+
+      expect(parseDueDate("tomorrow 9am", newYearsEve)).toBe("2026-01-01T09:00");
+      expect(parseDueDate("8am", newYearsEve)).toBe("2026-01-01T08:00");
+      expect(parseDueDate("end of month", newYearsEve)).toBe("2025-12-31");
+      expect(parseDueDate("in 2 months", newYearsEve)).toBe("2026-02-28");
+    });
+  });
+
+  describe("toNotionDate", () => {
+    it("should send dates unchanged", () => {
+      expect(toNotionDate("2025-08-16", "Europe/London")).toEqual({ start: "2025-08-16" });
+    });
+
+    it("should send date-times with seconds and their time zone", () => {
+      expect(toNotionDate("2025-08-16T15:00", "Europe/London")).toEqual({
+        start: "2025-08-16T15:00:00",
+        time_zone: "Europe/London",
+      });
+    });
+  });
+
+  describe("resolveDayMonth", () => {
+    it("should use the anchor's year", () => {
+      expect(resolveDayMonth(16, 8, anchor)).toBe("2025-08-16");
+      expect(resolveDayMonth(5, 12, anchor)).toBe("2025-12-05");
+      expect(resolveDayMonth(1, 8, anchor)).toBe("2025-08-01");
+    });
+
+    it("should move dates long before the anchor into the next year", () => {
+      expect(resolveDayMonth(5, 1, "2025-12-30")).toBe("2026-01-05");
+    });
+
+    it("should reject impossible dates", () => {
+      expect(resolveDayMonth(31, 2, anchor)).toBeNull();
+      expect(resolveDayMonth(1, 13, anchor)).toBeNull();
+    });
+  });
+
+  it("should validate, move and name dates", () => {
+    expect(isIsoDate("2025-08-15")).toBe(true);
+    expect(isIsoDate("2025-02-29")).toBe(false);
+    expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
+    expect(addMonths("2025-01-31", 1)).toBe("2025-02-28");
+    expect(addMonths("2024-01-31", 1)).toBe("2024-02-29");
+    expect(addMonths("2025-08-15", -8)).toBe("2024-12-15");
+    expect(endOfMonth("2024-02-10")).toBe("2024-02-29");
+    expect(weekdayName(anchor)).toBe("Friday");
+    expect(currentAnchor(new Date(2025, 7, 15, 9, 5, 0))).toEqual({
+      date: "2025-08-15",
+      time: "09:05:00",
+    });
+  });
+});
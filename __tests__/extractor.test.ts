@@ -1,12 +1,15 @@
 import { taskExtractor } from "../src/extractor";
+import { DEFAULT_PROMPT_TEMPLATE } from "../src/prompts";
 import { FileChunk } from "../src/ingest";
+import { LlmSettings } from "../src/providers";
+import { extractionCache } from "../src/cache";
 
 // Mock fetch globally
 global.fetch = jest.fn();
+jest.mock("../src/cache");
 
 describe("TaskExtractor", () => {
-  const mockApiKey = "test-api-key";
-  const mockModel = "gpt-4";
+  const mockLlm: LlmSettings = { provider: "openai", apiKey: "test-api-key", model: "gpt-4" };
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -52,18 +55,22 @@ Regular text that should not be extracted
         json: () => Promise.resolve(mockResponse),
       });
 
-      const result = await taskExtractor.extractTasks(chunk, mockApiKey, mockModel);
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
 
       expect(result.tasks).toHaveLength(5);
       expect(result.tasks[0]).toEqual({
         title: "Buy milk",
         due: "2025-08-16",
         tags: null,
+        startLine: 3,
+        endLine: 3,
       });
       expect(result.tasks[1]).toEqual({
         title: "Send invoice to client", 
         due: null,
         tags: null,
+        startLine: 4,
+        endLine: 4,
       });
       expect(result.chunk).toBe(chunk);
     });
@@ -74,6 +81,7 @@ Regular text that should not be extracted
         content: "- [ ] Task 1 due:16/08\n- [ ] Task 2 due:5/12\n- [ ] Task 3 due:2025-09-15",
         chunkIndex: 0,
         totalChunks: 1,
+        anchor: { date: "2025-08-15", time: null },
       };
 
       const mockResponse = {
@@ -97,13 +105,324 @@ Regular text that should not be extracted
         json: () => Promise.resolve(mockResponse),
       });
 
-      const result = await taskExtractor.extractTasks(chunk, mockApiKey, mockModel);
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
       
       expect(result.tasks[0].due).toBe("2025-08-16");
       expect(result.tasks[1].due).toBe("2025-12-05"); 
       expect(result.tasks[2].due).toBe("2025-09-15");
     });
 
+    it("should resolve relative dates against the braindump's date", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "## 09:00:00\n- call John tomorrow\n- dentist Friday",
+        chunkIndex: 0,
+        totalChunks: 1,
+        anchor: { date: "2025-08-15", time: "09:00:00" },
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    tasks: [
+                      { title: "Call John", due: "tomorrow", tags: null },
+                      { title: "Go to the dentist", due: "Friday", tags: null },
+                    ],
+                  }),
+                },
+              },
+            ],
+          }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.messages[1].content).toContain("Date: 2025-08-15 (Friday)\nTime: 09:00");
+      expect(result.tasks.map((task) => task.due)).toEqual(["2025-08-16", "2025-08-22"]);
+    });
+
+    it("should keep due times and read numeric dates in the configured order", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "## 09:00:00\n- call John at 3pm\n- pay rent 09/01",
+        chunkIndex: 0,
+        totalChunks: 1,
+        anchor: { date: "2025-08-15", time: "09:00:00" },
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    tasks: [
+                      { title: "Call John", due: "2025-08-15T15:00", tags: null },
+                      { title: "Pay rent", due: "09/01", tags: null },
+                    ],
+                  }),
+                },
+              },
+            ],
+          }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm, { dateOrder: "mdy" });
+
+      const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.messages[1].content).toContain("Numeric dates such as 05/01 are month/day.");
+      expect(result.tasks.map((task) => task.due)).toEqual(["2025-08-15T15:00", "2025-09-01"]);
+    });
+
+    it("should give tasks from transcripts their offset into the recording", async () => {
+      const chunk: FileChunk = {
+        filePath: "/memos/2025-08-15.vtt",
+        content: "## 00:00:01\nCall the plumber about the leak.\n\n## 01:02:03\nAlso buy milk!",
+        chunkIndex: 0,
+        totalChunks: 1,
+        startLine: 6,
+        format: "transcript",
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    tasks: [
+                      { title: "Call the plumber", due: null, tags: null, source: "Call the plumber about the leak." },
+                      { title: "Buy milk", due: null, tags: null, source: "Also buy milk!" },
+                    ],
+                  }),
+                },
+              },
+            ],
+          }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      expect(result.tasks.map((task) => task.capturedAt)).toEqual(["00:01", "1:02:03"]);
+    });
+
+    it("should locate each task's source lines in the file", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "## 09:00:00\n- [ ] Buy milk\n- call John about\n  the budget",
+        chunkIndex: 0,
+        totalChunks: 1,
+        startLine: 20,
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: JSON.stringify({
+            tasks: [
+              { title: "Call John about the budget", due: null, tags: null, source: "- call John about\n  the budget" },
+              { title: "Buy milk", due: null, tags: null },
+            ],
+          }) } }],
+        }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      expect(result.tasks[0]).toMatchObject({ startLine: 22, endLine: 23 });
+      expect(result.tasks[1]).toMatchObject({ startLine: 21, endLine: 21 });
+    });
+
+    it("should send earlier entries as context only", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "## 14:00:00\n- [ ] Call John",
+        chunkIndex: 0,
+        totalChunks: 1,
+        context: "## 09:00:00\n- [ ] Buy milk",
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: '{"tasks": [{"title": "Call John", "due": null, "tags": null}]}' } }],
+        }),
+      });
+
+      await taskExtractor.extractTasks(chunk, mockLlm);
+
+      const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+      const userPrompt = body.messages[1].content;
+      expect(userPrompt).toMatch(/<earlier_entries>[\s\S]*Buy milk[\s\S]*<\/earlier_entries>/);
+      expect(userPrompt).toMatch(/<braindump>\n## 14:00:00\n- \[ \] Call John\n<\/braindump>/);
+    });
+
+    it("should describe the source format in the system prompt", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/journal.org",
+        content: "## 09:15:00\n- [ ] Send invoice",
+        chunkIndex: 0,
+        totalChunks: 1,
+        format: "org",
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: '{"tasks": []}' } }],
+        }),
+      });
+
+      await taskExtractor.extractTasks(chunk, mockLlm);
+
+      const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.messages[0].content).toMatch(/<source_format>\nOrg-mode file converted to markdown/);
+    });
+
+    it("should fill the prompt template's variables and report its version", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "- [ ] Send invoice",
+        chunkIndex: 1,
+        totalChunks: 3,
+        anchor: { date: "2025-08-15", time: "09:15:00", dateOrder: "mdy" },
+      };
+      const template = {
+        version: "team-3",
+        source: "/inbox/brainpipe-prompt.txt",
+        system: "Team prompt. Read dates as {{dateOrder}}.",
+        user: "File of {{fileWeekday}} {{fileDate}} {{fileTime}}{{chunkInfo}}, tomorrow is {{tomorrowDate}}:\n{{content}}",
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: '{"tasks": []}' } }],
+        }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm, { template });
+
+      const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.messages[0].content).toBe("Team prompt. Read dates as month/day.");
+      expect(body.messages[1].content).toBe(
+        "File of Friday 2025-08-15 09:15 (chunk 2/3), tomorrow is 2025-08-16:\n- [ ] Send invoice"
+      );
+      expect(result.promptVersion).toBe("team-3");
+    });
+
+    it("should resolve the built-in prompt's examples against the braindump's date", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "- [ ] Send invoice",
+        chunkIndex: 0,
+        totalChunks: 1,
+        anchor: { date: "2025-08-15", time: null },
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: '{"tasks": []}' } }],
+        }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      const userPrompt = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body).messages[1].content;
+      expect(userPrompt).toContain('"meeting tomorrow 9:30am" → "2025-08-16T09:30"');
+      expect(userPrompt).toContain("Time: not recorded");
+      expect(userPrompt).not.toContain("{{");
+      expect(result.promptVersion).toBe(DEFAULT_PROMPT_TEMPLATE.version);
+    });
+
+    it("should apply frontmatter directives to extracted tasks", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/apollo.md",
+        content: "- [ ] Ship release due:2025-08-20\n- [ ] Write notes #docs",
+        chunkIndex: 0,
+        totalChunks: 1,
+        directives: { skip: false, project: "Apollo", tags: ["work"], defaultDueTime: "17:00" },
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: JSON.stringify({
+            tasks: [
+              { title: "Ship release", due: "2025-08-20", tags: null },
+              { title: "Write notes", due: null, tags: ["docs", "work"] },
+            ],
+          }) } }],
+        }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      expect(result.tasks).toEqual([
+        { title: "Ship release", due: "2025-08-20T17:00", tags: ["work"], project: "Apollo", startLine: 1, endLine: 1 },
+        { title: "Write notes", due: null, tags: ["work", "docs"], project: "Apollo", startLine: 2, endLine: 2 },
+      ]);
+    });
+
+    it("should keep the priority, assignee, project and estimate the model found", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/file.md",
+        content: "urgent: ask Bob to send the deck for Apollo ~30min\nplan the offsite",
+        chunkIndex: 0,
+        totalChunks: 1,
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: JSON.stringify({
+            tasks: [
+              {
+                title: "Ask Bob to send the deck",
+                due: null,
+                tags: null,
+                priority: "urgent",
+                assignee: " Bob ",
+                project: "Apollo",
+                estimateMinutes: 30,
+              },
+              { title: "Plan the offsite", due: null, tags: null, priority: null, assignee: null, project: null, estimateMinutes: null },
+            ],
+          }) } }],
+        }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      const body = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.messages[0].content).toContain('"priority": "urgent" | "high" | "medium" | "low" | null');
+      expect(result.tasks).toEqual([
+        {
+          title: "Ask Bob to send the deck",
+          due: null,
+          tags: null,
+          priority: "urgent",
+          assignee: "Bob",
+          project: "Apollo",
+          estimateMinutes: 30,
+          startLine: 1,
+          endLine: 1,
+        },
+        { title: "Plan the offsite", due: null, tags: null, startLine: 2, endLine: 2 },
+      ]);
+    });
+
     it("should handle API errors gracefully", async () => {
       const chunk: FileChunk = {
         filePath: "/test/file.md",
@@ -118,10 +437,276 @@ Regular text that should not be extracted
         text: () => Promise.resolve('{"error": {"message": "Invalid API key"}}'),
       });
 
-      const result = await taskExtractor.extractTasks(chunk, mockApiKey, mockModel);
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
       
       expect(result.tasks).toHaveLength(0);
       expect(result.chunk).toBe(chunk);
+      expect(result.error).toContain("Invalid API key");
+    });
+
+    it("should extract explicit tasks offline in rules mode", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "## 09:00:00\n- [ ] Send invoice due:16/08 #finance\nfeeling tired",
+        chunkIndex: 0,
+        totalChunks: 1,
+        startLine: 3,
+        anchor: { date: "2025-08-15", time: "09:00:00" },
+        directives: { skip: false, project: "Admin", tags: ["work"] },
+      };
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm, { mode: "rules" });
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(result.error).toBeUndefined();
+      expect(result.tasks).toEqual([
+        {
+          title: "Send invoice",
+          due: "2025-08-16",
+          tags: ["work", "finance"],
+          project: "Admin",
+          startLine: 4,
+          endLine: 4,
+        },
+      ]);
+    });
+
+    describe("extraction cache", () => {
+      const mockCache = extractionCache as jest.Mocked<typeof extractionCache>;
+      const chunk: FileChunk = {
+        filePath: "/test/file.md",
+        content: "- [ ] Buy milk",
+        chunkIndex: 0,
+        totalChunks: 1,
+        startLine: 1,
+        anchor: { date: "2025-08-15", time: null },
+      };
+      const cachedTasks = [{ title: "Buy milk", due: null, tags: null, startLine: 1, endLine: 1 }];
+
+      beforeEach(() => {
+        mockCache.key.mockReturnValue("cache-key");
+        (fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              choices: [
+                {
+                  message: {
+                    content: JSON.stringify({
+                      tasks: [{ title: "Buy oat milk", due: null, tags: null }],
+                    }),
+                  },
+                },
+              ],
+            }),
+        });
+      });
+
+      it("should reuse cached tasks without calling the LLM", async () => {
+        mockCache.get.mockReturnValue(cachedTasks);
+
+        const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(mockCache.get).toHaveBeenCalledWith("cache-key");
+        expect(result.tasks).toEqual(cachedTasks);
+      });
+
+      it("should key the cache by prompt version, provider, model and prompts", async () => {
+        mockCache.get.mockReturnValue(null);
+
+        await taskExtractor.extractTasks(chunk, mockLlm);
+
+        const [parts, systemPrompt, userPrompt] = mockCache.key.mock.calls[0];
+        expect(parts).toEqual({
+          promptVersion: DEFAULT_PROMPT_TEMPLATE.version,
+          provider: "openai",
+          model: "gpt-4",
+          baseUrl: undefined,
+        });
+        expect(systemPrompt).toContain("Extract actionable tasks");
+        expect(userPrompt).toContain("- [ ] Buy milk");
+        expect(mockCache.set).toHaveBeenCalledWith("cache-key", [
+          expect.objectContaining({ title: "Buy oat milk" }),
+        ]);
+      });
+
+      it("should call the LLM and refresh the cache when bypassed", async () => {
+        mockCache.get.mockReturnValue(cachedTasks);
+
+        const result = await taskExtractor.extractTasks(chunk, mockLlm, { bypassCache: true });
+
+        expect(fetch).toHaveBeenCalled();
+        expect(mockCache.get).not.toHaveBeenCalled();
+        expect(result.tasks[0].title).toBe("Buy oat milk");
+        expect(mockCache.set).toHaveBeenCalledWith("cache-key", result.tasks);
+      });
+
+      it("should put cached tasks on the chunk's current lines", async () => {
+        mockCache.get.mockReturnValue(cachedTasks);
+
+        const result = await taskExtractor.extractTasks({ ...chunk, startLine: 41 }, mockLlm);
+
+        expect(fetch).not.toHaveBeenCalled();
+        expect(result.tasks[0]).toMatchObject({ startLine: 41, endLine: 41 });
+      });
+
+      it("should cache tasks on lines counted from the top of the chunk", async () => {
+        mockCache.get.mockReturnValue(null);
+
+        const result = await taskExtractor.extractTasks({ ...chunk, startLine: 41 }, mockLlm);
+
+        expect(result.tasks[0]).toMatchObject({ startLine: 41, endLine: 41 });
+        expect(mockCache.set).toHaveBeenCalledWith("cache-key", [
+          expect.objectContaining({ title: "Buy oat milk", startLine: 1, endLine: 1 }),
+        ]);
+      });
+
+      it("should not cache payloads with rejected tasks", async () => {
+        mockCache.get.mockReturnValue(null);
+        (fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              choices: [
+                {
+                  message: {
+                    content: JSON.stringify({
+                      tasks: [{ title: "Buy oat milk", due: null, tags: null }, { due: "soon" }],
+                    }),
+                  },
+                },
+              ],
+            }),
+        });
+
+        const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+        expect(result.tasks.map((task) => task.title)).toEqual(["Buy oat milk"]);
+        expect(mockCache.set).not.toHaveBeenCalled();
+      });
+
+      it("should not cache failed extractions", async () => {
+        mockCache.get.mockReturnValue(null);
+        (fetch as jest.Mock).mockResolvedValue({
+          ok: false,
+          status: 401,
+          text: () => Promise.resolve("Invalid API key"),
+        });
+
+        const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+        expect(result.error).toBeDefined();
+        expect(mockCache.set).not.toHaveBeenCalled();
+      });
+    });
+
+    it("should put recurring tasks on their first occurrence", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: "water plants every Sunday\npay rent on the 1st of each month",
+        chunkIndex: 0,
+        totalChunks: 1,
+        anchor: { date: "2025-08-15", time: null },
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    tasks: [
+                      { title: "Water plants", due: null, tags: null, recurrence: "FREQ=WEEKLY;BYDAY=SU" },
+                      { title: "Pay rent", due: "2025-08-01T09:00", tags: null, recurrence: "monthly" },
+                    ],
+                  }),
+                },
+              },
+            ],
+          }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      expect(result.tasks.map((task) => [task.due, task.recurrence])).toEqual([
+        ["2025-08-17", "FREQ=WEEKLY;BYDAY=SU"],
+        ["2025-09-01T09:00", "FREQ=MONTHLY"],
+      ]);
+    });
+
+    it("should fall back to rules when the LLM call fails", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/file.md",
+        content: "- [ ] Test task\nneed to think about holidays",
+        chunkIndex: 0,
+        totalChunks: 1,
+      };
+
+      (fetch as jest.Mock).mockRejectedValue(new TypeError("fetch failed"));
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm, { ruleFallback: true });
+
+      expect(result.error).toBeUndefined();
+      expect(result.fallbackReason).toBe("Cannot reach OpenAI: fetch failed");
+      expect(result.tasks.map((task) => task.title)).toEqual(["Test task"]);
+    });
+
+    it("should only send prose to the LLM in hybrid mode", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/2025-08-15.md",
+        content: [
+          "## 09:00:00",
+          "- [ ] Buy milk due:16/08",
+          "- [x] Water plants",
+          "need to book flights for the conference due:friday #travel",
+          "TODO: call John",
+        ].join("\n"),
+        chunkIndex: 0,
+        totalChunks: 1,
+        startLine: 3,
+        anchor: { date: "2025-08-15", time: "09:00:00" },
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: JSON.stringify({
+            tasks: [
+              { title: "Book flights for the conference", due: "2025-08-16", tags: null, source: "need to book flights for the conference" },
+              { title: "Call John", due: null, tags: null, source: "call John" },
+            ],
+          }) } }],
+        }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm, { mode: "hybrid" });
+
+      const userPrompt = JSON.parse((fetch as jest.Mock).mock.calls[0][1].body).messages[1].content;
+      expect(userPrompt).toMatch(/<already_extracted>[\s\S]*- Buy milk\n- Call John\n<\/already_extracted>/);
+      expect(userPrompt).toMatch(/<braindump>\n## 09:00:00\n\n\nneed to book flights for the conference due:friday #travel\n\n<\/braindump>/);
+
+      expect(result.tasks).toEqual([
+        { title: "Buy milk", due: "2025-08-16", tags: null, startLine: 4, endLine: 4 },
+        { title: "Book flights for the conference", due: "2025-08-22", tags: ["travel"], startLine: 6, endLine: 6 },
+        { title: "Call John", due: null, tags: null, startLine: 7, endLine: 7 },
+      ]);
+    });
+
+    it("should skip the LLM in hybrid mode when only explicit tasks remain", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/file.md",
+        content: "## 09:00:00\n- [ ] Buy milk\n\n- [x] Water plants",
+        chunkIndex: 0,
+        totalChunks: 1,
+      };
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm, { mode: "hybrid" });
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(result.tasks.map((task) => task.title)).toEqual(["Buy milk"]);
     });
 
     it("should retry on rate limit with exponential backoff", async () => {
@@ -146,7 +731,7 @@ Regular text that should not be extracted
           }),
         });
 
-      const result = await taskExtractor.extractTasks(chunk, mockApiKey, mockModel);
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
       
       expect(fetch).toHaveBeenCalledTimes(2);
       expect(result.tasks).toHaveLength(1);
@@ -175,11 +760,96 @@ Regular text that should not be extracted
           }),
         });
 
-      const result = await taskExtractor.extractTasks(chunk, mockApiKey, mockModel);
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
       
       expect(fetch).toHaveBeenCalledTimes(2);
       expect(result.tasks).toHaveLength(1);
     });
+
+    it("should send validation errors and the full chunk back for repair", async () => {
+      const content = `${"- [ ] Filler line\n".repeat(80)}- [ ] Book dentist`;
+      const chunk: FileChunk = {
+        filePath: "/test/file.md",
+        content,
+        chunkIndex: 0,
+        totalChunks: 1,
+        anchor: { date: "2025-08-15", time: null },
+      };
+
+      const reply = (tasks: unknown) => ({
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: JSON.stringify({ tasks }) } }],
+        }),
+      });
+
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce(reply([
+          { title: "Book dentist", due: "soon", tags: null },
+          { title: "Filler line", due: null, tags: ["a,b"] },
+        ]))
+        .mockResolvedValueOnce(reply([
+          { title: "Book dentist", due: null, tags: null },
+          { title: "Filler line", due: null, tags: ["a", "b"] },
+        ]));
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      const repairPrompt = JSON.parse((fetch as jest.Mock).mock.calls[1][1].body).messages[1].content;
+      expect(repairPrompt).toContain(content);
+      expect(repairPrompt).toContain('- tasks[0].due: "soon" is not a date; use "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM"');
+      expect(repairPrompt).toContain('- tasks[1].tags[0]: must not contain commas (got "a,b")');
+      expect(result.tasks.map((task) => task.tags)).toEqual([null, ["a", "b"]]);
+    });
+
+    it("should keep the valid tasks when the repair fails", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/file.md",
+        content: "- [ ] Buy milk\n- [ ] Call John",
+        chunkIndex: 0,
+        totalChunks: 1,
+      };
+
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            choices: [{ message: { content: JSON.stringify({
+              tasks: [{ title: "Buy milk", due: null, tags: null }, { title: "", due: null, tags: null }],
+            }) } }],
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 500,
+          text: () => Promise.resolve('{"error": {"message": "Server error"}}'),
+        });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(result.error).toBeUndefined();
+      expect(result.tasks.map((task) => task.title)).toEqual(["Buy milk"]);
+    });
+
+    it("should fail when neither response is valid JSON", async () => {
+      const chunk: FileChunk = {
+        filePath: "/test/file.md",
+        content: "- [ ] Buy milk",
+        chunkIndex: 0,
+        totalChunks: 1,
+      };
+
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: "Sure! Here are your tasks" } }] }),
+      });
+
+      const result = await taskExtractor.extractTasks(chunk, mockLlm);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(result.error).toMatch(/^Invalid JSON response: is not valid JSON/);
+    });
   });
 
   describe("healthCheck", () => {
@@ -191,7 +861,7 @@ Regular text that should not be extracted
         }),
       });
 
-      const result = await taskExtractor.healthCheck(mockApiKey, mockModel);
+      const result = await taskExtractor.healthCheck(mockLlm);
       
       expect(result.healthy).toBe(true);
       expect(result.message).toBe("OpenAI API connection successful");
@@ -204,11 +874,35 @@ Regular text that should not be extracted
         text: () => Promise.resolve('{"error": {"message": "Invalid API key"}}'),
       });
 
-      const result = await taskExtractor.healthCheck(mockApiKey, mockModel);
+      const result = await taskExtractor.healthCheck(mockLlm);
       
       expect(result.healthy).toBe(false);
       expect(result.message).toContain("Invalid API key");
     });
+
+    it("should check Ollama has the model before sending a test prompt", async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ models: [{ name: "mistral:latest" }] }),
+      });
+
+      const result = await taskExtractor.healthCheck({ provider: "ollama", apiKey: "", model: "llama3.1" });
+
+      expect(result.healthy).toBe(false);
+      expect(result.message).toContain("ollama pull llama3.1");
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should name the provider when the connection works", async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ content: [{ type: "text", text: '{"test": true}' }] }),
+      });
+
+      const result = await taskExtractor.healthCheck({ provider: "anthropic", apiKey: "key", model: "claude" });
+
+      expect(result).toEqual({ healthy: true, message: "Anthropic API connection successful" });
+    });
   });
 
   describe("extractTasksFromChunks", () => {
@@ -228,11 +922,43 @@ Regular text that should not be extracted
         })
       );
 
-      const results = await taskExtractor.extractTasksFromChunks(chunks, mockApiKey, mockModel, 2);
+      const results = await taskExtractor.extractTasksFromChunks(chunks, mockLlm, {}, 2);
       
       expect(results).toHaveLength(3);
       expect(results.every(r => r.tasks.length === 1)).toBe(true);
       expect(fetch).toHaveBeenCalledTimes(3);
     });
+
+    it("should drop tasks repeated in the overlap with the previous chunk", async () => {
+      const chunks: FileChunk[] = [
+        { filePath: "/test/file.md", content: "- [ ] Buy milk", chunkIndex: 0, totalChunks: 2 },
+        {
+          filePath: "/test/file.md",
+          content: "- [ ] Buy milk\n- [ ] Call John",
+          chunkIndex: 1,
+          totalChunks: 2,
+          overlapLines: 1,
+        },
+      ];
+
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            choices: [{ message: { content: '{"tasks": [{"title": "Buy milk", "due": null, "tags": null}]}' } }],
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({
+            choices: [{ message: { content: '{"tasks": [{"title": "Buy milk!", "due": null, "tags": null}, {"title": "Call John", "due": null, "tags": null}]}' } }],
+          }),
+        });
+
+      const results = await taskExtractor.extractTasksFromChunks(chunks, mockLlm);
+
+      expect(results[0].tasks.map(t => t.title)).toEqual(["Buy milk"]);
+      expect(results[1].tasks.map(t => t.title)).toEqual(["Call John"]);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { normaliseTime, sourceFormats } from "../src/formats";
+
+describe("sourceFormats", () => {
+  describe("detect", () => {
+    it("should pick an adapter from the path and content", () => {
+      expect(sourceFormats.detect("/notes/2025-08-15.md", "## 09:00:00\n- thought").id).toBe(
+        "markdown"
+      );
+      expect(sourceFormats.detect("/graph/journals/2025_08_15.md", "- note").id).toBe("logseq");
+      expect(sourceFormats.detect("/notes/page.md", "- TODO water plants").id).toBe("logseq");
+      expect(sourceFormats.detect("/notes/journal.org", "* Notes").id).toBe("org");
+      expect(sourceFormats.detect("/notes/2025-08-15.txt", "09:15\nthought").id).toBe("plaintext");
+      expect(sourceFormats.detect("/memos/memo.vtt", "WEBVTT").id).toBe("transcript");
+      expect(sourceFormats.detect("/memos/memo.srt", "1").id).toBe("transcript");
+      expect(
+        sourceFormats.detect("/memos/memo.txt", "1\n00:00:01,000 --> 00:00:03,000\nHi").id
+      ).toBe("transcript");
+    });
+
+    it("should not mistake Dataview inline fields for Logseq", () => {
+      expect(sourceFormats.detect("/notes/2025-08-15.md", "status:: active\n- [ ] Task").id).toBe(
+        "markdown"
+      );
+    });
+
+    it("should fall back to markdown for unknown format IDs", () => {
+      expect(sourceFormats.get(undefined).id).toBe("markdown");
+      expect(sourceFormats.get("org").id).toBe("org");
+    });
+  });
+
+  describe("normalise", () => {
+    it("should convert Logseq markers and scheduling", () => {
+      const content =
+        "- TODO Call [[John]]\n  SCHEDULED: <2025-08-16 Sat 10:00>\n- DONE Buy milk\n- thought";
+      const result = sourceFormats
+        .get("logseq")
+        .normalise(content, "/graph/journals/2025_08_15.md");
+
+      expect(result.content).toBe(
+        "- [ ] Call John\n  due:2025-08-16T10:00\n- [x] Buy milk\n- thought"
+      );
+      expect(result.date).toBe("2025-08-15");
+    });
+
+    it("should convert org headings, keywords and drawers", () => {
+      const content = [
+        "#+TITLE: Journal",
+        "#+DATE: 2025-08-15",
+        "* 09:15",
+        "** TODO Send invoice",
+        "   DEADLINE: <2025-08-20 Wed>",
+        "   :PROPERTIES:",
+        "   :ID: abc",
+        "   :END:",
+        "** DONE Buy milk",
+        "* Ideas",
+      ].join("\n");
+      const result = sourceFormats.get("org").normalise(content, "/notes/journal.org");
+
+      expect(result.content.split("\n")).toEqual([
+        "# Journal",
+        "",
+        "## 09:15:00",
+        "- [ ] Send invoice",
+        "due:2025-08-20",
+        "",
+        "",
+        "",
+        "- [x] Buy milk",
+        "## Ideas",
+      ]);
+      expect(result.date).toBe("2025-08-15");
+    });
+
+    it("should turn bare time lines in plain text into entry headings", () => {
+      const content = "09:15\nneed to call the bank\n[14:30]\nbook flights by friday";
+      const result = sourceFormats.get("plaintext").normalise(content, "/notes/2025-08-15.txt");
+
+      expect(result.content).toBe(
+        "## 09:15:00\nneed to call the bank\n## 14:30:00\nbook flights by friday"
+      );
+      expect(result.date).toBe("2025-08-15");
+    });
+
+    it("should merge WebVTT cues into sentences at their cue offsets", () => {
+      const content = [
+        "WEBVTT",
+        "",
+        "NOTE recorded on the train",
+        "",
+        "1",
+        "00:00:01.000 --> 00:00:03.500",
+        "<v Omar>I need to call the plumber",
+        "",
+        "2",
+        "00:00:03.500 --> 00:00:06.000",
+        "about the leak tomorrow.",
+        "",
+        "3",
+        "01:02.250 --> 01:05.000",
+        "Also buy milk!",
+      ].join("\n");
+
+      const result = sourceFormats.get("transcript").normalise(content, "/memos/2025-08-15.vtt");
+
+      expect(result.content.split("\n")).toEqual([
+        "",
+        "",
+        "",
+        "",
+        "",
+        "## 00:00:01",
+        "Omar: I need to call the plumber about the leak tomorrow.",
+        "",
+        "",
+        "",
+        "",
+        "",
+        "",
+        "## 00:01:02",
+        "Also buy milk!",
+      ]);
+      expect(result.date).toBe("2025-08-15");
+    });
+
+    it("should read SRT cues spanning several lines", () => {
+      const content = [
+        "1",
+        "00:00:10,000 --> 00:00:12,000",
+        "Send the invoice",
+        "to Acme",
+        "",
+        "2",
+        "01:00:00,000 --> 01:00:02,000",
+        "<i>and book flights</i>",
+      ].join("\n");
+
+      const result = sourceFormats.get("transcript").normalise(content, "/memos/memo.srt");
+
+      expect(result.content.split("\n")).toEqual([
+        "",
+        "## 00:00:10",
+        "Send the invoice to Acme and book flights",
+        "",
+        "",
+        "",
+        "",
+        "",
+      ]);
+    });
+
+    it("should keep the line count for every format", () => {
+      const samples: Array<[string, string]> = [
+        ["logseq", "- TODO a\n  SCHEDULED: <2025-08-16>\n- b"],
+        ["org", "#+TITLE: x\n* TODO a\n:LOGBOOK:\nCLOCK: x\n:END:\nbody"],
+        ["plaintext", "09:00\nthought\n\n10:00 -\nmore"],
+        [
+          "transcript",
+          "WEBVTT\n\n00:01.000 --> 00:02.000\nhello\nthere\n\n00:03.000 --> 00:04.000\nbye.",
+        ],
+      ];
+
+      for (const [id, content] of samples) {
+        const result = sourceFormats.get(id).normalise(content, "/notes/file");
+        expect(result.content.split("\n")).toHaveLength(content.split("\n").length);
+      }
+    });
+
+    it("should take the markdown date from the title when the file name has none", () => {
+      const result = sourceFormats
+        .get("markdown")
+        .normalise("# Friday 2025-08-15\n- note", "/notes/inbox.md");
+
+      expect(result.content).toBe("# Friday 2025-08-15\n- note");
+      expect(result.date).toBe("2025-08-15");
+    });
+  });
+
+  describe("normaliseTime", () => {
+    it("should pad and validate times", () => {
+      expect(normaliseTime("9:05")).toBe("09:05:00");
+      expect(normaliseTime("14:30:15")).toBe("14:30:15");
+      expect(normaliseTime("25:00")).toBeNull();
+      expect(normaliseTime("soon")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { parseFrontmatter, toDirectives } from "../src/frontmatter";
+
+describe("frontmatter", () => {
+  describe("parseFrontmatter", () => {
+    it("should parse scalars and lists and strip the block", () => {
+      const content = [
+        "---",
+        "brainpipe: skip",
+        "project: Apollo # the launch",
+        'tags: [work, "planning"]',
+        'default_due_time: "17:00"',
+        "aliases:",
+        "  - daily",
+        "  - 'notes'",
+        "---",
+        "# 2025-08-15",
+        "- [ ] Task",
+      ].join("\n");
+
+      const result = parseFrontmatter(content);
+
+      expect(result.data).toEqual({
+        brainpipe: "skip",
+        project: "Apollo",
+        tags: ["work", "planning"],
+        default_due_time: "17:00",
+        aliases: ["daily", "notes"],
+      });
+      expect(result.body).toBe("# 2025-08-15\n- [ ] Task");
+      expect(result.lineOffset).toBe(9);
+    });
+
+    it("should leave content without frontmatter untouched", () => {
+      const result = parseFrontmatter("# Title\n---\nnot frontmatter\n---");
+
+      expect(result).toEqual({
+        data: {},
+        body: "# Title\n---\nnot frontmatter\n---",
+        lineOffset: 0,
+      });
+    });
+
+    it("should parse booleans", () => {
+      expect(parseFrontmatter("---\nbrainpipe: false\n---\n").data.brainpipe).toBe(false);
+    });
+  });
+
+  describe("toDirectives", () => {
+    it("should interpret the supported keys", () => {
+      expect(
+        toDirectives({
+          brainpipe: "skip",
+          project: "Apollo",
+          tags: ["#work", "home"],
+          default_due_time: "9:30",
+          target: "abc123",
+        })
+      ).toEqual({
+        skip: true,
+        project: "Apollo",
+        tags: ["work", "home"],
+        defaultDueTime: "09:30",
+        target: "abc123",
+      });
+    });
+
+    it("should accept comma separated tags", () => {
+      expect(toDirectives({ tags: "work, urgent" }).tags).toEqual(["work", "urgent"]);
+    });
+
+    it("should read the braindump date", () => {
+      expect(toDirectives({ date: "2025-08-15" }).date).toBe("2025-08-15");
+      expect(toDirectives({ date: "2025-02-30" }).date).toBeUndefined();
+      expect(toDirectives({ date: "Friday" }).date).toBeUndefined();
+    });
+
+    it("should ignore invalid due times", () => {
+      expect(toDirectives({ default_due_time: "25:00" }).defaultDueTime).toBeUndefined();
+      expect(toDirectives({ default_due_time: "5pm" }).defaultDueTime).toBeUndefined();
+    });
+  });
+});
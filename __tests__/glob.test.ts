@@ -0,0 +1,49 @@
+import { matchesGlob, parseGlobList } from "../src/glob";
+
+describe("glob", () => {
+  describe("matchesGlob", () => {
+    it("should match files at any depth with a double star", () => {
+      expect(matchesGlob("note.md", "**/*.md")).toBe(true);
+      expect(matchesGlob("2025/08/note.md", "**/*.md")).toBe(true);
+      expect(matchesGlob("note.txt", "**/*.md")).toBe(false);
+    });
+
+    it("should keep a single star within one path segment", () => {
+      expect(matchesGlob("note.md", "*.md")).toBe(true);
+      expect(matchesGlob("2025/note.md", "2025/*.md")).toBe(true);
+      expect(matchesGlob("2025/08/note.md", "2025/*.md")).toBe(false);
+    });
+
+    it("should match folder patterns against directory paths", () => {
+      expect(matchesGlob("templates/", "templates/**")).toBe(true);
+      expect(matchesGlob("work/templates/", "**/templates/**")).toBe(true);
+      expect(matchesGlob("templates-old/", "**/templates/**")).toBe(false);
+    });
+
+    it("should match slash-free patterns against the base name", () => {
+      expect(matchesGlob("archive/.trash", ".trash")).toBe(true);
+      expect(matchesGlob("archive/draft.md", "draft.*")).toBe(true);
+    });
+
+    it("should support alternation and single character wildcards", () => {
+      expect(matchesGlob("journal.txt", "*.{md,txt}")).toBe(true);
+      expect(matchesGlob("journal.org", "*.{md,txt}")).toBe(false);
+      expect(matchesGlob("2025_08_1.md", "2025_08_?.md")).toBe(true);
+    });
+  });
+
+  describe("parseGlobList", () => {
+    it("should split on commas and newlines outside of braces", () => {
+      expect(parseGlobList("**/*.{md,txt}, templates/**\n.trash")).toEqual([
+        "**/*.{md,txt}",
+        "templates/**",
+        ".trash",
+      ]);
+    });
+
+    it("should return an empty list for blank values", () => {
+      expect(parseGlobList(undefined)).toEqual([]);
+      expect(parseGlobList(" , ")).toEqual([]);
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { fileIngester } from "../src/ingest";
 import * as fs from "fs";
 import * as path from "path";
-import { stateManager } from "../src/state";
+import { digestFile, stateManager } from "../src/state";
+import { digestContent } from "../src/sections";
 
 // Mock the state manager
 jest.mock("../src/state");
@@ -73,6 +74,95 @@ describe("FileIngester", () => {
       const files = await fileIngester.scanDirectory(tildePath);
       expect(files).toHaveLength(1);
     });
+
+    it("should scan nested folders recursively", async () => {
+      fs.mkdirSync(path.join(testDir, "2025", "08"), { recursive: true });
+      fs.mkdirSync(path.join(testDir, "meetings"));
+      fs.writeFileSync(path.join(testDir, "top.md"), "# Top");
+      fs.writeFileSync(path.join(testDir, "2025", "08", "2025-08-15.md"), "# Day");
+      fs.writeFileSync(path.join(testDir, "meetings", "standup.md"), "# Standup");
+
+      const files = await fileIngester.scanDirectory(testDir);
+
+      expect(files).toEqual([
+        path.join(testDir, "2025", "08", "2025-08-15.md"),
+        path.join(testDir, "meetings", "standup.md"),
+        path.join(testDir, "top.md"),
+      ]);
+    });
+
+    it("should skip excluded folders by default", async () => {
+      fs.mkdirSync(path.join(testDir, "templates"));
+      fs.mkdirSync(path.join(testDir, ".trash"));
+      fs.mkdirSync(path.join(testDir, "work", "templates"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "templates", "daily.md"), "# Template");
+      fs.writeFileSync(path.join(testDir, ".trash", "old.md"), "# Old");
+      fs.writeFileSync(path.join(testDir, "work", "templates", "meeting.md"), "# Template");
+      fs.writeFileSync(path.join(testDir, "work", "notes.md"), "# Notes");
+
+      const files = await fileIngester.scanDirectory(testDir);
+
+      expect(files).toEqual([path.join(testDir, "work", "notes.md")]);
+    });
+
+    it("should apply custom include and exclude patterns", async () => {
+      fs.mkdirSync(path.join(testDir, "drafts"));
+      fs.writeFileSync(path.join(testDir, "note.md"), "# Note");
+      fs.writeFileSync(path.join(testDir, "journal.txt"), "Plain text");
+      fs.writeFileSync(path.join(testDir, "drafts", "draft.md"), "# Draft");
+
+      const files = await fileIngester.scanDirectory(testDir, {
+        include: ["**/*.{md,txt}"],
+        exclude: ["drafts/**"],
+      });
+
+      expect(files).toEqual([path.join(testDir, "journal.txt"), path.join(testDir, "note.md")]);
+    });
+
+    it("should never scan the archive folder", async () => {
+      fs.mkdirSync(path.join(testDir, "processed", "2025", "08"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "processed", "2025", "08", "old.md"), "# Old");
+      fs.mkdirSync(path.join(testDir, "work", "processed"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "work", "processed", "kept.md"), "# Kept");
+
+      const files = await fileIngester.scanDirectory(testDir, { include: ["**/*.md"], exclude: [] });
+
+      expect(files).toEqual([path.join(testDir, "work", "processed", "kept.md")]);
+    });
+
+    it("should never scan the inbox's prompt template", async () => {
+      fs.writeFileSync(path.join(testDir, "brainpipe-prompt.txt"), "- [ ] {{content}}");
+      fs.writeFileSync(path.join(testDir, "journal.txt"), "- [ ] Buy milk");
+
+      const files = await fileIngester.scanDirectory(testDir, {
+        include: ["**/*.{md,org,txt,vtt,srt}"],
+        exclude: [],
+      });
+
+      expect(files).toEqual([path.join(testDir, "journal.txt")]);
+    });
+
+    it("should respect the maximum depth", async () => {
+      fs.mkdirSync(path.join(testDir, "a", "b"), { recursive: true });
+      fs.writeFileSync(path.join(testDir, "root.md"), "# Root");
+      fs.writeFileSync(path.join(testDir, "a", "one.md"), "# One");
+      fs.writeFileSync(path.join(testDir, "a", "b", "two.md"), "# Two");
+
+      expect(await fileIngester.scanDirectory(testDir, { maxDepth: 0 })).toEqual([
+        path.join(testDir, "root.md"),
+      ]);
+      expect(await fileIngester.scanDirectory(testDir, { maxDepth: 1 })).toHaveLength(2);
+    });
+
+    it("should not loop forever on symlink cycles", async () => {
+      fs.mkdirSync(path.join(testDir, "nested"));
+      fs.writeFileSync(path.join(testDir, "nested", "note.md"), "# Note");
+      fs.symlinkSync(testDir, path.join(testDir, "nested", "loop"), "dir");
+
+      const files = await fileIngester.scanDirectory(testDir);
+
+      expect(files).toEqual([path.join(testDir, "nested", "note.md")]);
+    });
   });
 
   describe("readFiles", () => {
@@ -115,6 +205,53 @@ describe("FileIngester", () => {
       expect(fileContents[0].filePath).toBe(existingFile);
     });
 
+    it("should strip frontmatter and keep its directives", async () => {
+      const filePath = path.join(testDir, "apollo.md");
+      fs.writeFileSync(filePath, "---\nproject: Apollo\ntags: [work]\n---\n# Notes\n- [ ] Ship it");
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+
+      const fileContents = await fileIngester.readFiles([filePath]);
+
+      expect(fileContents[0].content).toBe("# Notes\n- [ ] Ship it");
+      expect(fileContents[0].directives).toEqual({ skip: false, project: "Apollo", tags: ["work"] });
+      expect(fileContents[0].lineOffset).toBe(4);
+    });
+
+    it("should normalise org-mode and plain text journals", async () => {
+      const orgFile = path.join(testDir, "journal.org");
+      const txtFile = path.join(testDir, "2025-08-15.txt");
+      fs.writeFileSync(orgFile, "* 09:15\n** TODO Send invoice");
+      fs.writeFileSync(txtFile, "14:30\nbook flights");
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+
+      const fileContents = await fileIngester.readFiles([orgFile, txtFile]);
+
+      expect(fileContents[0].format).toBe("org");
+      expect(fileContents[0].content).toBe("## 09:15:00\n- [ ] Send invoice");
+      expect(fileContents[1].format).toBe("plaintext");
+      expect(fileContents[1].content).toBe("## 14:30:00\nbook flights");
+      expect(fileContents[1].date).toBe("2025-08-15");
+    });
+
+    it("should wait for a capture to finish appending before reading", async () => {
+      const filePath = path.join(testDir, "2025-08-15.md");
+      fs.writeFileSync(filePath, "# 2025-08-15\n\n## 09:15:00\n- [ ] Send");
+      fs.writeFileSync(`${filePath}.lock`, "123");
+      setTimeout(() => {
+        fs.appendFileSync(filePath, " invoice\n");
+        fs.rmSync(`${filePath}.lock`, { force: true });
+      }, 120);
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+
+      const fileContents = await fileIngester.readFiles([filePath]);
+
+      expect(fileContents[0].content).toBe("# 2025-08-15\n\n## 09:15:00\n- [ ] Send invoice\n");
+      expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+    });
+
     it("should handle empty file list", async () => {
       const fileContents = await fileIngester.readFiles([]);
       expect(fileContents).toHaveLength(0);
@@ -127,6 +264,7 @@ describe("FileIngester", () => {
         filePath: "/test/small.md",
         content: "# Small file\n\nSome content",
         modifiedTime: Date.now(),
+        digest: { hash: "", size: 0 },
         isModified: true,
       };
 
@@ -138,6 +276,31 @@ describe("FileIngester", () => {
         content: fileContent.content,
         chunkIndex: 0,
         totalChunks: 1,
+        startLine: 1,
+        estimatedTokens: expect.any(Number),
+      });
+    });
+
+    it("should size chunks to the configured model", () => {
+      const dayOfNotes = Array.from(
+        { length: 24 },
+        (_, hour) => `## ${String(hour).padStart(2, "0")}:00:00\n` + "- thinking about the project plan\n".repeat(40)
+      ).join("\n");
+      const fileContent = {
+        filePath: "/test/2025-08-15.md",
+        content: dayOfNotes,
+        modifiedTime: Date.now(),
+        digest: { hash: "", size: 0 },
+        isModified: true,
+      };
+
+      const smallModelChunks = fileIngester.chunkContent(fileContent, { model: "gpt-4" });
+      const largeModelChunks = fileIngester.chunkContent(fileContent, { model: "gpt-4.1" });
+
+      expect(smallModelChunks.length).toBeGreaterThan(1);
+      expect(largeModelChunks).toHaveLength(1);
+      smallModelChunks.forEach((chunk) => {
+        expect(chunk.estimatedTokens).toBeLessThanOrEqual(8192 - 1500 - 2500);
       });
     });
 
@@ -147,6 +310,7 @@ describe("FileIngester", () => {
         filePath: "/test/large.md",
         content: longContent,
         modifiedTime: Date.now(),
+        digest: { hash: "", size: 0 },
         isModified: true,
       };
 
@@ -175,6 +339,7 @@ describe("FileIngester", () => {
         filePath: "/test/longline.md",
         content: `# Title\n${veryLongLine}\n# End`,
         modifiedTime: Date.now(),
+        digest: { hash: "", size: 0 },
         isModified: true,
       };
 
@@ -190,6 +355,30 @@ describe("FileIngester", () => {
   });
 
   describe("ingestFiles", () => {
+    it("should anchor chunks on the braindump's date and entry time", async () => {
+      fs.writeFileSync(
+        path.join(testDir, "2025-08-15.md"),
+        "# Friday\n\n## 09:00:00\n- [ ] call John tomorrow"
+      );
+      fs.writeFileSync(
+        path.join(testDir, "meeting.md"),
+        "---\ndate: 2025-08-11\n---\n# Standup - 2025-08-10\n- [ ] Send notes"
+      );
+      fs.writeFileSync(path.join(testDir, "ideas.md"), "# Standup - 2025-08-10\n- [ ] Draft plan");
+      fs.writeFileSync(path.join(testDir, "undated.md"), "- [ ] Someday");
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+
+      const chunks = await fileIngester.ingestFiles(testDir);
+      const anchorOf = (name: string) =>
+        chunks.find((chunk) => chunk.filePath === path.join(testDir, name))?.anchor;
+
+      expect(anchorOf("2025-08-15.md")).toEqual({ date: "2025-08-15", time: "09:00:00" });
+      expect(anchorOf("meeting.md")).toEqual({ date: "2025-08-11", time: null });
+      expect(anchorOf("ideas.md")).toEqual({ date: "2025-08-10", time: null });
+      expect(anchorOf("undated.md")).toBeUndefined();
+    });
+
     it("should perform complete ingestion workflow", async () => {
       // Create test files
       fs.writeFileSync(path.join(testDir, "note1.md"), "# Note 1\n- [ ] Task 1");
@@ -203,10 +392,147 @@ describe("FileIngester", () => {
       expect(chunks[0].filePath).toBe(path.join(testDir, "note1.md"));
       expect(chunks[1].filePath).toBe(path.join(testDir, "note2.md"));
 
-      // Verify state manager was called to update file times
-      expect(mockStateManager.updateFileModifiedTime).toHaveBeenCalledTimes(2);
-      expect(mockStateManager.updateFileModifiedTime).toHaveBeenCalledWith(path.join(testDir, "note1.md"));
-      expect(mockStateManager.updateFileModifiedTime).toHaveBeenCalledWith(path.join(testDir, "note2.md"));
+      // Checkpoints are only staged; the pipeline commits them after the sync
+      expect(mockStateManager.updateFileModifiedTime).not.toHaveBeenCalled();
+      expect(mockStateManager.stageFileCheckpoint).toHaveBeenCalledTimes(2);
+      expect(mockStateManager.stageFileCheckpoint).toHaveBeenCalledWith(
+        path.join(testDir, "note1.md"),
+        expect.objectContaining({ mtime: expect.any(Number) }),
+        expect.any(Object)
+      );
+      expect(mockStateManager.stageFileCheckpoint).toHaveBeenCalledWith(
+        path.join(testDir, "note2.md"),
+        expect.objectContaining({ mtime: expect.any(Number) }),
+        expect.any(Object)
+      );
+    });
+
+    it("should stage the digest of the content it read", async () => {
+      const filePath = path.join(testDir, "note.md");
+      fs.writeFileSync(filePath, "- [ ] Buy milk");
+      const readDigest = { hash: "as-read", size: 14 };
+      jest.mocked(digestFile).mockReturnValueOnce(readDigest);
+      mockStateManager.isFileModified.mockReturnValue(true);
+
+      await fileIngester.ingestFiles(testDir);
+
+      expect(digestFile).toHaveBeenCalledWith("- [ ] Buy milk");
+      expect(mockStateManager.stageFileCheckpoint).toHaveBeenCalledWith(
+        filePath,
+        { mtime: fs.statSync(filePath).mtimeMs, digest: readDigest },
+        expect.any(Object)
+      );
+    });
+
+    it("should only send new or edited entries of a previously processed file", async () => {
+      const filePath = path.join(testDir, "2025-08-15.md");
+      fs.writeFileSync(
+        filePath,
+        "# 2025-08-15\n\n## 09:00:00\n- [ ] Buy milk\n\n## 14:00:00\n- [ ] Call John\n"
+      );
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+      mockStateManager.getSectionDigests.mockReturnValue({
+        "": digestContent("# 2025-08-15"),
+        "09:00:00": digestContent("## 09:00:00\n- [ ] Buy milk"),
+      });
+
+      const chunks = await fileIngester.ingestFiles(testDir);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].content).toBe("## 14:00:00\n- [ ] Call John\n");
+      expect(chunks[0].startLine).toBe(6);
+      expect(chunks[0].lineMap).toBeUndefined();
+      expect(chunks[0].context).toContain("- [ ] Buy milk");
+      expect(chunks[0].context).toContain("# 2025-08-15");
+    });
+
+    it("should map edited entries back to their lines in the file", async () => {
+      const filePath = path.join(testDir, "2025-08-15.md");
+      fs.writeFileSync(
+        filePath,
+        "---\nproject: Apollo\n---\n## 09:00:00\n- [ ] Buy oat milk\n## 10:00:00\n- [ ] Walk\n## 11:00:00\n- [ ] Call John"
+      );
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+      mockStateManager.getSectionDigests.mockReturnValue({
+        "09:00:00": digestContent("## 09:00:00\n- [ ] Buy milk"),
+        "10:00:00": digestContent("## 10:00:00\n- [ ] Walk"),
+      });
+
+      const chunks = await fileIngester.ingestFiles(testDir);
+
+      expect(chunks[0].content).toBe("## 09:00:00\n- [ ] Buy oat milk\n## 11:00:00\n- [ ] Call John");
+      expect(chunks[0].startLine).toBe(4);
+      expect(chunks[0].lineMap).toEqual([4, 5, 8, 9]);
+    });
+
+    it("should anchor the entries of a partly pending file on their own times", async () => {
+      const filePath = path.join(testDir, "2025-08-15.md");
+      fs.writeFileSync(
+        filePath,
+        "# 2025-08-15\n\n## 09:00:00\n- [ ] Buy milk\n\n## 10:00:00\n- [ ] Call John at 10:30\n\n## 11:00:00\n- [ ] Walk\n"
+      );
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+      mockStateManager.getSectionDigests.mockReturnValue({
+        "": digestContent("# 2025-08-15"),
+        "09:00:00": digestContent("## 09:00:00\n- [ ] Buy milk"),
+        "10:00:00": digestContent("## 10:00:00\n- [ ] Call John"),
+      });
+
+      const chunks = await fileIngester.ingestFiles(testDir);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].content).toMatch(/^## 10:00:00/);
+      expect(chunks[0].startLine).toBe(6);
+      expect(chunks[0].anchor).toEqual({ date: "2025-08-15", time: "10:00:00" });
+    });
+
+    it("should produce no chunks when no entry changed", async () => {
+      fs.writeFileSync(path.join(testDir, "note.md"), "## 09:00:00\n- [ ] Buy milk\n");
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+      mockStateManager.getSectionDigests.mockReturnValue({
+        "09:00:00": digestContent("## 09:00:00\n- [ ] Buy milk"),
+      });
+
+      const chunks = await fileIngester.ingestFiles(testDir);
+
+      expect(chunks).toHaveLength(0);
+      expect(mockStateManager.stageFileCheckpoint).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip files marked with brainpipe: skip", async () => {
+      fs.writeFileSync(path.join(testDir, "private.md"), "---\nbrainpipe: skip\n---\n- [ ] Secret");
+      fs.writeFileSync(path.join(testDir, "work.md"), "---\ntarget: db-123\n---\n- [ ] Work task");
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+
+      const chunks = await fileIngester.ingestFiles(testDir);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].filePath).toBe(path.join(testDir, "work.md"));
+      expect(chunks[0].content).toBe("- [ ] Work task");
+      expect(chunks[0].directives?.target).toBe("db-123");
+      expect(mockStateManager.stageFileCheckpoint).toHaveBeenCalledWith(
+        path.join(testDir, "private.md"),
+        expect.objectContaining({ mtime: expect.any(Number) })
+      );
+    });
+
+    it("should limit ingestion to the given files", async () => {
+      fs.writeFileSync(path.join(testDir, "note1.md"), "- [ ] Task 1");
+      fs.writeFileSync(path.join(testDir, "note2.md"), "- [ ] Task 2");
+      fs.writeFileSync(path.join(testDir, "notes.txt"), "- [ ] Not included");
+
+      mockStateManager.isFileModified.mockReturnValue(true);
+
+      const chunks = await fileIngester.ingestFiles(testDir, {
+        files: [path.join(testDir, "note2.md"), path.join(testDir, "notes.txt")],
+      });
+
+      expect(chunks.map((chunk) => chunk.filePath)).toEqual([path.join(testDir, "note2.md")]);
     });
 
     it("should return empty array when no markdown files exist", async () => {
@@ -241,6 +567,18 @@ describe("FileIngester", () => {
       expect(result.message).toContain("Directory accessible");
     });
 
+    it("should report how many files match", async () => {
+      fs.mkdirSync(path.join(testDir, "sub"));
+      fs.writeFileSync(path.join(testDir, "one.md"), "# One");
+      fs.writeFileSync(path.join(testDir, "sub", "two.md"), "# Two");
+      fs.writeFileSync(path.join(testDir, "ignored.txt"), "Not matched");
+
+      const result = await fileIngester.healthCheck(testDir);
+
+      expect(result.matchingFiles).toBe(2);
+      expect(result.message).toContain("2 matching files");
+    });
+
     it("should return unhealthy for non-existent directory", async () => {
       const result = await fileIngester.healthCheck("/nonexistent/path");
 
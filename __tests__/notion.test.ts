@@ -8,8 +8,20 @@ describe("NotionClient", () => {
   const mockToken = "test-notion-token";
   const mockDatabaseId = "test-database-id";
 
+  // Database lookup answered with every column the client writes
+  const databaseResponse = (
+    columns = ["Priority", "Assignee", "Project", "Estimate", "Source", "Captured At"]
+  ) => ({
+    ok: true,
+    json: () =>
+      Promise.resolve({
+        properties: Object.fromEntries(columns.map((name) => [name, { type: "rich_text" }])),
+      }),
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
+    notionClient.clearCache();
   });
 
   describe("createTask", () => {
@@ -20,7 +32,8 @@ describe("NotionClient", () => {
         tags: ["shopping", "urgent"],
         hash: "test-hash-123",
         filePath: "/Users/test/BrainDump/2025-08-15.md",
-        lineIndex: 5,
+        startLine: 6,
+        endLine: 6,
         extractedAt: "2025-08-15T10:00:00Z",
       };
 
@@ -30,6 +43,7 @@ describe("NotionClient", () => {
           ok: true,
           json: () => Promise.resolve({ results: [] }),
         })
+        .mockResolvedValueOnce(databaseResponse())
         // Mock page creation
         .mockResolvedValueOnce({
           ok: true,
@@ -46,10 +60,10 @@ describe("NotionClient", () => {
       expect(result.pageUrl).toBe("https://notion.so/page-id-123");
 
       // Verify the correct API calls were made
-      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenCalledTimes(3);
 
       // Check the page creation call
-      const createCall = (fetch as jest.Mock).mock.calls[1];
+      const createCall = (fetch as jest.Mock).mock.calls[2];
       expect(createCall[0]).toBe("https://api.notion.com/v1/pages");
       expect(createCall[1].method).toBe("POST");
       
@@ -72,7 +86,8 @@ describe("NotionClient", () => {
         tags: null,
         hash: "simple-hash",
         filePath: "/test/file.md",
-        lineIndex: 0,
+        startLine: 1,
+        endLine: 1,
         extractedAt: "2025-08-15T10:00:00Z",
       };
 
@@ -81,6 +96,7 @@ describe("NotionClient", () => {
           ok: true,
           json: () => Promise.resolve({ results: [] }),
         })
+        .mockResolvedValueOnce(databaseResponse())
         .mockResolvedValueOnce({
           ok: true,
           json: () => Promise.resolve({
@@ -93,7 +109,7 @@ describe("NotionClient", () => {
 
       expect(result.success).toBe(true);
 
-      const createCall = (fetch as jest.Mock).mock.calls[1];
+      const createCall = (fetch as jest.Mock).mock.calls[2];
       const createBody = JSON.parse(createCall[1].body);
       
       expect(createBody.properties).not.toHaveProperty("Due Date");
@@ -101,6 +117,177 @@ describe("NotionClient", () => {
       expect(createBody.properties.Name.title[0].text.content).toBe("Simple task");
     });
 
+    it("should record where in a voice memo the task was captured", async () => {
+      const task: TaskWithMeta = {
+        title: "Call the plumber",
+        due: null,
+        tags: null,
+        hash: "memo-hash",
+        filePath: "/test/2025-08-15 memo.vtt",
+        startLine: 8,
+        endLine: 8,
+        capturedAt: "01:05",
+        extractedAt: "2025-08-15T10:00:00Z",
+      };
+
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ results: [] }),
+        })
+        .mockResolvedValueOnce(databaseResponse())
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: "memo-page-id", url: "https://notion.so/memo-page-id" }),
+        });
+
+      await notionClient.createTask(mockToken, mockDatabaseId, task);
+
+      const createBody = JSON.parse((fetch as jest.Mock).mock.calls[2][1].body);
+      expect(createBody.properties["Captured At"].rich_text[0].text.content).toBe("01:05");
+    });
+
+    describe("task fields", () => {
+      const fieldTask = (extra: Partial<TaskWithMeta>): TaskWithMeta => ({
+        title: "Send the deck",
+        due: null,
+        tags: null,
+        hash: "field-hash",
+        filePath: "/test/file.md",
+        startLine: 1,
+        endLine: 1,
+        extractedAt: "2025-08-15T10:00:00Z",
+        ...extra,
+      });
+
+      afterEach(() => {
+        (fetch as jest.Mock).mockReset();
+      });
+
+      // Answers the database, users, query and page requests by URL
+      const mockNotionApi = (
+        assigneeType: string,
+        recurrenceType = "rich_text",
+        projectType = "select"
+      ) => {
+        (fetch as jest.Mock).mockImplementation((url: string, init: { method: string }) => {
+          let body: unknown = { id: "page-id", url: "https://notion.so/page-id" };
+          if (url.endsWith("/query")) body = { results: [] };
+          else if (url.includes("/users")) {
+            body = {
+              results: [
+                { id: "user-bob", type: "person", name: "Bob Smith" },
+                { id: "user-sarah", type: "person", name: "Sarah Jones" },
+                { id: "user-sara", type: "person", name: "Sarah Lee" },
+                { id: "bot-1", type: "bot", name: "Bob" },
+              ],
+              has_more: false,
+            };
+          } else if (init.method === "GET") {
+            body = {
+              properties: {
+                Priority: { type: "select" },
+                Assignee: { type: assigneeType },
+                Project: { type: projectType },
+                Estimate: { type: "number" },
+                Recurrence: { type: recurrenceType },
+                Source: { type: "rich_text" },
+              },
+            };
+          }
+          return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+        });
+      };
+
+      const createdProperties = () => {
+        const createCall = (fetch as jest.Mock).mock.calls.find(([url]) => url.endsWith("/pages"));
+        return JSON.parse(createCall[1].body).properties;
+      };
+
+      it("should write priority, project and estimate", async () => {
+        mockNotionApi("people");
+
+        await notionClient.createTask(
+          mockToken,
+          "fields-db",
+          fieldTask({ priority: "urgent", project: "Apollo", estimateMinutes: 30 })
+        );
+
+        const properties = createdProperties();
+        expect(properties.Priority).toEqual({ select: { name: "Urgent" } });
+        expect(properties.Project).toEqual({ select: { name: "Apollo" } });
+        expect(properties.Estimate).toEqual({ number: 30 });
+        expect(properties).not.toHaveProperty("Assignee");
+        // The database is looked up once, and users only for assignees
+        expect(fetch).toHaveBeenCalledTimes(3);
+      });
+
+      it("should match assignees to people by full or unique first name", async () => {
+        mockNotionApi("people");
+
+        await notionClient.createTask(mockToken, "people-db", fieldTask({ assignee: "bob" }));
+        expect(createdProperties().Assignee).toEqual({ people: [{ id: "user-bob" }] });
+
+        (fetch as jest.Mock).mockClear();
+        await notionClient.createTask(mockToken, "people-db", fieldTask({ assignee: "Sarah Lee" }));
+        expect(createdProperties().Assignee).toEqual({ people: [{ id: "user-sara" }] });
+        // The database and users are fetched once
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
+
+      it("should leave the assignee unset when no one or several people match", async () => {
+        mockNotionApi("people");
+
+        await notionClient.createTask(mockToken, "unmatched-db", fieldTask({ assignee: "Sarah" }));
+
+        expect(createdProperties()).not.toHaveProperty("Assignee");
+      });
+
+      it("should write assignees as text to a text column", async () => {
+        mockNotionApi("rich_text");
+
+        await notionClient.createTask(mockToken, "text-db", fieldTask({ assignee: "Bob" }));
+
+        expect(createdProperties().Assignee.rich_text[0].text.content).toBe("Bob");
+      });
+
+      it("should write projects as text to a text column", async () => {
+        mockNotionApi("people", "rich_text", "rich_text");
+
+        const result = await notionClient.createTask(
+          mockToken,
+          "text-project-db",
+          fieldTask({ project: "Apollo" })
+        );
+
+        expect(result.success).toBe(true);
+        expect(createdProperties().Project.rich_text[0].text.content).toBe("Apollo");
+      });
+
+      it("should leave projects out of columns of other types", async () => {
+        mockNotionApi("people", "rich_text", "relation");
+
+        await notionClient.createTask(mockToken, "relation-db", fieldTask({ project: "Apollo" }));
+
+        expect(createdProperties()).not.toHaveProperty("Project");
+      });
+
+      it("should write recurrence rules as text or as a select without commas", async () => {
+        const recurrence = "FREQ=WEEKLY;BYDAY=MO,TH";
+
+        mockNotionApi("people");
+        await notionClient.createTask(mockToken, "text-rule-db", fieldTask({ recurrence }));
+        expect(createdProperties().Recurrence.rich_text[0].text.content).toBe(recurrence);
+
+        (fetch as jest.Mock).mockClear();
+        mockNotionApi("people", "select");
+        await notionClient.createTask(mockToken, "select-rule-db", fieldTask({ recurrence }));
+        expect(createdProperties().Recurrence).toEqual({
+          select: { name: "FREQ=WEEKLY;BYDAY=MO TH" },
+        });
+      });
+    });
+
     it("should skip creating task if it already exists", async () => {
       const task: TaskWithMeta = {
         title: "Existing task",
@@ -108,7 +295,8 @@ describe("NotionClient", () => {
         tags: null,
         hash: "existing-hash",
         filePath: "/test/file.md",
-        lineIndex: 0,
+        startLine: 1,
+        endLine: 1,
         extractedAt: "2025-08-15T10:00:00Z",
       };
 
@@ -137,7 +325,8 @@ describe("NotionClient", () => {
         tags: null,
         hash: "error-hash",
         filePath: "/test/file.md",
-        lineIndex: 0,
+        startLine: 1,
+        endLine: 1,
         extractedAt: "2025-08-15T10:00:00Z",
       };
 
@@ -146,6 +335,7 @@ describe("NotionClient", () => {
           ok: true,
           json: () => Promise.resolve({ results: [] }),
         })
+        .mockResolvedValueOnce(databaseResponse())
         .mockResolvedValueOnce({
           ok: false,
           status: 400,
@@ -158,6 +348,72 @@ describe("NotionClient", () => {
       expect(result.error).toContain("Invalid properties");
     });
 
+    describe("missing columns", () => {
+      const task: TaskWithMeta = {
+        title: "Ship release",
+        due: null,
+        tags: null,
+        project: "Apollo",
+        hash: "project-hash",
+        filePath: "/test/file.md",
+        startLine: 1,
+        endLine: 1,
+        extractedAt: "2025-08-15T10:00:00Z",
+      };
+
+      it("should leave out properties the database has no column for", async () => {
+        (fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({ results: [] }),
+          })
+          .mockResolvedValueOnce(databaseResponse(["Source"]))
+          .mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({ id: "page-id", url: "https://notion.so/page-id" }),
+          });
+
+        const result = await notionClient.createTask(mockToken, mockDatabaseId, task);
+
+        expect(result.success).toBe(true);
+        expect(fetch).toHaveBeenCalledTimes(3);
+        const createBody = JSON.parse((fetch as jest.Mock).mock.calls[2][1].body);
+        expect(createBody.properties).not.toHaveProperty("Project");
+        expect(createBody.properties.Source.rich_text[0].text.content).toBe("file.md:1");
+      });
+
+      it("should drop properties Notion rejects when the columns can't be read", async () => {
+        (fetch as jest.Mock)
+          .mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({ results: [] }),
+          })
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 403,
+            text: () => Promise.resolve('{"object":"error","status":403,"message":"Forbidden"}'),
+          })
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 400,
+            text: () => Promise.resolve('{"object":"error","status":400,"code":"validation_error","message":"Project is not a property that exists."}'),
+          })
+          .mockResolvedValueOnce({
+            ok: true,
+            json: () => Promise.resolve({ id: "page-id", url: "https://notion.so/page-id" }),
+          });
+
+        const result = await notionClient.createTask(mockToken, mockDatabaseId, task);
+
+        expect(result.success).toBe(true);
+
+        const firstBody = JSON.parse((fetch as jest.Mock).mock.calls[2][1].body);
+        const retryBody = JSON.parse((fetch as jest.Mock).mock.calls[3][1].body);
+        expect(firstBody.properties.Project.select.name).toBe("Apollo");
+        expect(retryBody.properties).not.toHaveProperty("Project");
+      });
+    });
+
     it("should retry on rate limits", async () => {
       const task: TaskWithMeta = {
         title: "Rate limited task",
@@ -165,7 +421,8 @@ describe("NotionClient", () => {
         tags: null,
         hash: "rate-hash",
         filePath: "/test/file.md",
-        lineIndex: 0,
+        startLine: 1,
+        endLine: 1,
         extractedAt: "2025-08-15T10:00:00Z",
       };
 
@@ -174,6 +431,7 @@ describe("NotionClient", () => {
           ok: true,
           json: () => Promise.resolve({ results: [] }),
         })
+        .mockResolvedValueOnce(databaseResponse())
         // First create attempt fails with 429
         .mockResolvedValueOnce({
           ok: false,
@@ -194,12 +452,50 @@ describe("NotionClient", () => {
       expect(result.success).toBe(true);
       expect(result.pageId).toBe("retry-page-id");
       
-      // Should make 3 calls total (exists check + 2 create attempts)
-      expect(fetch).toHaveBeenCalledTimes(3);
+      // Should make 4 calls total (exists check, database lookup and 2 create attempts)
+      expect(fetch).toHaveBeenCalledTimes(4);
     });
   });
 
   describe("syncTasks", () => {
+    it("should send tasks with a target database to that database", async () => {
+      const tasks: TaskWithMeta[] = [
+        {
+          title: "Routed task",
+          due: null,
+          tags: null,
+          hash: "routed-hash",
+          filePath: "/test/file.md",
+          startLine: 1,
+          endLine: 1,
+          extractedAt: "2025-08-15T10:00:00Z",
+          targetDatabaseId: "other-database-id",
+        },
+      ];
+
+      (fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ results: [] }),
+        })
+        .mockResolvedValueOnce(databaseResponse())
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: "page-id", url: "https://notion.so/page-id" }),
+        });
+
+      await notionClient.syncTasks(mockToken, mockDatabaseId, tasks);
+
+      expect((fetch as jest.Mock).mock.calls[0][0]).toBe(
+        "https://api.notion.com/v1/databases/other-database-id/query"
+      );
+      expect((fetch as jest.Mock).mock.calls[1][0]).toBe(
+        "https://api.notion.com/v1/databases/other-database-id"
+      );
+      const createBody = JSON.parse((fetch as jest.Mock).mock.calls[2][1].body);
+      expect(createBody.parent.database_id).toBe("other-database-id");
+    });
+
     it("should sync multiple tasks with concurrency control", async () => {
       const tasks: TaskWithMeta[] = [
         {
@@ -208,7 +504,8 @@ describe("NotionClient", () => {
           tags: null,
           hash: "hash-1",
           filePath: "/test/file1.md",
-          lineIndex: 0,
+          startLine: 1,
+          endLine: 1,
           extractedAt: "2025-08-15T10:00:00Z",
         },
         {
@@ -217,7 +514,8 @@ describe("NotionClient", () => {
           tags: null,
           hash: "hash-2",
           filePath: "/test/file2.md",
-          lineIndex: 0,
+          startLine: 1,
+          endLine: 1,
           extractedAt: "2025-08-15T10:00:00Z",
         },
       ];
@@ -239,8 +537,8 @@ describe("NotionClient", () => {
       expect(results).toHaveLength(2);
       expect(results.every(r => r.success)).toBe(true);
       
-      // Each task should make 2 calls (exists check + create)
-      expect(fetch).toHaveBeenCalledTimes(4);
+      // Each task should make 2 calls (exists check + create), and the database is looked up once
+      expect(fetch).toHaveBeenCalledTimes(5);
     });
 
     it("should handle mixed success and failure results", async () => {
@@ -251,7 +549,8 @@ describe("NotionClient", () => {
           tags: null,
           hash: "success-hash",
           filePath: "/test/file1.md",
-          lineIndex: 0,
+          startLine: 1,
+          endLine: 1,
           extractedAt: "2025-08-15T10:00:00Z",
         },
         {
@@ -260,17 +559,24 @@ describe("NotionClient", () => {
           tags: null,
           hash: "failure-hash",
           filePath: "/test/file2.md",
-          lineIndex: 0,
+          startLine: 1,
+          endLine: 1,
           extractedAt: "2025-08-15T10:00:00Z",
         },
       ];
 
       (fetch as jest.Mock)
-        // Success task - exists check returns false, create succeeds
+        // Both tasks are checked at once, then the database is looked up once
         .mockResolvedValueOnce({
           ok: true,
           json: () => Promise.resolve({ results: [] }),
         })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ results: [] }),
+        })
+        .mockResolvedValueOnce(databaseResponse())
+        // Success task - create succeeds
         .mockResolvedValueOnce({
           ok: true,
           json: () => Promise.resolve({
@@ -278,11 +584,7 @@ describe("NotionClient", () => {
             url: "https://notion.so/success-page-id",
           }),
         })
-        // Failure task - exists check returns false, create fails
-        .mockResolvedValueOnce({
-          ok: true,
-          json: () => Promise.resolve({ results: [] }),
-        })
+        // Failure task - create fails
         .mockResolvedValueOnce({
           ok: false,
           status: 400,
@@ -378,6 +680,69 @@ describe("NotionClient", () => {
     });
   });
 
+  describe("getTaskStatus", () => {
+    // Earlier tests can leave queued responses behind
+    beforeEach(() => {
+      (fetch as jest.Mock).mockReset();
+    });
+
+    const mockPage = (page: object) => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(page),
+      });
+    };
+
+    it("should report pages with a done status as done", async () => {
+      mockPage({ properties: { Status: { type: "status", status: { name: "Done" } } } });
+      expect(await notionClient.getTaskStatus(mockToken, "page-1")).toBe("done");
+      expect((fetch as jest.Mock).mock.calls[0][0]).toBe("https://api.notion.com/v1/pages/page-1");
+
+      mockPage({ properties: { Status: { type: "select", select: { name: "completed" } } } });
+      expect(await notionClient.getTaskStatus(mockToken, "page-1")).toBe("done");
+    });
+
+    it("should report pages with any other status as open", async () => {
+      mockPage({ properties: { Status: { type: "status", status: { name: "In progress" } } } });
+      expect(await notionClient.getTaskStatus(mockToken, "page-1")).toBe("open");
+
+      mockPage({ properties: { Status: { type: "select", select: null } } });
+      expect(await notionClient.getTaskStatus(mockToken, "page-1")).toBe("open");
+    });
+
+    it("should report archived and unreachable pages as missing", async () => {
+      mockPage({ archived: true, properties: { Status: { status: { name: "Not started" } } } });
+      expect(await notionClient.getTaskStatus(mockToken, "page-1")).toBe("missing");
+
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: () =>
+          Promise.resolve(
+            JSON.stringify({
+              object: "error",
+              status: 404,
+              code: "object_not_found",
+              message: "Could not find page with ID: page-1.",
+            })
+          ),
+      });
+      expect(await notionClient.getTaskStatus(mockToken, "page-1")).toBe("missing");
+    });
+
+    it("should throw other API errors", async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve(JSON.stringify({ message: "API token is invalid." })),
+      });
+
+      await expect(notionClient.getTaskStatus(mockToken, "page-1")).rejects.toThrow(
+        "API token is invalid."
+      );
+    });
+  });
+
   describe("taskExists", () => {
     it("should return true when task exists", async () => {
       (fetch as jest.Mock).mockResolvedValueOnce({
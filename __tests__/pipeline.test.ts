@@ -0,0 +1,454 @@
+import { syncPipeline, SyncSettings } from "../src/pipeline";
+import { fileIngester, FileChunk } from "../src/ingest";
+import { taskExtractor } from "../src/extractor";
+import { notionClient } from "../src/notion";
+import { stateManager, StateManager } from "../src/state";
+import { loadPromptTemplate } from "../src/prompts";
+
+jest.mock("../src/ingest");
+jest.mock("../src/extractor");
+jest.mock("../src/notion");
+jest.mock("../src/state");
+jest.mock("../src/prompts");
+
+describe("SyncPipeline", () => {
+  const mockIngester = fileIngester as jest.Mocked<typeof fileIngester>;
+  const mockExtractor = taskExtractor as jest.Mocked<typeof taskExtractor>;
+  const mockNotion = notionClient as jest.Mocked<typeof notionClient>;
+  const mockStateManager = stateManager as jest.Mocked<typeof stateManager>;
+
+  const settings: SyncSettings = {
+    inboxDir: "/inbox",
+    ingestOptions: {},
+    llm: { provider: "openai", apiKey: "key", model: "gpt-4o" },
+    notionToken: "token",
+    notionDbId: "db",
+  };
+
+  const chunkFor = (filePath: string): FileChunk => ({
+    filePath,
+    content: "- [ ] Task",
+    chunkIndex: 0,
+    totalChunks: 1,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStateManager.getStagedFiles.mockReturnValue(["/inbox/a.md", "/inbox/b.md"]);
+    mockStateManager.generateTaskHash.mockImplementation(
+      (task, filePath) => `${filePath}:${task.title}`
+    );
+    mockStateManager.isTaskProcessed.mockReturnValue(false);
+    mockStateManager.getRecurringTasks.mockReturnValue([]);
+  });
+
+  it("should commit files once their tasks are synced", async () => {
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md"), chunkFor("/inbox/b.md")]);
+    mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) =>
+      chunks.map((chunk) => ({ chunk, tasks: [{ title: "Task", due: null, tags: null }] }))
+    );
+    mockNotion.syncTasks.mockResolvedValue([{ success: true }, { success: true }]);
+
+    const summary = await syncPipeline.run(settings);
+
+    expect(summary.syncedTasks).toBe(2);
+    expect(summary.retryFiles).toEqual([]);
+    expect(mockStateManager.commitFileCheckpoint).toHaveBeenCalledWith("/inbox/a.md");
+    expect(mockStateManager.commitFileCheckpoint).toHaveBeenCalledWith("/inbox/b.md");
+    expect(mockStateManager.updateLastRun).toHaveBeenCalled();
+  });
+
+  it("should retry files whose extraction failed", async () => {
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md"), chunkFor("/inbox/b.md")]);
+    mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) => [
+      { chunk: chunks[0], tasks: [], error: "OpenAI API error: HTTP 500" },
+      { chunk: chunks[1], tasks: [{ title: "Task", due: null, tags: null }] },
+    ]);
+    mockNotion.syncTasks.mockResolvedValue([{ success: true }]);
+
+    const summary = await syncPipeline.run(settings);
+
+    expect(summary.failedChunks).toBe(1);
+    expect(summary.retryFiles).toEqual(["/inbox/a.md"]);
+    expect(mockStateManager.discardFileCheckpoint).toHaveBeenCalledWith("/inbox/a.md");
+    expect(mockStateManager.commitFileCheckpoint).toHaveBeenCalledWith("/inbox/b.md");
+    expect(mockStateManager.commitFileCheckpoint).not.toHaveBeenCalledWith("/inbox/a.md");
+  });
+
+  it("should sync rule fallback tasks and retry their files", async () => {
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md"), chunkFor("/inbox/b.md")]);
+    mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) => [
+      {
+        chunk: chunks[0],
+        tasks: [{ title: "Buy milk", due: null, tags: null }],
+        fallbackReason: "OpenAI API error: HTTP 500",
+      },
+      { chunk: chunks[1], tasks: [{ title: "Task", due: null, tags: null }] },
+    ]);
+    mockNotion.syncTasks.mockResolvedValue([{ success: true }, { success: true }]);
+
+    const summary = await syncPipeline.run(settings);
+
+    expect(summary.syncedTasks).toBe(2);
+    expect(mockStateManager.markTaskProcessed).toHaveBeenCalledWith("/inbox/a.md:Buy milk");
+    expect(summary.retryFiles).toEqual(["/inbox/a.md"]);
+    expect(mockStateManager.discardFileCheckpoint).toHaveBeenCalledWith("/inbox/a.md");
+    expect(mockStateManager.commitFileCheckpoint).toHaveBeenCalledWith("/inbox/b.md");
+  });
+
+  it("should retry files with tasks that failed to sync", async () => {
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md"), chunkFor("/inbox/b.md")]);
+    mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) =>
+      chunks.map((chunk) => ({ chunk, tasks: [{ title: "Task", due: null, tags: null }] }))
+    );
+    mockNotion.syncTasks.mockResolvedValue([
+      { success: true },
+      { success: false, error: "Notion API error: HTTP 502" },
+    ]);
+
+    const summary = await syncPipeline.run(settings);
+
+    expect(summary.failedTasks).toBe(1);
+    expect(summary.retryFiles).toEqual(["/inbox/b.md"]);
+    expect(mockStateManager.markTaskProcessed).toHaveBeenCalledWith("/inbox/a.md:Task");
+    expect(mockStateManager.markTaskProcessed).not.toHaveBeenCalledWith("/inbox/b.md:Task");
+    expect(mockStateManager.commitFileCheckpoint).toHaveBeenCalledWith("/inbox/a.md");
+  });
+
+  it("should add the route's default tags to every task", async () => {
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md")]);
+    mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) => [
+      { chunk: chunks[0], tasks: [{ title: "Task", due: null, tags: ["urgent", "work"] }] },
+    ]);
+    mockNotion.syncTasks.mockResolvedValue([{ success: true }]);
+
+    await syncPipeline.run({ ...settings, defaultTags: ["work", "team"] });
+
+    const [, , tasks] = mockNotion.syncTasks.mock.calls[0];
+    expect(tasks[0].tags).toEqual(["urgent", "work", "team"]);
+  });
+
+  it("should only sync the task fields enabled for the route", async () => {
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md")]);
+    mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) => [
+      {
+        chunk: chunks[0],
+        tasks: [
+          {
+            title: "Task",
+            due: null,
+            tags: null,
+            priority: "high",
+            assignee: "Bob",
+            project: "Apollo",
+            estimateMinutes: 30,
+          },
+        ],
+      },
+    ]);
+    mockNotion.syncTasks.mockResolvedValue([{ success: true }]);
+
+    await syncPipeline.run({ ...settings, taskFields: ["priority", "estimate"] });
+
+    const [, , tasks] = mockNotion.syncTasks.mock.calls[0];
+    expect(tasks[0]).toMatchObject({ priority: "high", estimateMinutes: 30 });
+    expect(tasks[0]).not.toHaveProperty("assignee");
+    expect(tasks[0]).not.toHaveProperty("project");
+  });
+
+  describe("prompt templates", () => {
+    const mockLoadTemplate = loadPromptTemplate as jest.MockedFunction<typeof loadPromptTemplate>;
+    const template = { version: "team-3", system: "System", user: "{{content}}", source: "custom" };
+
+    beforeEach(() => {
+      mockLoadTemplate.mockReturnValue(template);
+      mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md")]);
+      mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) => [
+        {
+          chunk: chunks[0],
+          tasks: [{ title: "Task", due: null, tags: null }],
+          promptVersion: "team-3",
+        },
+      ]);
+      mockNotion.syncTasks.mockResolvedValue([{ success: true }]);
+    });
+
+    it("should extract with the inbox's template and record its version on tasks", async () => {
+      await syncPipeline.run(settings);
+
+      expect(mockLoadTemplate).toHaveBeenCalledWith("/inbox");
+      expect(mockExtractor.extractTasksFromChunks).toHaveBeenCalledWith(
+        expect.any(Array),
+        settings.llm,
+        { template }
+      );
+      const [, , tasks] = mockNotion.syncTasks.mock.calls[0];
+      expect(tasks[0].promptVersion).toBe("team-3");
+    });
+
+    it("should not load a template for rule extraction", async () => {
+      await syncPipeline.run({ ...settings, extraction: { mode: "rules" } });
+
+      expect(mockLoadTemplate).not.toHaveBeenCalled();
+      expect(mockExtractor.extractTasksFromChunks).toHaveBeenCalledWith(
+        expect.any(Array),
+        settings.llm,
+        { mode: "rules" }
+      );
+    });
+
+    it("should retry the inbox's files when its template is invalid", async () => {
+      mockLoadTemplate.mockImplementationOnce(() => {
+        throw new Error('Prompt template /inbox/brainpipe-prompt.txt: missing "version"');
+      });
+
+      await expect(syncPipeline.run(settings)).rejects.toThrow('missing "version"');
+
+      expect(mockExtractor.extractTasksFromChunks).not.toHaveBeenCalled();
+      expect(mockStateManager.commitFileCheckpoint).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should keep progress in the route's own state", async () => {
+    const routeState = {
+      getStagedFiles: jest.fn().mockReturnValue(["/work/a.md"]),
+      generateTaskHash: jest.fn().mockReturnValue("work-hash"),
+      isTaskProcessed: jest.fn().mockReturnValue(false),
+      markTaskProcessed: jest.fn(),
+      commitFileCheckpoint: jest.fn(),
+      discardFileCheckpoint: jest.fn(),
+      cleanup: jest.fn(),
+      updateLastRun: jest.fn(),
+      getRecurringTasks: jest.fn().mockReturnValue([]),
+    };
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/work/a.md")]);
+    mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) =>
+      chunks.map((chunk) => ({ chunk, tasks: [{ title: "Task", due: null, tags: null }] }))
+    );
+    mockNotion.syncTasks.mockResolvedValue([{ success: true }]);
+
+    await syncPipeline.run({
+      ...settings,
+      inboxDir: "/work",
+      ingestOptions: { state: routeState as unknown as StateManager },
+      notionDbId: "work-db",
+    });
+
+    expect(mockNotion.syncTasks).toHaveBeenCalledWith("token", "work-db", expect.any(Array));
+    expect(routeState.markTaskProcessed).toHaveBeenCalledWith("work-hash");
+    expect(routeState.commitFileCheckpoint).toHaveBeenCalledWith("/work/a.md");
+    expect(mockStateManager.markTaskProcessed).not.toHaveBeenCalled();
+    expect(mockStateManager.commitFileCheckpoint).not.toHaveBeenCalled();
+  });
+
+  describe("task identity", () => {
+    const { StateManager: RealStateManager } = jest.requireActual("../src/state");
+    const stateFile = "/tmp/test-raycast-support/test-pipeline-state.json";
+    let realState: StateManager;
+
+    const entryChunk = (content: string): FileChunk => ({
+      filePath: "/inbox/2025-08-15.md",
+      content,
+      chunkIndex: 0,
+      totalChunks: 1,
+      startLine: 3,
+    });
+
+    beforeEach(() => {
+      require("fs").rmSync(stateFile, { force: true });
+      realState = new RealStateManager("test-pipeline-state.json");
+      mockNotion.syncTasks.mockImplementation(async (_, __, tasks) =>
+        tasks.map(() => ({ success: true }))
+      );
+    });
+
+    afterEach(() => {
+      require("fs").rmSync(stateFile, { force: true });
+    });
+
+    const located = (title: string, line: number) => ({
+      title,
+      due: null,
+      tags: null,
+      startLine: line,
+      endLine: line,
+    });
+
+    const runWith = (chunk: FileChunk, startLine: number) => {
+      mockIngester.ingestFiles.mockResolvedValue([chunk]);
+      mockExtractor.extractTasksFromChunks.mockResolvedValue([
+        { chunk, tasks: [located("Buy milk", startLine)] },
+      ]);
+      return syncPipeline.run({ ...settings, ingestOptions: { state: realState } });
+    };
+
+    it("should not sync a task again when a line is added above it in an edited entry", async () => {
+      await runWith(entryChunk("## 09:00:00\n- [ ] Buy milk"), 4);
+      const summary = await runWith(
+        entryChunk("## 09:00:00\nCalled the landlord\n- [ ] Buy milk"),
+        5
+      );
+
+      expect(mockNotion.syncTasks).toHaveBeenCalledTimes(1);
+      expect(summary.syncedTasks).toBe(0);
+    });
+
+    it("should not sync the LLM's wording of a rule fallback task on the retry", async () => {
+      const chunk = entryChunk("## 09:00:00\n- [ ] buy milk\nshould call John about the rent");
+      mockIngester.ingestFiles.mockResolvedValue([chunk]);
+      mockExtractor.extractTasksFromChunks.mockResolvedValueOnce([
+        { chunk, tasks: [located("buy milk", 4)], fallbackReason: "OpenAI API error: HTTP 500" },
+      ]);
+      await syncPipeline.run({ ...settings, ingestOptions: { state: realState } });
+
+      mockExtractor.extractTasksFromChunks.mockResolvedValueOnce([
+        { chunk, tasks: [located("Buy milk from the store", 4), located("Call John", 5)] },
+      ]);
+      const summary = await syncPipeline.run({ ...settings, ingestOptions: { state: realState } });
+
+      expect(summary.syncedTasks).toBe(1);
+      expect(mockNotion.syncTasks).toHaveBeenLastCalledWith("token", "db", [
+        expect.objectContaining({ title: "Call John" }),
+      ]);
+    });
+
+    it("should keep every task taken from one line", async () => {
+      const chunk = entryChunk("## 09:00:00\nbuy milk and call John");
+      mockIngester.ingestFiles.mockResolvedValue([chunk]);
+      mockExtractor.extractTasksFromChunks.mockResolvedValue([
+        { chunk, tasks: [located("Buy milk", 4), located("Call John", 4)] },
+      ]);
+
+      const summary = await syncPipeline.run({ ...settings, ingestOptions: { state: realState } });
+
+      expect(summary.syncedTasks).toBe(2);
+    });
+  });
+
+  describe("recurring tasks", () => {
+    const waterPlants = {
+      title: "Water plants",
+      due: "2030-06-02",
+      tags: null,
+      recurrence: "FREQ=WEEKLY;BYDAY=SU",
+      hash: "series-hash",
+      filePath: "/inbox/a.md",
+      startLine: 1,
+      endLine: 1,
+      extractedAt: "2030-05-30T09:00:00.000Z",
+    };
+
+    beforeEach(() => {
+      mockIngester.ingestFiles.mockResolvedValue([]);
+    });
+
+    it("should follow the Notion page of a synced recurring task", async () => {
+      mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md")]);
+      mockExtractor.extractTasksFromChunks.mockImplementation(async (chunks) => [
+        {
+          chunk: chunks[0],
+          tasks: [
+            {
+              title: "Water plants",
+              due: "2030-06-02",
+              tags: null,
+              recurrence: "FREQ=WEEKLY;BYDAY=SU",
+            },
+            { title: "Buy milk", due: null, tags: null },
+          ],
+        },
+      ]);
+      mockNotion.syncTasks.mockResolvedValue([
+        { success: true, pageId: "page-1" },
+        { success: true, pageId: "page-2" },
+      ]);
+
+      await syncPipeline.run(settings);
+
+      expect(mockStateManager.trackRecurringTask).toHaveBeenCalledTimes(1);
+      expect(mockStateManager.trackRecurringTask).toHaveBeenCalledWith(
+        "page-1",
+        "db",
+        expect.objectContaining({ title: "Water plants" })
+      );
+    });
+
+    it("should create the next instance once the current one is done", async () => {
+      mockStateManager.getRecurringTasks.mockReturnValue([
+        { pageId: "page-1", databaseId: "work-db", task: waterPlants },
+      ]);
+      mockStateManager.generateOccurrenceHash.mockReturnValue("next-hash");
+      mockNotion.getTaskStatus.mockResolvedValue("done");
+      mockNotion.createTask.mockResolvedValue({ success: true, pageId: "page-2" });
+
+      const summary = await syncPipeline.run(settings);
+
+      const next = {
+        ...waterPlants,
+        due: "2030-06-09",
+        hash: "next-hash",
+        extractedAt: expect.any(String),
+      };
+      expect(summary.renewedTasks).toBe(1);
+      expect(mockStateManager.generateOccurrenceHash).toHaveBeenCalledWith(
+        "series-hash",
+        "2030-06-09"
+      );
+      expect(mockNotion.createTask).toHaveBeenCalledWith(
+        "token",
+        "work-db",
+        expect.objectContaining(next)
+      );
+      expect(mockStateManager.untrackRecurringTask).toHaveBeenCalledWith("page-1");
+      expect(mockStateManager.trackRecurringTask).toHaveBeenCalledWith(
+        "page-2",
+        "work-db",
+        expect.objectContaining(next)
+      );
+    });
+
+    it("should leave open instances and stop following deleted ones", async () => {
+      mockStateManager.getRecurringTasks.mockReturnValue([
+        { pageId: "open-page", databaseId: "db", task: waterPlants },
+        { pageId: "deleted-page", databaseId: "db", task: waterPlants },
+      ]);
+      mockNotion.getTaskStatus.mockImplementation(async (_token, pageId) =>
+        pageId === "open-page" ? "open" : "missing"
+      );
+
+      const summary = await syncPipeline.run(settings);
+
+      expect(summary.renewedTasks).toBe(0);
+      expect(mockNotion.createTask).not.toHaveBeenCalled();
+      expect(mockStateManager.untrackRecurringTask).toHaveBeenCalledTimes(1);
+      expect(mockStateManager.untrackRecurringTask).toHaveBeenCalledWith("deleted-page");
+    });
+
+    it("should keep following an instance when its status can't be read", async () => {
+      mockStateManager.getRecurringTasks.mockReturnValue([
+        { pageId: "page-1", databaseId: "db", task: waterPlants },
+      ]);
+      mockNotion.getTaskStatus.mockRejectedValue(new Error("Notion API error: HTTP 502"));
+
+      const summary = await syncPipeline.run(settings);
+
+      expect(summary.renewedTasks).toBe(0);
+      expect(mockStateManager.untrackRecurringTask).not.toHaveBeenCalled();
+      expect(mockStateManager.updateLastRun).toHaveBeenCalled();
+    });
+  });
+
+  it("should not commit anything when the run throws", async () => {
+    mockIngester.ingestFiles.mockResolvedValue([chunkFor("/inbox/a.md")]);
+    mockExtractor.extractTasksFromChunks.mockResolvedValue([
+      { chunk: chunkFor("/inbox/a.md"), tasks: [{ title: "Task", due: null, tags: null }] },
+    ]);
+    mockNotion.syncTasks.mockRejectedValue(new Error("Network down"));
+
+    await expect(syncPipeline.run(settings)).rejects.toThrow("Network down");
+
+    expect(mockStateManager.commitFileCheckpoint).not.toHaveBeenCalled();
+    expect(mockStateManager.discardFileCheckpoint).toHaveBeenCalledWith("/inbox/a.md");
+    expect(mockStateManager.discardFileCheckpoint).toHaveBeenCalledWith("/inbox/b.md");
+  });
+});
@@ -0,0 +1,147 @@
+import { withholdPrivate } from "../src/privacy";
+import { fileIngester } from "../src/ingest";
+import { taskExtractor } from "../src/extractor";
+import { stateManager } from "../src/state";
+import * as fs from "fs";
+import * as path from "path";
+
+// Mock fetch globally
+global.fetch = jest.fn();
+jest.mock("../src/cache");
+
+describe("withholdPrivate", () => {
+  it("should withhold ignore regions, including inline ones", () => {
+    const content = [
+      "- [ ] Buy milk",
+      "<!-- brainpipe:ignore -->",
+      "- [ ] Book therapy session",
+      "<!-- /brainpipe:ignore -->",
+      "- [ ] Call Bob <!-- brainpipe:ignore -->about the lawsuit<!-- /brainpipe:ignore --> today",
+    ].join("\n");
+
+    const result = withholdPrivate(content);
+
+    expect(result.content.split("\n")).toEqual([
+      "- [ ] Buy milk",
+      "",
+      "",
+      "",
+      "- [ ] Call Bob  today",
+    ]);
+    expect(result.withheldRegions).toBe(2);
+    expect(result.withheldChars).toBe(content.length - result.content.length);
+  });
+
+  it("should withhold the rest of the file after an unclosed ignore marker", () => {
+    const result = withholdPrivate("- [ ] Public\n<!-- brainpipe:ignore -->\n- [ ] Secret");
+
+    expect(result.content).toBe("- [ ] Public\n\n");
+  });
+
+  it("should withhold private code fences", () => {
+    const content = "Intro\n```private\nsalary review notes\n```\n- [ ] Public task";
+
+    expect(withholdPrivate(content).content).toBe("Intro\n\n\n\n- [ ] Public task");
+  });
+
+  it("should withhold a tagged heading's whole section", () => {
+    const content = [
+      "## 09:00 #private",
+      "- [ ] Refill prescription",
+      "### Notes",
+      "doctor said rest",
+      "## 10:00",
+      "- [ ] Ship release",
+    ].join("\n");
+
+    expect(withholdPrivate(content).content).toBe("\n\n\n\n## 10:00\n- [ ] Ship release");
+  });
+
+  it("should withhold tagged list items with their nested lines", () => {
+    const content = [
+      "- [ ] Prepare HR case #private",
+      "  - gather emails",
+      "",
+      "  - talk to manager",
+      "- [ ] Ship release",
+    ].join("\n");
+
+    expect(withholdPrivate(content).content).toBe("\n\n\n\n- [ ] Ship release");
+  });
+
+  it("should withhold the paragraph around a tagged line", () => {
+    const content = "First line\nsecond line #Private\nthird line\n\nPublic paragraph";
+
+    expect(withholdPrivate(content).content).toBe("\n\n\n\nPublic paragraph");
+  });
+
+  it("should leave similar tags and untagged content alone", () => {
+    const content = "- [ ] Read #private-equity report\n- [ ] Email foo#private";
+
+    expect(withholdPrivate(content)).toEqual({ content, withheldChars: 0, withheldRegions: 0 });
+  });
+});
+
+describe("private content and extraction", () => {
+  const testDir = "/tmp/test-brain-dump-private";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+    stateManager.reset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should never send withheld content to OpenAI", async () => {
+    fs.writeFileSync(
+      path.join(testDir, "2025-08-15.md"),
+      [
+        "# Friday",
+        "",
+        "## 09:00",
+        "- [ ] Send invoice to Acme",
+        "- [ ] Book appointment with Dr Jones #private",
+        "  - ask about the biopsy results",
+        "<!-- brainpipe:ignore -->",
+        "Performance review for Sam is on Monday",
+        "<!-- /brainpipe:ignore -->",
+        "```private",
+        "salary: 120k",
+        "```",
+        "## 10:00 #private",
+        "- [ ] Call HR about the grievance",
+        "## 11:00",
+        "- [ ] Ship release",
+      ].join("\n")
+    );
+
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: JSON.stringify({ tasks: [] }) } }],
+      }),
+    });
+
+    const chunks = await fileIngester.ingestFiles(testDir);
+    await taskExtractor.extractTasksFromChunks(chunks, {
+      provider: "openai",
+      apiKey: "key",
+      model: "gpt-4o",
+    });
+
+    const bodies = (fetch as jest.Mock).mock.calls.map(([, init]) => String(init.body));
+    expect(bodies.length).toBeGreaterThan(0);
+
+    for (const body of bodies) {
+      expect(body).toContain("Send invoice to Acme");
+      expect(body).toContain("Ship release");
+      for (const secret of ["Dr Jones", "biopsy", "Performance review", "120k", "grievance"]) {
+        expect(body).not.toContain(secret);
+      }
+    }
+  });
+});
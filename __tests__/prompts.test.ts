@@ -0,0 +1,143 @@
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  loadPromptTemplate,
+  parsePromptTemplate,
+  PROMPT_VARIABLES,
+  renderPrompt,
+} from "../src/prompts";
+import { PROMPT_TEMPLATE_FILE } from "../src/ingest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Raycast API is mocked globally via __mocks__/@raycast/api.js
+
+describe("prompts", () => {
+  const templateFile = (version: string, system: string, user: string) =>
+    `---\nversion: ${version}\n---\n=== system ===\n${system}\n\n=== user ===\n${user}\n`;
+
+  describe("parsePromptTemplate", () => {
+    it("should read the version and both sections", () => {
+      const template = parsePromptTemplate(
+        templateFile(
+          "team-3",
+          "Extract tasks.\nReturn JSON.",
+          "Notes of {{ fileDate }}:\n{{content}}"
+        ),
+        "/inbox/brainpipe-prompt.txt"
+      );
+
+      expect(template).toEqual({
+        version: "team-3",
+        system: "Extract tasks.\nReturn JSON.",
+        user: "Notes of {{ fileDate }}:\n{{content}}",
+        source: "/inbox/brainpipe-prompt.txt",
+      });
+    });
+
+    it("should accept the built-in template written as a file", () => {
+      const { version, system, user } = DEFAULT_PROMPT_TEMPLATE;
+
+      expect(parsePromptTemplate(templateFile(version, system, user), "built-in")).toMatchObject({
+        version,
+        user,
+      });
+    });
+
+    it.each([
+      ["no version", "=== system ===\nS\n=== user ===\n{{content}}", 'missing "version"'],
+      [
+        "a version with spaces",
+        templateFile("team 3", "S", "{{content}}"),
+        '"version" may only contain',
+      ],
+      [
+        "text before the first section",
+        "---\nversion: 1\n---\nHello\n=== system ===\nS\n=== user ===\n{{content}}",
+        'must start with a "=== system ===" or "=== user ===" line',
+      ],
+      [
+        "no user section",
+        "---\nversion: 1\n---\n=== system ===\nS",
+        'the "=== user ===" section is missing or empty',
+      ],
+      [
+        "an empty system section",
+        templateFile("1", "  ", "{{content}}"),
+        'the "=== system ===" section is missing or empty',
+      ],
+      [
+        "a repeated section",
+        "---\nversion: 1\n---\n=== user ===\n{{content}}\n=== user ===\nmore",
+        'more than one "=== user ===" section',
+      ],
+      [
+        "an unknown variable",
+        templateFile("1", "Today is {{today}}", "{{content}}"),
+        "unknown variable {{today}} in the system section",
+      ],
+      [
+        "no content",
+        templateFile("1", "S", "Notes of {{fileDate}}"),
+        "the user section must include {{content}}",
+      ],
+    ])("should reject a template with %s", (_, text, message) => {
+      expect(() => parsePromptTemplate(text, "custom.txt")).toThrow(
+        `Prompt template custom.txt: ${message}`
+      );
+    });
+  });
+
+  describe("renderPrompt", () => {
+    it("should fill every placeholder", () => {
+      const variables = Object.fromEntries(
+        PROMPT_VARIABLES.map((name) => [name, `<${name}>`])
+      ) as Record<(typeof PROMPT_VARIABLES)[number], string>;
+
+      expect(renderPrompt("{{fileDate}} and {{ content }}{{chunkInfo}}", variables)).toBe(
+        "<fileDate> and <content><chunkInfo>"
+      );
+    });
+  });
+
+  describe("loadPromptTemplate", () => {
+    const inboxDir = path.join(os.tmpdir(), "brainpipe-prompts-test");
+    const supportFile = path.join("/tmp/test-raycast-support", PROMPT_TEMPLATE_FILE);
+
+    beforeEach(() => {
+      fs.mkdirSync(inboxDir, { recursive: true });
+      fs.mkdirSync(path.dirname(supportFile), { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(inboxDir, { recursive: true, force: true });
+      fs.rmSync(supportFile, { force: true });
+    });
+
+    it("should fall back to the built-in template", () => {
+      expect(loadPromptTemplate(inboxDir)).toBe(DEFAULT_PROMPT_TEMPLATE);
+    });
+
+    it("should prefer the inbox's template to the support folder's", () => {
+      fs.writeFileSync(supportFile, templateFile("shared", "S", "{{content}}"));
+      expect(loadPromptTemplate(inboxDir).version).toBe("shared");
+
+      fs.writeFileSync(
+        path.join(inboxDir, PROMPT_TEMPLATE_FILE),
+        templateFile("inbox", "S", "{{content}}")
+      );
+      expect(loadPromptTemplate(inboxDir)).toMatchObject({
+        version: "inbox",
+        source: path.join(inboxDir, PROMPT_TEMPLATE_FILE),
+      });
+    });
+
+    it("should report invalid templates with their path", () => {
+      fs.writeFileSync(path.join(inboxDir, PROMPT_TEMPLATE_FILE), "=== user ===\n{{content}}");
+
+      expect(() => loadPromptTemplate(inboxDir)).toThrow(
+        `Prompt template ${path.join(inboxDir, PROMPT_TEMPLATE_FILE)}: missing "version"`
+      );
+    });
+  });
+});
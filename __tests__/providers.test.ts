@@ -0,0 +1,226 @@
+import {
+  llmProviders,
+  LlmSettings,
+  missingLlmSettings,
+  ProviderError,
+  resolveLlmSettings,
+} from "../src/providers";
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe("LLM providers", () => {
+  const request = { system: "Return JSON", user: "Extract", maxTokens: 500 };
+
+  const reply = (body: unknown) => ({
+    ok: true,
+    json: () => Promise.resolve(body),
+  });
+
+  const lastCall = () => {
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    return { url, headers: init.headers, body: JSON.parse(init.body) };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("chat", () => {
+    it("should send OpenAI requests with a bearer token", async () => {
+      (fetch as jest.Mock).mockResolvedValue(
+        reply({ choices: [{ message: { content: '{"tasks": []}' } }] })
+      );
+      const settings: LlmSettings = { provider: "openai", apiKey: "sk-1", model: "gpt-4o" };
+
+      const content = await llmProviders.get("openai").chat(settings, request);
+
+      const { url, headers, body } = lastCall();
+      expect(content).toBe('{"tasks": []}');
+      expect(url).toBe("https://api.openai.com/v1/chat/completions");
+      expect(headers.Authorization).toBe("Bearer sk-1");
+      expect(body.model).toBe("gpt-4o");
+      expect(body.max_completion_tokens).toBe(500);
+    });
+
+    it("should address Azure deployments with an api-key header and API version", async () => {
+      (fetch as jest.Mock).mockResolvedValue(reply({ choices: [{ message: { content: "{}" } }] }));
+      const settings: LlmSettings = {
+        provider: "azure",
+        apiKey: "az-1",
+        model: "tasks",
+        baseUrl: "https://acme.openai.azure.com/openai/deployments/tasks/",
+      };
+
+      await llmProviders.get("azure").chat(settings, request);
+
+      const { url, headers, body } = lastCall();
+      expect(url).toBe(
+        "https://acme.openai.azure.com/openai/deployments/tasks/chat/completions?api-version=2024-10-21"
+      );
+      expect(headers["api-key"]).toBe("az-1");
+      expect(headers.Authorization).toBeUndefined();
+      expect(body.response_format).toEqual({ type: "json_object" });
+    });
+
+    it("should send Anthropic messages and unwrap fenced JSON", async () => {
+      (fetch as jest.Mock).mockResolvedValue(
+        reply({ content: [{ type: "text", text: '```json\n{"tasks": []}\n```' }] })
+      );
+      const settings: LlmSettings = { provider: "anthropic", apiKey: "ant-1", model: "claude" };
+
+      const content = await llmProviders.get("anthropic").chat(settings, request);
+
+      const { url, headers, body } = lastCall();
+      expect(content).toBe('{"tasks": []}');
+      expect(url).toBe("https://api.anthropic.com/v1/messages");
+      expect(headers["x-api-key"]).toBe("ant-1");
+      expect(headers["anthropic-version"]).toBe("2023-06-01");
+      expect(body.system).toMatch(/^Return JSON/);
+      expect(body.messages).toEqual([{ role: "user", content: "Extract" }]);
+      expect(body.max_tokens).toBe(500);
+    });
+
+    it("should ask a local Ollama for JSON without authentication", async () => {
+      (fetch as jest.Mock).mockResolvedValue(reply({ message: { content: '{"tasks": []}' } }));
+      const settings: LlmSettings = { provider: "ollama", apiKey: "", model: "llama3.1" };
+
+      const content = await llmProviders.get("ollama").chat(settings, request);
+
+      const { url, headers, body } = lastCall();
+      expect(content).toBe('{"tasks": []}');
+      expect(url).toBe("http://localhost:11434/api/chat");
+      expect(headers.Authorization).toBeUndefined();
+      expect(body).toMatchObject({ stream: false, format: "json", options: { num_predict: 500 } });
+    });
+
+    it("should send gateway requests to the configured base URL with the chosen auth", async () => {
+      (fetch as jest.Mock).mockResolvedValue(reply({ choices: [{ message: { content: "{}" } }] }));
+      const settings: LlmSettings = {
+        provider: "openai-compatible",
+        apiKey: "gw-1",
+        model: "internal-large",
+        baseUrl: "https://llm.internal.example/v1",
+        authScheme: "x-api-key",
+      };
+
+      await llmProviders.get("openai-compatible").chat(settings, request);
+
+      const { url, headers, body } = lastCall();
+      expect(url).toBe("https://llm.internal.example/v1/chat/completions");
+      expect(headers["x-api-key"]).toBe("gw-1");
+      expect(body.max_tokens).toBe(500);
+    });
+  });
+
+  describe("errors", () => {
+    const settings: LlmSettings = { provider: "anthropic", apiKey: "ant-1", model: "claude" };
+
+    it("should normalise error bodies into a ProviderError", async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve('{"type": "error", "error": {"message": "invalid x-api-key"}}'),
+      });
+
+      const error = await llmProviders
+        .get("anthropic")
+        .chat(settings, request)
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error.message).toBe("Anthropic API error: invalid x-api-key");
+      expect(error.status).toBe(401);
+      expect(error.rateLimited).toBe(false);
+    });
+
+    it("should signal rate limits with the requested wait", async () => {
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 529,
+        headers: new Headers({ "retry-after": "7" }),
+        text: () => Promise.resolve('{"error": {"message": "Overloaded"}}'),
+      });
+
+      const error = await llmProviders
+        .get("anthropic")
+        .chat(settings, request)
+        .catch((caught) => caught);
+
+      expect(error.rateLimited).toBe(true);
+      expect(error.retryAfterMs).toBe(7000);
+    });
+
+    it("should report unreachable providers", async () => {
+      (fetch as jest.Mock).mockRejectedValue(new TypeError("fetch failed"));
+
+      const error = await llmProviders
+        .get("ollama")
+        .chat({ provider: "ollama", apiKey: "", model: "llama3.1" }, request)
+        .catch((caught) => caught);
+
+      expect(error.message).toBe("Cannot reach Ollama: fetch failed");
+      expect(error.status).toBeNull();
+    });
+  });
+
+  describe("checkAvailability", () => {
+    const settings: LlmSettings = { provider: "ollama", apiKey: "", model: "llama3.1" };
+
+    it("should accept a pulled model", async () => {
+      (fetch as jest.Mock).mockResolvedValue(reply({ models: [{ name: "llama3.1:latest" }] }));
+
+      await expect(llmProviders.get("ollama").checkAvailability!(settings)).resolves.toBeNull();
+    });
+
+    it("should explain how to pull a missing model", async () => {
+      (fetch as jest.Mock).mockResolvedValue(reply({ models: [{ name: "mistral:latest" }] }));
+
+      await expect(llmProviders.get("ollama").checkAvailability!(settings)).resolves.toBe(
+        "Model llama3.1 is not available; run `ollama pull llama3.1`"
+      );
+    });
+  });
+
+  describe("resolveLlmSettings", () => {
+    it("should default to OpenAI with the provider's usual auth", () => {
+      expect(resolveLlmSettings({ openaiKey: " sk-1 ", openaiModel: "gpt-4o" })).toEqual({
+        provider: "openai",
+        apiKey: "sk-1",
+        model: "gpt-4o",
+      });
+    });
+
+    it("should read the provider, base URL and auth scheme", () => {
+      expect(
+        resolveLlmSettings({
+          llmProvider: "openai-compatible",
+          llmBaseUrl: "https://llm.internal.example/v1",
+          llmAuthScheme: "api-key",
+          openaiKey: "gw-1",
+          openaiModel: "internal-large",
+        })
+      ).toEqual({
+        provider: "openai-compatible",
+        apiKey: "gw-1",
+        model: "internal-large",
+        baseUrl: "https://llm.internal.example/v1",
+        authScheme: "api-key",
+      });
+    });
+  });
+
+  describe("missingLlmSettings", () => {
+    it("should not require a key for Ollama", () => {
+      expect(missingLlmSettings({ provider: "ollama", apiKey: "", model: "llama3.1" })).toEqual([]);
+    });
+
+    it("should require a key, model and base URL where the provider needs them", () => {
+      expect(missingLlmSettings({ provider: "azure", apiKey: "", model: "" })).toEqual([
+        "Azure OpenAI API key",
+        "Azure OpenAI model",
+        "Azure OpenAI base URL",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  firstDue,
+  formatRecurrence,
+  nextDue,
+  nextOccurrence,
+  parseRecurrence,
+  RecurrenceRule,
+} from "../src/recurrence";
+
+describe("recurrence", () => {
+  const rule = (value: string): RecurrenceRule => {
+    const parsed = parseRecurrence(value);
+    if (!parsed) throw new Error(`Unparseable rule ${value}`);
+    return parsed;
+  };
+
+  describe("parseRecurrence", () => {
+    it.each([
+      ["FREQ=DAILY", "FREQ=DAILY"],
+      ["RRULE:FREQ=WEEKLY;BYDAY=SU", "FREQ=WEEKLY;BYDAY=SU"],
+      ["freq=weekly;interval=2;byday=mo,fr", "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR"],
+      ["FREQ=WEEKLY;INTERVAL=1", "FREQ=WEEKLY"],
+      ["FREQ=MONTHLY;BYMONTHDAY=1", "FREQ=MONTHLY;BYMONTHDAY=1"],
+      ["FREQ=MONTHLY;BYMONTHDAY=-1", "FREQ=MONTHLY;BYMONTHDAY=-1"],
+      ["FREQ=MONTHLY;BYDAY=1MO", "FREQ=MONTHLY;BYDAY=1MO"],
+      ["FREQ=MONTHLY;BYDAY=-1FR", "FREQ=MONTHLY;BYDAY=-1FR"],
+      ["FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=14", "FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=14"],
+      ["FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR", "FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR"],
+      ["daily", "FREQ=DAILY"],
+      ["Fortnightly", "FREQ=WEEKLY;INTERVAL=2"],
+      ["weekdays", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"],
+      ["sun", "FREQ=WEEKLY;BYDAY=SU"],
+      ["mon,Thursday", "FREQ=WEEKLY;BYDAY=MO,TH"],
+    ])("should read %s", (value, expected) => {
+      expect(formatRecurrence(rule(value))).toBe(expected);
+    });
+
+    it.each([
+      [""],
+      ["every sunday"],
+      ["FREQ=HOURLY"],
+      ["INTERVAL=2"],
+      ["FREQ=WEEKLY;INTERVAL=0"],
+      ["FREQ=WEEKLY;BYDAY=XX"],
+      ["FREQ=WEEKLY;BYDAY=1MO"],
+      ["FREQ=MONTHLY;BYDAY=MO"],
+      ["FREQ=MONTHLY;BYDAY=1MO,3MO"],
+      ["FREQ=MONTHLY;BYMONTHDAY=32"],
+      ["FREQ=MONTHLY;BYMONTHDAY=0"],
+      ["FREQ=WEEKLY;BYMONTHDAY=1"],
+      ["FREQ=MONTHLY;BYMONTH=2"],
+      ["FREQ=DAILY;COUNT=3"],
+      ["FREQ=DAILY;FREQ=WEEKLY"],
+    ])("should reject %j", (value) => {
+      expect(parseRecurrence(value)).toBeNull();
+    });
+  });
+
+  describe("nextOccurrence", () => {
+    // 2025-08-15 is a Friday
+    it.each([
+      ["FREQ=DAILY", "2025-08-15", "2025-08-16"],
+      ["FREQ=DAILY;INTERVAL=3", "2025-08-15", "2025-08-18"],
+      ["FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR", "2025-08-15", "2025-08-18"],
+      ["FREQ=WEEKLY", "2025-08-15", "2025-08-22"],
+      ["FREQ=WEEKLY;BYDAY=SU", "2025-08-15", "2025-08-17"],
+      ["FREQ=WEEKLY;BYDAY=SU", "2025-08-17", "2025-08-24"],
+      ["FREQ=WEEKLY;BYDAY=MO,TH", "2025-08-18", "2025-08-21"],
+      ["FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH", "2025-08-21", "2025-09-01"],
+      ["FREQ=WEEKLY;INTERVAL=2", "2025-08-15", "2025-08-29"],
+      ["FREQ=MONTHLY;BYMONTHDAY=1", "2025-08-15", "2025-09-01"],
+      ["FREQ=MONTHLY;BYMONTHDAY=20", "2025-08-15", "2025-08-20"],
+      ["FREQ=MONTHLY;BYMONTHDAY=31", "2025-08-31", "2025-09-30"],
+      ["FREQ=MONTHLY;BYMONTHDAY=-1", "2025-02-10", "2025-02-28"],
+      ["FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1", "2025-08-15", "2025-11-01"],
+      ["FREQ=MONTHLY", "2025-08-15", "2025-09-15"],
+      ["FREQ=MONTHLY;BYDAY=1MO", "2025-08-15", "2025-09-01"],
+      ["FREQ=MONTHLY;BYDAY=-1FR", "2025-08-15", "2025-08-29"],
+      ["FREQ=MONTHLY;BYDAY=5FR", "2025-08-29", "2025-10-31"],
+      ["FREQ=YEARLY", "2025-08-15", "2026-08-15"],
+      ["FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=14", "2025-08-15", "2026-03-14"],
+      ["FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25", "2025-08-15", "2025-12-25"],
+      ["FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29", "2025-03-01", "2026-02-28"],
+    ])("should follow %s after %s with %s", (value, after, expected) => {
+      expect(nextOccurrence(rule(value), after)).toBe(expected);
+    });
+
+    it.each([
+      ["FREQ=WEEKLY", "2025-08-18"],
+      ["FREQ=MONTHLY", "2025-09-04"],
+      ["FREQ=YEARLY", "2026-08-04"],
+    ])("should repeat %s on the start date's day, giving %s", (value, expected) => {
+      // 2025-08-04 is a Monday
+      expect(nextOccurrence(rule(value), "2025-08-15", "2025-08-04")).toBe(expected);
+    });
+
+    it.each([
+      ["FREQ=WEEKLY;INTERVAL=2;BYDAY=FR", "2025-08-26", "2025-08-29"],
+      ["FREQ=DAILY;INTERVAL=3", "2025-08-19", "2025-08-21"],
+      ["FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=1", "2025-09-15", "2025-10-01"],
+      ["FREQ=MONTHLY;INTERVAL=3", "2026-01-10", "2026-02-15"],
+      ["FREQ=YEARLY;INTERVAL=2", "2026-09-01", "2027-08-15"],
+    ])("should count %s from the series start when looking after %s", (value, after, expected) => {
+      // The series started on Friday 2025-08-15
+      expect(nextOccurrence(rule(value), after, "2025-08-15")).toBe(expected);
+    });
+
+    it("should give up on rules that never match", () => {
+      expect(nextOccurrence(rule("FREQ=DAILY;INTERVAL=7;BYDAY=MO"), "2025-08-15")).toBeNull();
+    });
+  });
+
+  describe("firstDue", () => {
+    it.each([
+      ["FREQ=WEEKLY;BYDAY=SU", null, "2025-08-17"],
+      ["FREQ=WEEKLY;BYDAY=FR", null, "2025-08-15"],
+      ["FREQ=WEEKLY;BYDAY=SU", "2025-08-16", "2025-08-17"],
+      ["FREQ=WEEKLY;BYDAY=MO", "2025-08-18T09:00", "2025-08-18T09:00"],
+      ["FREQ=WEEKLY;BYDAY=MO", "2025-08-01T09:00", "2025-08-18T09:00"],
+      ["FREQ=MONTHLY;BYMONTHDAY=1", "2025-10-01", "2025-10-01"],
+      ["FREQ=MONTHLY;BYMONTHDAY=1", null, "2025-09-01"],
+      ["FREQ=MONTHLY", "2025-08-01T09:00", "2025-09-01T09:00"],
+    ])("should start %s with due %s on %s", (value, due, expected) => {
+      expect(firstDue(rule(value), due, "2025-08-15")).toBe(expected);
+    });
+
+    it.each(["2025-08-18", "2025-08-19", "2025-08-22"])(
+      "should start a fortnightly series in the anchor's week when anchored on %s",
+      (anchorDate) => {
+        expect(firstDue(rule("FREQ=WEEKLY;INTERVAL=2;BYDAY=FR"), null, anchorDate)).toBe(
+          "2025-08-22"
+        );
+      }
+    );
+  });
+
+  describe("nextDue", () => {
+    it("should move to the occurrence after the current one, keeping the time", () => {
+      expect(nextDue(rule("FREQ=WEEKLY;BYDAY=SU"), "2025-08-17T10:00", "2025-08-16")).toBe(
+        "2025-08-24T10:00"
+      );
+    });
+
+    it("should skip occurrences that passed before the instance was completed", () => {
+      expect(nextDue(rule("FREQ=WEEKLY;BYDAY=SU"), "2025-08-17", "2025-09-03")).toBe("2025-09-07");
+      expect(nextDue(rule("FREQ=WEEKLY;BYDAY=WE"), "2025-08-20", "2025-09-03")).toBe("2025-09-03");
+      expect(nextDue(rule("FREQ=MONTHLY"), "2025-08-01", "2025-09-10")).toBe("2025-10-01");
+    });
+
+    it.each(["2025-08-22", "2025-08-25", "2025-08-26", "2025-09-04"])(
+      "should keep a fortnightly cadence when completed on %s",
+      (today) => {
+        expect(nextDue(rule("FREQ=WEEKLY;INTERVAL=2;BYDAY=FR"), "2025-08-22", today)).toBe(
+          "2025-09-05"
+        );
+      }
+    );
+
+    it("should start from today when the instance had no due date", () => {
+      expect(nextDue(rule("FREQ=MONTHLY;BYMONTHDAY=1"), null, "2025-08-15")).toBe("2025-09-01");
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { loadRoutes, parseRoutes, routeIngestOptions, routeTaskFields } from "../src/routes";
+import { getRouteStateManager, stateManager } from "../src/state";
+import * as fs from "fs";
+
+describe("routes", () => {
+  const preferences = {
+    inboxDir: "~/BrainDump/inbox",
+    notionDbId: "personal-db",
+    includeGlobs: "**/*.md",
+    excludeGlobs: "**/templates/**",
+  };
+
+  describe("parseRoutes", () => {
+    it("should read routes with their globs and tags", () => {
+      const routes = parseRoutes(
+        JSON.stringify([
+          {
+            id: "work",
+            inboxDir: "~/Work/inbox",
+            notionDbId: "work-db",
+            include: "**/*.md, **/*.txt",
+            exclude: [],
+            tags: ["#work", "team"],
+            fields: ["Priority", "assignee", "priority"],
+          },
+        ])
+      );
+
+      expect(routes).toEqual([
+        {
+          id: "work",
+          inboxDir: "~/Work/inbox",
+          notionDbId: "work-db",
+          include: ["**/*.md", "**/*.txt"],
+          exclude: [],
+          tags: ["work", "team"],
+          fields: ["priority", "assignee"],
+        },
+      ]);
+    });
+
+    it("should reject invalid route files", () => {
+      expect(() => parseRoutes("{")).toThrow("not valid JSON");
+      expect(() => parseRoutes("{}")).toThrow("JSON array");
+      expect(() => parseRoutes('[{"id": "work", "inboxDir": "~/Work"}]')).toThrow(
+        'Route 1: "notionDbId" is required'
+      );
+      expect(() =>
+        parseRoutes('[{"id": "../work", "inboxDir": "~/Work", "notionDbId": "db"}]')
+      ).toThrow("may only contain");
+      expect(() =>
+        parseRoutes('[{"id": "default", "inboxDir": "~/Work", "notionDbId": "db"}]')
+      ).toThrow("reserved");
+      expect(() =>
+        parseRoutes(
+          JSON.stringify([
+            { id: "work", inboxDir: "~/Work", notionDbId: "db" },
+            { id: "work", inboxDir: "~/Side", notionDbId: "db" },
+          ])
+        )
+      ).toThrow('Route 2: duplicate id "work"');
+      expect(() =>
+        parseRoutes('[{"id": "work", "inboxDir": "~/Work", "notionDbId": "db", "fields": "owner"}]')
+      ).toThrow('Route 1: unknown task field "owner"');
+    });
+  });
+
+  describe("loadRoutes", () => {
+    const routesFile = "/tmp/test-brain-dump-routes.json";
+
+    afterEach(() => {
+      fs.rmSync(routesFile, { force: true });
+    });
+
+    it("should start with the inbox from preferences", () => {
+      expect(loadRoutes(preferences)).toEqual([
+        { id: "default", inboxDir: "~/BrainDump/inbox", notionDbId: "personal-db" },
+      ]);
+    });
+
+    it("should add the routes from the routes file", () => {
+      fs.writeFileSync(
+        routesFile,
+        JSON.stringify([{ id: "work", inboxDir: "~/Work/inbox", notionDbId: "work-db" }])
+      );
+
+      const routes = loadRoutes({ ...preferences, routesFile });
+
+      expect(routes.map((route) => route.id)).toEqual(["default", "work"]);
+    });
+
+    it("should report a missing routes file", () => {
+      expect(() => loadRoutes({ ...preferences, routesFile })).toThrow("Cannot read routes file");
+    });
+  });
+
+  describe("routeIngestOptions", () => {
+    it("should give each route its own globs and state", () => {
+      const work = routeIngestOptions(
+        { id: "work", inboxDir: "~/Work", notionDbId: "work-db", include: ["**/*.txt"] },
+        preferences
+      );
+      const personal = routeIngestOptions(
+        { id: "default", inboxDir: "~/BrainDump/inbox", notionDbId: "personal-db" },
+        preferences
+      );
+
+      expect(work.include).toEqual(["**/*.txt"]);
+      expect(work.exclude).toEqual(["**/templates/**"]);
+      expect(work.state).toBe(getRouteStateManager("work"));
+      expect(work.state).not.toBe(stateManager);
+      expect(personal.include).toEqual(["**/*.md"]);
+      expect(personal.state).toBe(stateManager);
+    });
+  });
+
+  describe("routeTaskFields", () => {
+    const route = { id: "default", inboxDir: "~/BrainDump/inbox", notionDbId: "personal-db" };
+
+    it("should default to every field", () => {
+      expect(routeTaskFields(route, preferences)).toEqual([
+        "priority",
+        "assignee",
+        "project",
+        "estimate",
+        "recurrence",
+      ]);
+    });
+
+    it("should read the preference, with a route's own list taking precedence", () => {
+      const withFields = { ...preferences, taskFields: "Project, estimate" };
+
+      expect(routeTaskFields(route, withFields)).toEqual(["project", "estimate"]);
+      expect(routeTaskFields(route, { ...preferences, taskFields: "" })).toEqual([]);
+      expect(routeTaskFields({ ...route, fields: ["assignee"] }, withFields)).toEqual(["assignee"]);
+      expect(() => routeTaskFields(route, { ...preferences, taskFields: "owner" })).toThrow(
+        'Task Fields preference: unknown task field "owner"'
+      );
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import { ruleExtractor } from "../src/rules";
+import { FileChunk } from "../src/ingest";
+import { DateAnchor } from "../src/dates";
+
+describe("RuleExtractor", () => {
+  // 2025-08-15 is a Friday
+  const anchor: DateAnchor = { date: "2025-08-15", time: "09:00:00" };
+
+  const chunkOf = (content: string, extra: Partial<FileChunk> = {}): FileChunk => ({
+    filePath: "/test/2025-08-15.md",
+    content,
+    chunkIndex: 0,
+    totalChunks: 1,
+    ...extra,
+  });
+
+  describe("taskText", () => {
+    it.each([
+      ["- [ ] Buy milk", "Buy milk"],
+      ["* [ ] Buy milk", "Buy milk"],
+      ["1. [ ] Buy milk", "Buy milk"],
+      ["  - [ ] Nested task", "Nested task"],
+      ["TODO: call John", "call John"],
+      ["TODO call John", "call John"],
+      ["todo: call John", "call John"],
+      ["- ACTION: Sarah to send the deck", "Sarah to send the deck"],
+      ["ACTION ITEM - book venue", "book venue"],
+      ["* follow up with Sarah due:2025-08-20", "follow up with Sarah due:2025-08-20"],
+    ])("should find the task in %s", (line, expected) => {
+      expect(ruleExtractor.taskText(line)).toBe(expected);
+    });
+
+    it.each([
+      ["- [x] Already done"],
+      ["- [X] Already done"],
+      ["* follow up with Sarah"],
+      ["todo list is getting long"],
+      ["TODOS are piling up"],
+      ["## 09:00:00"],
+      ["Regular text"],
+    ])("should skip %s", (line) => {
+      expect(ruleExtractor.taskText(line)).toBeNull();
+    });
+  });
+
+  describe("extractTasks", () => {
+    it("should extract titles, due dates and tags with their lines", () => {
+      const chunk = chunkOf(
+        [
+          "# 2025-08-15",
+          "",
+          "## 09:00:00",
+          "- [ ] Buy milk due:16/08",
+          "- [x] Already completed task",
+          "TODO: call John due:tomorrow #calls",
+          "* follow up with Sarah about the proposal due:2025-08-20 #work #sales",
+          "Regular text that should not be extracted",
+          "- [ ] Review PR #123",
+        ].join("\n"),
+        { startLine: 1 }
+      );
+
+      expect(ruleExtractor.extractTasks(chunk, anchor)).toEqual([
+        { title: "Buy milk", due: "2025-08-16", tags: null, startLine: 4, endLine: 4 },
+        { title: "Call John", due: "2025-08-16", tags: ["calls"], startLine: 6, endLine: 6 },
+        {
+          title: "Follow up with Sarah about the proposal",
+          due: "2025-08-20",
+          tags: ["work", "sales"],
+          startLine: 7,
+          endLine: 7,
+        },
+        { title: "Review PR #123", due: null, tags: null, startLine: 9, endLine: 9 },
+      ]);
+    });
+
+    it("should resolve due dates against the braindump's date", () => {
+      const chunk = chunkOf("- [ ] Send invoice due:friday\n- [ ] Pay rent due:05/01");
+
+      const tasks = ruleExtractor.extractTasks(chunk, { date: "2025-12-30", time: null });
+
+      expect(tasks.map((task) => task.due)).toEqual(["2026-01-02", "2026-01-05"]);
+    });
+
+    it("should keep times and read numeric dates in the anchor's date order", () => {
+      const chunk = chunkOf("- [ ] Call the bank due:2025-08-18T09:30\n- [ ] Pay rent due:09/01");
+
+      const tasks = ruleExtractor.extractTasks(chunk, { ...anchor, dateOrder: "mdy" });
+
+      expect(tasks.map((task) => task.due)).toEqual(["2025-08-18T09:30", "2025-09-01"]);
+    });
+
+    it("should read priority, assignee, project and estimate tokens", () => {
+      const chunk = chunkOf(
+        [
+          "- [ ] Send the deck !urgent @Bob +Apollo ~30m",
+          "TODO: write the report ~1h30m !LOW",
+          "- [ ] Email bob@example.com about C++ ~2h, then relax",
+        ].join("\n")
+      );
+
+      const tasks = ruleExtractor.extractTasks(chunk, anchor);
+
+      expect(tasks[0]).toMatchObject({
+        title: "Send the deck",
+        priority: "urgent",
+        assignee: "Bob",
+        project: "Apollo",
+        estimateMinutes: 30,
+      });
+      expect(tasks[1]).toMatchObject({
+        title: "Write the report",
+        priority: "low",
+        estimateMinutes: 90,
+      });
+      expect(tasks[2]).toEqual({
+        title: "Email bob@example.com about C++, then relax",
+        due: null,
+        tags: null,
+        estimateMinutes: 120,
+        startLine: 3,
+        endLine: 3,
+      });
+    });
+
+    it("should read repeat tokens as recurrence rules", () => {
+      const chunk = chunkOf(
+        [
+          "- [ ] Water plants repeat:sun",
+          "- [ ] Pay rent due:01/09 repeat:FREQ=MONTHLY;BYMONTHDAY=1",
+          "- [ ] Stretch repeat:sometimes",
+        ].join("\n")
+      );
+
+      const tasks = ruleExtractor.extractTasks(chunk, anchor);
+
+      expect(tasks[0]).toMatchObject({ title: "Water plants", recurrence: "FREQ=WEEKLY;BYDAY=SU" });
+      expect(tasks[1]).toMatchObject({
+        title: "Pay rent",
+        due: "2025-09-01",
+        recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+      });
+      expect(tasks[2].title).toBe("Stretch");
+      expect(tasks[2]).not.toHaveProperty("recurrence");
+    });
+
+    it("should leave unreadable due tokens unset", () => {
+      const [task] = ruleExtractor.extractTasks(
+        chunkOf("- [ ] Renew passport due:soonish"),
+        anchor
+      );
+
+      expect(task).toMatchObject({ title: "Renew passport", due: null });
+    });
+
+    it("should skip fenced code and lines repeated from the previous chunk", () => {
+      const chunk = chunkOf(
+        [
+          "- [ ] From the previous chunk",
+          "```",
+          "- [ ] Example in code",
+          "```",
+          "- [ ] Real task",
+        ].join("\n"),
+        { startLine: 10, overlapLines: 1 }
+      );
+
+      expect(ruleExtractor.extractTasks(chunk, anchor)).toEqual([
+        { title: "Real task", due: null, tags: null, startLine: 14, endLine: 14 },
+      ]);
+    });
+
+    it("should skip tasks that are only tags", () => {
+      expect(ruleExtractor.extractTasks(chunkOf("- [ ] #someday"), anchor)).toEqual([]);
+    });
+  });
+
+  describe("claim", () => {
+    it("should claim task lines and ticked checkboxes, including repeated ones", () => {
+      const chunk = chunkOf(
+        [
+          "- [ ] Repeated task",
+          "## 10:00:00",
+          "- [x] Done",
+          "- [ ] New task",
+          "thinking about holidays",
+        ].join("\n"),
+        { overlapLines: 1 }
+      );
+
+      const claim = ruleExtractor.claim(chunk, anchor);
+
+      expect(claim.claimedLines).toEqual([0, 2, 3]);
+      expect(claim.tasks.map((task) => task.title)).toEqual(["New task"]);
+    });
+  });
+
+  describe("applyLineTokens", () => {
+    it("should take due dates and tags from the task's source lines", () => {
+      const chunk = chunkOf(
+        "need to renew passport due:2025-09-01 #admin\nthinking about holidays",
+        {
+          startLine: 5,
+        }
+      );
+
+      const tasks = ruleExtractor.applyLineTokens(
+        [
+          {
+            title: "Renew passport",
+            due: "2025-08-16",
+            tags: ["personal"],
+            startLine: 5,
+            endLine: 5,
+          },
+          { title: "Plan holidays", due: null, tags: null, startLine: 6, endLine: 6 },
+          { title: "Unlocated", due: null, tags: null },
+        ],
+        chunk,
+        anchor
+      );
+
+      expect(tasks).toEqual([
+        {
+          title: "Renew passport",
+          due: "2025-09-01",
+          tags: ["personal", "admin"],
+          startLine: 5,
+          endLine: 5,
+        },
+        { title: "Plan holidays", due: null, tags: null, startLine: 6, endLine: 6 },
+        { title: "Unlocated", due: null, tags: null },
+      ]);
+    });
+
+    it("should let field tokens replace the model's fields", () => {
+      const [task] = ruleExtractor.applyLineTokens(
+        [
+          {
+            title: "Send the deck",
+            due: null,
+            tags: null,
+            priority: "medium",
+            assignee: "Sarah",
+            startLine: 1,
+            endLine: 1,
+          },
+        ],
+        chunkOf("ask Sarah to send the deck @Bob !high"),
+        anchor
+      );
+
+      expect(task).toMatchObject({ priority: "high", assignee: "Bob", tags: null });
+    });
+
+    it("should keep the model's time when the due token names the same day", () => {
+      const chunk = chunkOf("call the bank at 3pm due:18/08\nrenew passport due:19/08");
+      const located = (due: string, line: number) => ({
+        title: "Task",
+        due,
+        tags: null,
+        startLine: line,
+        endLine: line,
+      });
+
+      const tasks = ruleExtractor.applyLineTokens(
+        [located("2025-08-18T15:00", 1), located("2025-08-18T15:00", 2)],
+        chunk,
+        anchor
+      );
+
+      expect(tasks.map((task) => task.due)).toEqual(["2025-08-18T15:00", "2025-08-19"]);
+    });
+  });
+});
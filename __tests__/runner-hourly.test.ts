@@ -0,0 +1,75 @@
+import Command from "../src/runner-hourly";
+import { getPreferenceValues, LaunchProps } from "@raycast/api";
+import { fileIngester } from "../src/ingest";
+import { notionClient } from "../src/notion";
+import { syncPipeline } from "../src/pipeline";
+import * as fs from "fs";
+import * as path from "path";
+
+jest.mock("../src/notion");
+jest.mock("../src/pipeline");
+
+describe("hourly runner", () => {
+  const testDir = "/tmp/test-runner-hourly";
+  const routesFile = path.join(testDir, "routes.json");
+  const mockNotion = notionClient as jest.Mocked<typeof notionClient>;
+  const mockPipeline = syncPipeline as jest.Mocked<typeof syncPipeline>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(
+      routesFile,
+      JSON.stringify([{ id: "work", inboxDir: "/inbox/work", notionDbId: "work-db" }])
+    );
+
+    jest.mocked(getPreferenceValues).mockReturnValue({
+      inboxDir: "/inbox/personal",
+      notionToken: "token",
+      notionDbId: "personal-db",
+      routesFile,
+      extractionMode: "rules",
+      enableScheduled: true,
+    });
+    jest.spyOn(fileIngester, "healthCheck").mockResolvedValue({ healthy: true, message: "OK" });
+    mockPipeline.run.mockResolvedValue({
+      processedChunks: 0,
+      failedChunks: 0,
+      extractedTasks: 0,
+      syncedTasks: 0,
+      failedTasks: 0,
+      committedFiles: 0,
+      retryFiles: [],
+      archivedFiles: 0,
+      renewedTasks: 0,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should sync the routes that pass their health checks and skip the others", async () => {
+    mockNotion.healthCheck.mockImplementation(async (_, databaseId) =>
+      databaseId === "work-db"
+        ? { healthy: false, message: "Database not found" }
+        : { healthy: true, message: "OK" }
+    );
+
+    await Command({} as LaunchProps);
+
+    expect(mockPipeline.run).toHaveBeenCalledTimes(1);
+    expect(mockPipeline.run).toHaveBeenCalledWith(
+      expect.objectContaining({ inboxDir: "/inbox/personal", notionDbId: "personal-db" }),
+      expect.any(Function)
+    );
+  });
+
+  it("should sync nothing when every route fails its health checks", async () => {
+    mockNotion.healthCheck.mockResolvedValue({ healthy: false, message: "Unauthorized" });
+
+    await Command({} as LaunchProps);
+
+    expect(mockPipeline.run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import Command from "../src/runner-manual";
+import { getPreferenceValues, LaunchProps, showToast } from "@raycast/api";
+import { fileIngester } from "../src/ingest";
+import { notionClient } from "../src/notion";
+import { syncPipeline } from "../src/pipeline";
+import * as fs from "fs";
+import * as path from "path";
+
+jest.mock("../src/notion");
+jest.mock("../src/pipeline");
+
+describe("manual runner", () => {
+  const testDir = "/tmp/test-runner-manual";
+  const routesFile = path.join(testDir, "routes.json");
+  const mockNotion = notionClient as jest.Mocked<typeof notionClient>;
+  const mockPipeline = syncPipeline as jest.Mocked<typeof syncPipeline>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(
+      routesFile,
+      JSON.stringify([{ id: "work", inboxDir: "/inbox/work", notionDbId: "work-db" }])
+    );
+
+    jest.mocked(getPreferenceValues).mockReturnValue({
+      inboxDir: "/inbox/personal",
+      notionToken: "token",
+      notionDbId: "personal-db",
+      routesFile,
+      extractionMode: "rules",
+    });
+    jest
+      .spyOn(fileIngester, "healthCheck")
+      .mockImplementation(async (dirPath) =>
+        dirPath === "/inbox/work"
+          ? { healthy: false, message: "Directory does not exist" }
+          : { healthy: true, message: "OK" }
+      );
+    mockNotion.healthCheck.mockResolvedValue({ healthy: true, message: "OK" });
+    mockPipeline.run.mockResolvedValue({
+      processedChunks: 1,
+      failedChunks: 0,
+      extractedTasks: 1,
+      syncedTasks: 1,
+      failedTasks: 0,
+      committedFiles: 1,
+      retryFiles: [],
+      archivedFiles: 0,
+      renewedTasks: 0,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should sync the healthy routes and report the skipped ones", async () => {
+    await Command({} as LaunchProps);
+
+    expect(mockPipeline.run).toHaveBeenCalledTimes(1);
+    expect(mockPipeline.run).toHaveBeenCalledWith(
+      expect.objectContaining({ inboxDir: "/inbox/personal" }),
+      expect.any(Function)
+    );
+    expect(showToast).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        title: "Sync partially failed",
+        message: "✅ 1 synced, ⚠️ work failed",
+      })
+    );
+  });
+});
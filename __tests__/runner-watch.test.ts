@@ -0,0 +1,71 @@
+import Command from "../src/runner-watch";
+import { getPreferenceValues } from "@raycast/api";
+import { syncPipeline } from "../src/pipeline";
+import { InboxWatcher, requestWatchStop, WatchOptions } from "../src/watcher";
+import { StateManager } from "../src/state";
+import * as fs from "fs";
+import * as path from "path";
+
+jest.mock("../src/pipeline");
+jest.mock("../src/watcher");
+
+describe("watch runner", () => {
+  const stateFile = path.join("/tmp/test-raycast-support", "state.json");
+  const mockPipeline = syncPipeline as jest.Mocked<typeof syncPipeline>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.rmSync(stateFile, { force: true });
+
+    jest.mocked(getPreferenceValues).mockReturnValue({
+      inboxDir: "/inbox/personal",
+      notionToken: "token",
+      notionDbId: "personal-db",
+      extractionMode: "rules",
+    });
+    jest.mocked(requestWatchStop).mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateFile, { force: true });
+  });
+
+  it("should keep what other commands saved between two watch runs", async () => {
+    // Each run marks one task processed and saves, as the pipeline does
+    mockPipeline.run.mockImplementation(async (settings) => {
+      const state = settings.ingestOptions.state!;
+      state.markTaskProcessed(`watch-${settings.ingestOptions.files?.[0]}`);
+      state.updateLastRun();
+      return {
+        processedChunks: 0,
+        failedChunks: 0,
+        extractedTasks: 0,
+        syncedTasks: 1,
+        failedTasks: 0,
+        committedFiles: 0,
+        retryFiles: [],
+        archivedFiles: 0,
+        renewedTasks: 0,
+      };
+    });
+
+    const running = Command();
+    await new Promise((resolve) => setImmediate(resolve));
+    const options = jest.mocked(InboxWatcher).mock.calls[0][0] as WatchOptions;
+
+    await options.onFiles(["/inbox/personal/first.md"]);
+
+    const hourly = new StateManager();
+    hourly.markTaskProcessed("hourly-task");
+    hourly.save();
+
+    await options.onFiles(["/inbox/personal/second.md"]);
+    options.onStopRequested?.();
+    await running;
+
+    const saved = new StateManager();
+    expect(saved.isTaskProcessed("watch-/inbox/personal/first.md")).toBe(true);
+    expect(saved.isTaskProcessed("hourly-task")).toBe(true);
+    expect(saved.isTaskProcessed("watch-/inbox/personal/second.md")).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+import { MAX_TASKS, validateFields, validateTaskPayload } from "../src/schema";
+import { DateAnchor } from "../src/dates";
+
+describe("schema", () => {
+  const anchor: DateAnchor = { date: "2025-08-15", time: null };
+
+  describe("validateTaskPayload", () => {
+    it("should accept well-formed tasks", () => {
+      const result = validateTaskPayload(
+        {
+          tasks: [
+            { title: "Buy milk", due: "2025-08-16", tags: ["errands"], source: "- [ ] Buy milk" },
+            { title: "Call John", due: "2025-08-16T14:00", tags: null },
+            { title: "Send invoice", due: "16/08" },
+            { title: "Dentist", due: "friday", tags: null, notes: "ignored" },
+          ],
+        },
+        anchor
+      );
+
+      expect(result.issues).toEqual([]);
+      expect(result.rejected).toBe(0);
+      expect(result.tasks).toEqual([
+        { title: "Buy milk", due: "2025-08-16", tags: ["errands"], source: "- [ ] Buy milk" },
+        { title: "Call John", due: "2025-08-16T14:00", tags: null },
+        { title: "Send invoice", due: "16/08", tags: null },
+        { title: "Dentist", due: "friday", tags: null },
+      ]);
+    });
+
+    it("should keep valid items and report every problem with its path", () => {
+      const result = validateTaskPayload(
+        {
+          tasks: [
+            { title: "Buy milk", due: null, tags: null },
+            { title: "  ", due: "soon", tags: "work" },
+            { title: "x".repeat(201), due: "2025-02-30", tags: [1, "a,b"] },
+            "Call John",
+          ],
+        },
+        anchor
+      );
+
+      expect(result.tasks.map((task) => task.title)).toEqual(["Buy milk"]);
+      expect(result.rejected).toBe(3);
+      expect(result.issues).toEqual([
+        { path: "tasks[1].title", message: "must not be empty" },
+        {
+          path: "tasks[1].due",
+          message: '"soon" is not a date; use "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM"',
+        },
+        { path: "tasks[1].tags", message: 'must be a list of strings (got "work")' },
+        { path: "tasks[2].title", message: "must be at most 200 characters (got 201)" },
+        {
+          path: "tasks[2].due",
+          message: '"2025-02-30" is not a date; use "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM"',
+        },
+        { path: "tasks[2].tags[0]", message: "must be a string (got a number)" },
+        { path: "tasks[2].tags[1]", message: 'must not contain commas (got "a,b")' },
+        { path: "tasks[3]", message: 'must be an object (got "Call John")' },
+      ]);
+    });
+
+    it("should check priority, assignee, project and estimate", () => {
+      const result = validateTaskPayload(
+        {
+          tasks: [
+            {
+              title: "Send the deck",
+              priority: "urgent",
+              assignee: "Bob",
+              project: "Apollo",
+              estimateMinutes: 30,
+            },
+            { title: "Plan", priority: null, assignee: null, project: null, estimateMinutes: null },
+            { title: "Call", priority: "High", assignee: "", estimateMinutes: 7.5 },
+            { title: "Write", project: "x".repeat(101), estimateMinutes: "30" },
+          ],
+        },
+        anchor
+      );
+
+      expect(result.tasks).toEqual([
+        {
+          title: "Send the deck",
+          due: null,
+          tags: null,
+          priority: "urgent",
+          assignee: "Bob",
+          project: "Apollo",
+          estimateMinutes: 30,
+        },
+        { title: "Plan", due: null, tags: null },
+      ]);
+      expect(result.issues).toEqual([
+        {
+          path: "tasks[2].priority",
+          message: 'must be one of "urgent", "high", "medium", "low" (got "High")',
+        },
+        { path: "tasks[2].assignee", message: "must not be empty" },
+        { path: "tasks[2].estimateMinutes", message: "must be a whole number (got 7.5)" },
+        { path: "tasks[3].project", message: "must be at most 100 characters (got 101)" },
+        { path: "tasks[3].estimateMinutes", message: 'must be a number (got "30")' },
+      ]);
+    });
+
+    it("should check recurrence rules", () => {
+      const result = validateTaskPayload(
+        {
+          tasks: [
+            { title: "Water plants", due: "2025-08-17", recurrence: "FREQ=WEEKLY;BYDAY=SU" },
+            { title: "Pay rent", recurrence: "every month" },
+          ],
+        },
+        anchor
+      );
+
+      expect(result.tasks).toEqual([
+        {
+          title: "Water plants",
+          due: "2025-08-17",
+          tags: null,
+          recurrence: "FREQ=WEEKLY;BYDAY=SU",
+        },
+      ]);
+      expect(result.issues).toEqual([
+        {
+          path: "tasks[1].recurrence",
+          message:
+            '"every month" is not a supported recurrence rule; use RRULE syntax such as "FREQ=WEEKLY;BYDAY=SU"',
+        },
+      ]);
+    });
+
+    it("should require a title", () => {
+      expect(validateTaskPayload({ tasks: [{ due: null }] }, anchor).issues).toEqual([
+        { path: "tasks[0].title", message: "is required" },
+      ]);
+    });
+
+    it("should reject payloads without a task list", () => {
+      expect(validateTaskPayload([], anchor).issues).toEqual([
+        { path: "$", message: 'must be an object with a "tasks" list (got a list)' },
+      ]);
+      expect(validateTaskPayload({ todos: [] }, anchor).issues).toEqual([
+        { path: "tasks", message: "must be a list (got nothing)" },
+      ]);
+    });
+
+    it("should cap the number of tasks", () => {
+      const tasks = Array.from({ length: MAX_TASKS + 2 }, (_, i) => ({ title: `Task ${i}` }));
+
+      const result = validateTaskPayload({ tasks }, anchor);
+
+      expect(result.tasks).toHaveLength(MAX_TASKS);
+      expect(result.rejected).toBe(2);
+      expect(result.issues).toEqual([
+        { path: "tasks", message: `must have at most ${MAX_TASKS} items (got ${MAX_TASKS + 2})` },
+      ]);
+    });
+  });
+
+  describe("validateFields", () => {
+    it("should check enum values and non-nullable fields", () => {
+      const schema = {
+        status: { type: "string" as const, enum: ["open", "done"] },
+        owner: { type: "string" as const },
+      };
+
+      expect(validateFields({ status: "later", owner: null }, schema, "task", anchor)).toEqual([
+        { path: "task.status", message: 'must be one of "open", "done" (got "later")' },
+        { path: "task.owner", message: "must not be null" },
+      ]);
+    });
+
+    it("should check number ranges", () => {
+      const schema = { minutes: { type: "number" as const, min: 1, max: 60 } };
+
+      expect(validateFields({ minutes: 0 }, schema, "task", anchor)).toEqual([
+        { path: "task.minutes", message: "must be at least 1 (got 0)" },
+      ]);
+      expect(validateFields({ minutes: 61 }, schema, "task", anchor)).toEqual([
+        { path: "task.minutes", message: "must be at most 60 (got 61)" },
+      ]);
+      expect(validateFields({ minutes: 1.5 }, schema, "task", anchor)).toEqual([]);
+    });
+  });
+});
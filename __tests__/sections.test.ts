@@ -0,0 +1,54 @@
+import { digestSections, splitSections } from "../src/sections";
+
+describe("sections", () => {
+  describe("splitSections", () => {
+    it("should split content on level two headings", () => {
+      const content = "# 2025-08-15\n\n## 09:00:00\n- [ ] Buy milk\n\n## 14:30:00\n- call John";
+
+      const sections = splitSections(content);
+
+      expect(sections.map((s) => s.key)).toEqual(["", "09:00:00", "14:30:00"]);
+      expect(sections[1]).toEqual({
+        key: "09:00:00",
+        heading: "09:00:00",
+        time: "09:00:00",
+        startLine: 3,
+        text: "## 09:00:00\n- [ ] Buy milk\n",
+      });
+      expect(sections[2].startLine).toBe(6);
+    });
+
+    it("should only set a time for timestamp headings", () => {
+      const sections = splitSections("## 9:05\n- a\n## Notes\n- b");
+
+      expect(sections.map((s) => s.time)).toEqual(["09:05:00", null]);
+    });
+
+    it("should keep deeper headings inside their section", () => {
+      const sections = splitSections("## Monday\n### Work\n- task");
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0].text).toContain("### Work");
+    });
+
+    it("should give repeated headings unique keys", () => {
+      const sections = splitSections("## Notes\none\n## Notes\ntwo");
+
+      expect(sections.map((s) => s.key)).toEqual(["Notes", "Notes#1"]);
+    });
+
+    it("should drop an empty preamble", () => {
+      expect(splitSections("\n## 09:00:00\n- a")[0].key).toBe("09:00:00");
+    });
+  });
+
+  describe("digestSections", () => {
+    it("should only change the digest of the edited section", () => {
+      const before = digestSections("## 09:00:00\n- a\n## 10:00:00\n- b");
+      const after = digestSections("## 09:00:00\n- a\n## 10:00:00\n- b changed");
+
+      expect(after["09:00:00"]).toBe(before["09:00:00"]);
+      expect(after["10:00:00"]).not.toBe(before["10:00:00"]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  chunkLineNumber,
+  chunkLineText,
+  entryHeadingAt,
+  formatSpan,
+  locateSource,
+} from "../src/spans";
+import { FileChunk } from "../src/ingest";
+
+describe("spans", () => {
+  const chunk: FileChunk = {
+    filePath: "/notes/2025-08-15.md",
+    content: [
+      "## 09:00:00",
+      "- [ ] Buy milk",
+      "- call John about the",
+      "  quarterly budget review",
+      "",
+      "TODO: send invoice to Acme due:16/08",
+    ].join("\n"),
+    chunkIndex: 0,
+    totalChunks: 1,
+    startLine: 10,
+  };
+
+  describe("locateSource", () => {
+    it("should find a verbatim quote", () => {
+      expect(locateSource(chunk, "- [ ] Buy milk")).toEqual({ startLine: 11, endLine: 11 });
+    });
+
+    it("should ignore markdown markers and case", () => {
+      expect(locateSource(chunk, "todo: Send invoice to ACME due:16/08")).toEqual({
+        startLine: 15,
+        endLine: 15,
+      });
+    });
+
+    it("should match quotes spanning several lines", () => {
+      expect(locateSource(chunk, "call John about the\nquarterly budget review")).toEqual({
+        startLine: 12,
+        endLine: 13,
+      });
+    });
+
+    it("should fall back to the most similar line", () => {
+      expect(locateSource(chunk, "Send the invoice to Acme")).toEqual({
+        startLine: 15,
+        endLine: 15,
+      });
+    });
+
+    it("should return null when nothing is close", () => {
+      expect(locateSource(chunk, "Book flights to Lisbon")).toBeNull();
+      expect(locateSource(chunk, "")).toBeNull();
+    });
+
+    it("should follow the line map of non-contiguous chunks", () => {
+      const mapped: FileChunk = {
+        ...chunk,
+        content: "## 09:00:00\n- [ ] Buy milk\n## 11:00:00\n- [ ] Call John",
+        lineMap: [4, 5, 8, 9],
+      };
+
+      expect(locateSource(mapped, "Call John")).toEqual({ startLine: 9, endLine: 9 });
+      expect(chunkLineNumber(mapped, 1)).toBe(5);
+    });
+  });
+
+  describe("chunkLineText", () => {
+    it("should give the text of a file line the chunk holds", () => {
+      expect(chunkLineText(chunk, 11)).toBe("- [ ] Buy milk");
+      expect(chunkLineText({ ...chunk, lineMap: [4, 5, 8, 9, 10, 11] }, 8)).toBe(
+        "- call John about the"
+      );
+      expect(chunkLineText(chunk, 40)).toBeNull();
+    });
+  });
+
+  describe("entryHeadingAt", () => {
+    it("should find the entry a line falls in", () => {
+      expect(entryHeadingAt(chunk, 15)).toBe("## 09:00:00");
+      expect(entryHeadingAt({ ...chunk, startLine: 1, content: "- [ ] Buy milk" }, 1)).toBeNull();
+    });
+
+    it("should fall back to the entry the chunk continues", () => {
+      const continued = {
+        ...chunk,
+        content: "- [ ] Walk",
+        headingContext: ["# 2025-08-15", "## 14:00:00", "### Errands"],
+      };
+      expect(entryHeadingAt(continued, 10)).toBe("## 14:00:00");
+    });
+  });
+
+  describe("formatSpan", () => {
+    it("should format single lines and ranges", () => {
+      expect(formatSpan("/notes/2025-08-15.md", { startLine: 6, endLine: 6 })).toBe(
+        "2025-08-15.md:6"
+      );
+      expect(formatSpan("/notes/2025-08-15.md", { startLine: 6, endLine: 8 })).toBe(
+        "2025-08-15.md:6-8"
+      );
+    });
+  });
+});
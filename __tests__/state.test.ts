@@ -1,5 +1,6 @@
-import { stateManager } from "../src/state";
+import { digestFile, getRouteStateManager, stateManager } from "../src/state";
 import { ExtractedTask } from "../src/state";
+import { digestSections } from "../src/sections";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -37,8 +38,8 @@ describe("StateManager", () => {
         tags: ["shopping"],
       };
 
-      const hash1 = stateManager.generateTaskHash(task, "/test/file.md", 0);
-      const hash2 = stateManager.generateTaskHash(task, "/test/file.md", 0);
+      const hash1 = stateManager.generateTaskHash(task, "/test/file.md", null);
+      const hash2 = stateManager.generateTaskHash(task, "/test/file.md", null);
       
       expect(hash1).toBe(hash2);
       expect(hash1).toHaveLength(16);
@@ -57,28 +58,44 @@ describe("StateManager", () => {
         tags: null,
       };
 
-      const hash1 = stateManager.generateTaskHash(task1, "/test/file.md", 0);
-      const hash2 = stateManager.generateTaskHash(task2, "/test/file.md", 0);
+      const hash1 = stateManager.generateTaskHash(task1, "/test/file.md", null);
+      const hash2 = stateManager.generateTaskHash(task2, "/test/file.md", null);
       
       expect(hash1).not.toBe(hash2);
     });
 
-    it("should generate different hashes for same task in different locations", () => {
+    it("should generate different hashes for same task in different files or entries", () => {
       const task: ExtractedTask = {
         title: "Buy milk",
         due: null,
         tags: null,
       };
 
-      const hash1 = stateManager.generateTaskHash(task, "/test/file1.md", 0);
-      const hash2 = stateManager.generateTaskHash(task, "/test/file2.md", 0);
-      const hash3 = stateManager.generateTaskHash(task, "/test/file1.md", 1);
+      const hash1 = stateManager.generateTaskHash(task, "/test/file1.md", null);
+      const hash2 = stateManager.generateTaskHash(task, "/test/file2.md", null);
+      const hash3 = stateManager.generateTaskHash(task, "/test/file1.md", "## 09:00:00");
       
       expect(hash1).not.toBe(hash2);
       expect(hash1).not.toBe(hash3);
       expect(hash2).not.toBe(hash3);
     });
 
+    it("should identify located tasks by their line rather than their title", () => {
+      const rule: ExtractedTask = { title: "buy milk", due: null, tags: null };
+      const llm: ExtractedTask = { title: "Buy milk from the store", due: null, tags: null };
+      const source = { line: "- [ ] buy milk", occurrence: 0 };
+
+      expect(stateManager.generateTaskHash(rule, "/test/file.md", "## 09:00:00", source)).toBe(
+        stateManager.generateTaskHash(llm, "/test/file.md", "## 09:00:00", source)
+      );
+      expect(
+        stateManager.generateTaskHash(llm, "/test/file.md", "## 09:00:00", {
+          ...source,
+          occurrence: 1,
+        })
+      ).not.toBe(stateManager.generateTaskHash(llm, "/test/file.md", "## 09:00:00", source));
+    });
+
     it("should be case insensitive for task title", () => {
       const task1: ExtractedTask = {
         title: "Buy Milk",
@@ -92,8 +109,8 @@ describe("StateManager", () => {
         tags: null,
       };
 
-      const hash1 = stateManager.generateTaskHash(task1, "/test/file.md", 0);
-      const hash2 = stateManager.generateTaskHash(task2, "/test/file.md", 0);
+      const hash1 = stateManager.generateTaskHash(task1, "/test/file.md", null);
+      const hash2 = stateManager.generateTaskHash(task2, "/test/file.md", null);
       
       expect(hash1).toBe(hash2);
     });
@@ -111,8 +128,8 @@ describe("StateManager", () => {
         tags: null,
       };
 
-      const hash1 = stateManager.generateTaskHash(task1, "/test/file.md", 0);
-      const hash2 = stateManager.generateTaskHash(task2, "/test/file.md", 0);
+      const hash1 = stateManager.generateTaskHash(task1, "/test/file.md", null);
+      const hash2 = stateManager.generateTaskHash(task2, "/test/file.md", null);
       
       expect(hash1).toBe(hash2);
     });
@@ -159,6 +176,40 @@ describe("StateManager", () => {
     });
   });
 
+  describe("recurring tasks", () => {
+    const task = {
+      title: "Water plants",
+      due: "2025-08-17",
+      tags: null,
+      recurrence: "FREQ=WEEKLY;BYDAY=SU",
+      hash: "series-hash",
+      filePath: "/test/file.md",
+      startLine: 1,
+      endLine: 1,
+      extractedAt: "2025-08-15T09:00:00.000Z",
+    };
+
+    it("should persist the instances being followed", () => {
+      stateManager.trackRecurringTask("page-1", "db", task);
+      stateManager.trackRecurringTask("page-2", "db", { ...task, title: "Pay rent" });
+      stateManager.untrackRecurringTask("page-2");
+      stateManager.save();
+
+      stateManager.reset();
+      expect(stateManager.getRecurringTasks()).toEqual([
+        { pageId: "page-1", databaseId: "db", task },
+      ]);
+    });
+
+    it("should give each occurrence its own hash", () => {
+      const first = stateManager.generateOccurrenceHash("series-hash", "2025-08-24");
+
+      expect(stateManager.generateOccurrenceHash("series-hash", "2025-08-24")).toBe(first);
+      expect(stateManager.generateOccurrenceHash("series-hash", "2025-08-31")).not.toBe(first);
+      expect(first).not.toBe("series-hash");
+    });
+  });
+
   describe("file modification tracking", () => {
     const testFile = path.join(testSupportPath, "test.md");
 
@@ -168,6 +219,12 @@ describe("StateManager", () => {
       fs.writeFileSync(testFile, "test content");
     });
 
+    // The checkpoint of the file as the ingester read it
+    const readCheckpoint = () => ({
+      mtime: fs.statSync(testFile).mtimeMs,
+      digest: digestFile(fs.readFileSync(testFile, "utf8")),
+    });
+
     it("should detect new files as modified", () => {
       expect(stateManager.isFileModified(testFile)).toBe(true);
     });
@@ -196,6 +253,137 @@ describe("StateManager", () => {
       expect(stateManager.isFileModified(missingFile)).toBe(true);
       expect(() => stateManager.updateFileModifiedTime(missingFile)).not.toThrow();
     });
+
+    it("should ignore mtime changes when content is unchanged", () => {
+      stateManager.updateFileModifiedTime(testFile);
+
+      const future = new Date(Date.now() + 60_000);
+      fs.utimesSync(testFile, future, future);
+
+      expect(stateManager.isFileModified(testFile)).toBe(false);
+    });
+
+    it("should detect same-size content changes once mtime moves", () => {
+      stateManager.updateFileModifiedTime(testFile);
+
+      fs.writeFileSync(testFile, "TEST content");
+      const future = new Date(Date.now() + 60_000);
+      fs.utimesSync(testFile, future, future);
+
+      expect(stateManager.isFileModified(testFile)).toBe(true);
+    });
+
+    it("should persist content digests", () => {
+      stateManager.updateFileModifiedTime(testFile);
+      stateManager.save();
+
+      const savedState = JSON.parse(fs.readFileSync(testStateFile, "utf8"));
+      expect(savedState.version).toBe(2);
+      expect(savedState.fileDigests[testFile].hash).toHaveLength(16);
+      expect(savedState.fileDigests[testFile].size).toBe("test content".length);
+      expect(savedState.fileDigests[testFile].sections).toBeUndefined();
+    });
+
+    it("should record per-section digests when given", () => {
+      const content = "# 2025-08-15\n## 09:00:00\n- one\n## 10:00:00\n- two";
+      fs.writeFileSync(testFile, content);
+
+      stateManager.updateFileModifiedTime(testFile, digestSections(content));
+
+      const sections = stateManager.getSectionDigests(testFile);
+      expect(Object.keys(sections!)).toEqual(["", "09:00:00", "10:00:00"]);
+    });
+
+    it("should only mark staged files processed once committed", () => {
+      stateManager.stageFileCheckpoint(testFile, readCheckpoint());
+
+      expect(stateManager.getStagedFiles()).toEqual([testFile]);
+      expect(stateManager.isFileModified(testFile)).toBe(true);
+
+      stateManager.commitFileCheckpoint(testFile);
+
+      expect(stateManager.getStagedFiles()).toEqual([]);
+      expect(stateManager.isFileModified(testFile)).toBe(false);
+    });
+
+    it("should commit the content as it was when staged", () => {
+      stateManager.stageFileCheckpoint(testFile, readCheckpoint());
+      fs.writeFileSync(testFile, "edited while syncing");
+      stateManager.commitFileCheckpoint(testFile);
+
+      expect(stateManager.isFileModified(testFile)).toBe(true);
+    });
+
+    it("should commit the content as it was read, not as it was when staged", () => {
+      const checkpoint = readCheckpoint();
+      fs.appendFileSync(testFile, "\n- [ ] added after the read");
+      stateManager.stageFileCheckpoint(testFile, checkpoint);
+      stateManager.commitFileCheckpoint(testFile);
+
+      expect(stateManager.isFileModified(testFile)).toBe(true);
+    });
+
+    it("should leave discarded files to be processed again", () => {
+      stateManager.stageFileCheckpoint(testFile, readCheckpoint());
+      stateManager.discardFileCheckpoint(testFile);
+      stateManager.commitFileCheckpoint(testFile);
+
+      expect(stateManager.getStagedFiles()).toEqual([]);
+      expect(stateManager.isFileModified(testFile)).toBe(true);
+    });
+
+    it("should carry state and task hashes across renames", () => {
+      const task = { title: "Buy milk", due: null, tags: null };
+      const movedFile = testFile.replace(/\.md$/, "-moved.md");
+      stateManager.updateFileModifiedTime(testFile);
+      const hash = stateManager.generateTaskHash(task, testFile, null);
+
+      fs.renameSync(testFile, movedFile);
+      stateManager.renameFile(testFile, movedFile);
+
+      expect(stateManager.isFileModified(movedFile)).toBe(false);
+      expect(stateManager.generateTaskHash(task, movedFile, null)).toBe(hash);
+
+      fs.renameSync(movedFile, testFile);
+      stateManager.renameFile(movedFile, testFile);
+
+      expect(stateManager.generateTaskHash(task, testFile, null)).toBe(hash);
+    });
+
+    it("should migrate version 1 state files to content digests", () => {
+      const mtime = fs.statSync(testFile).mtimeMs;
+      fs.writeFileSync(
+        testStateFile,
+        JSON.stringify({ lastRun: null, processedTasks: [], lastModifiedTimes: { [testFile]: mtime } })
+      );
+
+      stateManager.reset();
+
+      const future = new Date(Date.now() + 60_000);
+      fs.utimesSync(testFile, future, future);
+
+      expect(stateManager.isFileModified(testFile)).toBe(false);
+
+      const savedState = JSON.parse(fs.readFileSync(testStateFile, "utf8"));
+      expect(savedState.version).toBe(2);
+      expect(savedState.fileDigests[testFile]).toBeDefined();
+    });
+  });
+
+  describe("route state", () => {
+    it("should keep each route in its own state file", () => {
+      const workState = getRouteStateManager("work");
+      workState.reset();
+      workState.markTaskProcessed("work-task");
+      workState.save();
+
+      expect(getRouteStateManager("work")).toBe(workState);
+      expect(getRouteStateManager("default")).toBe(stateManager);
+      expect(stateManager.isTaskProcessed("work-task")).toBe(false);
+
+      const saved = JSON.parse(fs.readFileSync(path.join(testSupportPath, "state-work.json"), "utf8"));
+      expect(saved.processedTasks).toEqual(["work-task"]);
+    });
   });
 
   describe("last run tracking", () => {
@@ -0,0 +1,45 @@
+import { estimateTokens, getChunkTokenBudget, getModelBudget } from "../src/tokens";
+
+describe("tokens", () => {
+  describe("estimateTokens", () => {
+    it("should estimate about four characters per token for English", () => {
+      expect(estimateTokens("Follow up with Alice about the timeline")).toBe(10);
+    });
+
+    it("should count CJK characters as roughly one token each", () => {
+      expect(estimateTokens("明日までに請求書を送る")).toBe(11);
+    });
+
+    it("should weigh emoji more heavily than plain text", () => {
+      expect(estimateTokens("🎉🎉🎉🎉")).toBe(8);
+      expect(estimateTokens("abcd")).toBe(1);
+    });
+
+    it("should return zero for empty text", () => {
+      expect(estimateTokens("")).toBe(0);
+    });
+  });
+
+  describe("getModelBudget", () => {
+    it("should resolve the longest matching model prefix", () => {
+      expect(getModelBudget("gpt-4o-mini-2024-07-18").contextWindow).toBe(128000);
+      expect(getModelBudget("gpt-4").contextWindow).toBe(8192);
+      expect(getModelBudget("gpt-4.1-mini").contextWindow).toBe(1047576);
+    });
+
+    it("should fall back to a conservative budget for unknown models", () => {
+      expect(getModelBudget("my-local-model")).toEqual({ contextWindow: 8192, outputBudget: 1500 });
+      expect(getModelBudget(undefined).outputBudget).toBe(1500);
+    });
+  });
+
+  describe("getChunkTokenBudget", () => {
+    it("should leave room for the prompt and the completion", () => {
+      expect(getChunkTokenBudget("gpt-4")).toBe(8192 - 1500 - 2500);
+    });
+
+    it("should cap the chunk size for large-context models", () => {
+      expect(getChunkTokenBudget("gpt-4.1")).toBe(32000);
+    });
+  });
+});
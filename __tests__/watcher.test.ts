@@ -0,0 +1,152 @@
+import { InboxWatcher, readLockOwner, requestWatchStop } from "../src/watcher";
+import * as fs from "fs";
+import * as path from "path";
+
+describe("InboxWatcher", () => {
+  const testDir = "/tmp/test-brain-dump-watch";
+  const lockPath = "/tmp/test-raycast-support/watch-test.lock";
+  let watcher: InboxWatcher | null = null;
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const createWatcher = (
+    onFiles: (files: string[]) => Promise<void>,
+    onStopRequested?: () => void
+  ) =>
+    new InboxWatcher({
+      dirPath: testDir,
+      quietPeriodMs: 150,
+      pollIntervalMs: 20,
+      heartbeatIntervalMs: 20,
+      usePolling: true,
+      lockPath,
+      onFiles,
+      onStopRequested,
+    });
+
+  beforeEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.rmSync(lockPath, { force: true });
+    fs.rmSync(`${lockPath}.stop`, { force: true });
+  });
+
+  afterEach(async () => {
+    await watcher?.stop();
+    watcher = null;
+    fs.rmSync(testDir, { recursive: true, force: true });
+    fs.rmSync(lockPath, { force: true });
+    fs.rmSync(`${lockPath}.stop`, { force: true });
+  });
+
+  it("should debounce a burst of saves into a single run", async () => {
+    const filePath = path.join(testDir, "2025-08-15.md");
+    fs.writeFileSync(filePath, "- [ ] Draft");
+
+    const onFiles = jest.fn().mockResolvedValue(undefined);
+    watcher = createWatcher(onFiles);
+    await watcher.start();
+    expect(watcher.mode).toBe("polling");
+
+    for (let i = 0; i < 4; i++) {
+      fs.writeFileSync(filePath, `- [ ] Draft ${"!".repeat(i + 1)}`);
+      await wait(40);
+    }
+    await wait(400);
+
+    expect(onFiles).toHaveBeenCalledTimes(1);
+    expect(onFiles).toHaveBeenCalledWith([filePath]);
+  });
+
+  it("should only report files matching the scan rules", async () => {
+    const onFiles = jest.fn().mockResolvedValue(undefined);
+    watcher = createWatcher(onFiles);
+    await watcher.start();
+
+    fs.writeFileSync(path.join(testDir, "notes.txt"), "ignored");
+    fs.mkdirSync(path.join(testDir, "templates"));
+    fs.writeFileSync(path.join(testDir, "templates", "daily.md"), "ignored");
+    fs.writeFileSync(path.join(testDir, "new.md"), "- [ ] Picked up");
+    await wait(400);
+
+    expect(onFiles).toHaveBeenCalledTimes(1);
+    expect(onFiles).toHaveBeenCalledWith([path.join(testDir, "new.md")]);
+  });
+
+  it("should not start a second watcher while one is running", async () => {
+    watcher = createWatcher(jest.fn());
+    await watcher.start();
+
+    expect(readLockOwner(lockPath, 20)).toMatchObject({ pid: process.pid });
+    await expect(createWatcher(jest.fn()).start()).rejects.toThrow(/already running/);
+  });
+
+  it.each([
+    ["a plain process ID", "999999999"],
+    ["a live process that isn't a watcher", String(process.pid)],
+    [
+      "a watcher that stopped refreshing it",
+      JSON.stringify({ kind: "brainpipe-watch", pid: process.pid, token: "old", heartbeat: 0 }),
+    ],
+  ])("should take over a stale lock holding %s", async (_, contents) => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, contents);
+
+    expect(readLockOwner(lockPath, 20)).toBeNull();
+    expect(requestWatchStop(lockPath, 20)).toBe(false);
+
+    watcher = createWatcher(jest.fn());
+    await watcher.start();
+
+    expect(JSON.parse(fs.readFileSync(lockPath, "utf8"))).toMatchObject({
+      kind: "brainpipe-watch",
+      pid: process.pid,
+    });
+  });
+
+  it("should stop when asked to through its lock", async () => {
+    watcher = createWatcher(jest.fn());
+    await watcher.start();
+
+    expect(requestWatchStop(lockPath, 20)).toBe(true);
+    await wait(100);
+
+    expect(watcher.mode).toBeNull();
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(fs.existsSync(`${lockPath}.stop`)).toBe(false);
+  });
+
+  it("should hand a stop request to its owner when asked to", async () => {
+    const onStopRequested = jest.fn();
+    watcher = createWatcher(jest.fn(), onStopRequested);
+    await watcher.start();
+
+    requestWatchStop(lockPath, 20);
+    await wait(100);
+
+    expect(onStopRequested).toHaveBeenCalledTimes(1);
+    expect(readLockOwner(lockPath, 20)).toMatchObject({ pid: process.pid });
+  });
+
+  it("should keep its lock fresh while running", async () => {
+    watcher = createWatcher(jest.fn());
+    await watcher.start();
+    await wait(200);
+
+    expect(readLockOwner(lockPath, 20)).not.toBeNull();
+  });
+
+  it("should release the lock and ignore changes after stopping", async () => {
+    const onFiles = jest.fn().mockResolvedValue(undefined);
+    watcher = createWatcher(onFiles);
+    await watcher.start();
+    await watcher.stop();
+
+    fs.writeFileSync(path.join(testDir, "late.md"), "- [ ] Too late");
+    await wait(300);
+
+    expect(onFiles).not.toHaveBeenCalled();
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(watcher.mode).toBeNull();
+  });
+});
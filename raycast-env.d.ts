@@ -10,9 +10,37 @@
 type ExtensionPreferences = {
   /** Brain Dump Directory - Directory path containing markdown brain dump files */
   "inboxDir": string,
-  /** OpenAI API Key - Your OpenAI API key for task extraction */
+  /** Include Patterns - Comma separated glob patterns (relative to the brain dump directory) of files to read */
+  "includeGlobs": string,
+  /** Exclude Patterns - Comma separated glob patterns of files and folders that must never be read */
+  "excludeGlobs": string,
+  /** Maximum Folder Depth - How many levels of nested folders to scan below the brain dump directory */
+  "maxScanDepth": string,
+  /** Chunk Overlap Lines - Number of lines repeated between consecutive chunks of large files (0 disables overlap) */
+  "chunkOverlapLines": string,
+  /** Watch Quiet Period - Seconds a file must go unchanged in watch mode before it is synced */
+  "watchQuietSeconds": string,
+  /** Archive After Days - Move fully synced files older than this many days into processed/YYYY/MM/ (leave empty to never archive) */
+  "archiveAfterDays": string,
+  /** Routes File - JSON file listing extra inbox directories, each synced to its own Notion database (optional) */
+  "routesFile": string,
+  /** Task Fields - Optional fields written to Notion, comma-separated: priority, assignee, project, estimate, recurrence (leave empty for none) */
+  "taskFields": string,
+  /** Extraction Mode - Extract tasks with an LLM, offline with rules that only find explicitly marked tasks, or with rules first and the LLM for the remaining prose */
+  "extractionMode": "llm" | "rules" | "hybrid",
+  /** Fall Back to Rules - When the LLM is unavailable, extract explicitly marked tasks with rules right away and retry the file with the LLM next sync */
+  "ruleFallback": boolean,
+  /** Date Order - How numeric dates such as 05/01 are read */
+  "dateOrder": "dmy" | "mdy",
+  /** LLM Provider - Service that extracts tasks from your brain dump */
+  "llmProvider": "openai" | "azure" | "anthropic" | "ollama" | "openai-compatible",
+  /** LLM Base URL - API base URL; required for Azure (the deployment URL) and OpenAI-compatible gateways, optional otherwise */
+  "llmBaseUrl": string,
+  /** LLM Auth Scheme - How the API key is sent to the provider */
+  "llmAuthScheme": "default" | "bearer" | "api-key" | "x-api-key" | "none",
+  /** LLM API Key - API key for the selected LLM provider (not needed for Ollama) */
   "openaiKey": string,
-  /** OpenAI Model - OpenAI model to use for task extraction */
+  /** LLM Model - Model to use for task extraction (the deployment name for Azure) */
   "openaiModel": string,
   /** Notion Integration Token - Your Notion integration token */
   "notionToken": string,
@@ -29,7 +57,16 @@ declare namespace Preferences {
   /** Preferences accessible in the `runner-hourly` command */
   export type RunnerHourly = ExtensionPreferences & {}
   /** Preferences accessible in the `runner-manual` command */
-  export type RunnerManual = ExtensionPreferences & {}
+  export type RunnerManual = ExtensionPreferences & {
+  /** Bypass Extraction Cache - Send every chunk to the LLM again instead of reusing what it extracted from identical content before; fresh results still replace the cached ones */
+  "bypassCache": boolean
+}
+  /** Preferences accessible in the `runner-watch` command */
+  export type RunnerWatch = ExtensionPreferences & {}
+  /** Preferences accessible in the `runner-undo-archive` command */
+  export type RunnerUndoArchive = ExtensionPreferences & {}
+  /** Preferences accessible in the `quick-capture` command */
+  export type QuickCapture = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
@@ -37,5 +74,11 @@ declare namespace Arguments {
   export type RunnerHourly = {}
   /** Arguments passed to the `runner-manual` command */
   export type RunnerManual = {}
+  /** Arguments passed to the `runner-watch` command */
+  export type RunnerWatch = {}
+  /** Arguments passed to the `runner-undo-archive` command */
+  export type RunnerUndoArchive = {}
+  /** Arguments passed to the `quick-capture` command */
+  export type QuickCapture = {}
 }
 
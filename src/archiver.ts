@@ -0,0 +1,201 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ARCHIVE_DIR, fileIngester, IngestOptions } from "./ingest";
+import { stateManager, StateManager } from "./state";
+import { dateFromFileName } from "./formats";
+import { logger } from "./log";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+export interface ArchiveEntry {
+  batch: string; // ISO timestamp shared by every file moved in the same run
+  from: string; // Paths relative to the inbox directory
+  to: string;
+  archivedAt: string;
+  restoredAt?: string;
+}
+
+interface ArchiveManifest {
+  version: number;
+  entries: ArchiveEntry[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the archive age preference; empty or non-positive values disable archiving
+ */
+export function parseArchiveAfterDays(value: string | undefined): number | undefined {
+  const days = parseFloat(value || "");
+  return Number.isFinite(days) && days > 0 ? days : undefined;
+}
+
+/**
+ * Moves fully processed files out of the inbox into `processed/YYYY/MM/`, keeping a manifest
+ * so every move can be undone
+ */
+class FileArchiver {
+  private manifestPath(inboxDir: string): string {
+    return path.join(inboxDir, ARCHIVE_DIR, "manifest.json");
+  }
+
+  private loadManifest(inboxDir: string): ArchiveManifest {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.manifestPath(inboxDir), "utf8"));
+      return { version: 1, entries: Array.isArray(parsed.entries) ? parsed.entries : [] };
+    } catch {
+      return { version: 1, entries: [] };
+    }
+  }
+
+  private saveManifest(inboxDir: string, manifest: ArchiveManifest): void {
+    const manifestPath = this.manifestPath(inboxDir);
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), "utf8");
+  }
+
+  /**
+   * Pick a free path in the archive folder, suffixing the name when it is taken
+   */
+  private targetPath(inboxDir: string, filePath: string, modifiedTime: number): string {
+    const date = dateFromFileName(filePath) || new Date(modifiedTime).toISOString().slice(0, 10);
+    const [year, month] = date.split("-");
+    const dir = path.join(inboxDir, ARCHIVE_DIR, year, month);
+    const ext = path.extname(filePath);
+    const base = path.basename(filePath, ext);
+
+    let target = path.join(dir, `${base}${ext}`);
+    for (let n = 1; fs.existsSync(target); n++) {
+      target = path.join(dir, `${base}-${n}${ext}`);
+    }
+    return target;
+  }
+
+  /**
+   * Move a file, falling back to copy and delete across devices
+   */
+  private moveFile(from: string, to: string, state: StateManager): void {
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    try {
+      fs.renameSync(from, to);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+      fs.copyFileSync(from, to);
+      fs.unlinkSync(from);
+    }
+    state.renameFile(from, to);
+  }
+
+  /**
+   * Archive every inbox file that is fully processed and was last modified more than
+   * `afterDays` days ago. Files with pending or failed tasks are never moved, since their
+   * content no longer matches the committed checkpoint.
+   */
+  async archiveProcessed(
+    inboxDir: string,
+    scanOptions: IngestOptions,
+    afterDays: number,
+    now = Date.now()
+  ): Promise<ArchiveEntry[]> {
+    const root = fileIngester.expandPath(inboxDir);
+    const state = scanOptions.state ?? stateManager;
+    const filePaths = await fileIngester.scanDirectory(root, scanOptions);
+    const batch = new Date(now).toISOString();
+    const archived: ArchiveEntry[] = [];
+
+    for (const filePath of filePaths) {
+      try {
+        const stats = fs.statSync(filePath);
+        if (now - stats.mtimeMs < afterDays * DAY_MS) continue;
+        if (state.isFileModified(filePath)) continue;
+
+        const target = this.targetPath(root, filePath, stats.mtimeMs);
+        this.moveFile(filePath, target, state);
+
+        archived.push({
+          batch,
+          from: path.relative(root, filePath),
+          to: path.relative(root, target),
+          archivedAt: batch,
+        });
+      } catch (error) {
+        logger.warn("Failed to archive file", { filePath, error: getErrorMessage(error) });
+      }
+    }
+
+    if (archived.length > 0) {
+      const manifest = this.loadManifest(root);
+      manifest.entries.push(...archived);
+      this.saveManifest(root, manifest);
+
+      logger.info("Archived processed files", {
+        count: archived.length,
+        files: archived.map((entry) => `${entry.from} → ${entry.to}`),
+      });
+    }
+
+    return archived;
+  }
+
+  /**
+   * Move the files of the most recent archive run back to where they came from. Files whose
+   * original location is occupied again are left in the archive.
+   */
+  undoLastArchive(
+    inboxDir: string,
+    state = stateManager
+  ): { restored: ArchiveEntry[]; skipped: ArchiveEntry[] } {
+    const root = fileIngester.expandPath(inboxDir);
+    const manifest = this.loadManifest(root);
+    const active = manifest.entries.filter((entry) => !entry.restoredAt);
+
+    if (active.length === 0) {
+      return { restored: [], skipped: [] };
+    }
+
+    const batch = active[active.length - 1].batch;
+    const restored: ArchiveEntry[] = [];
+    const skipped: ArchiveEntry[] = [];
+    const restoredAt = new Date().toISOString();
+
+    for (const entry of active.filter((candidate) => candidate.batch === batch)) {
+      const from = path.join(root, entry.to);
+      const to = path.join(root, entry.from);
+
+      try {
+        if (!fs.existsSync(from) || fs.existsSync(to)) {
+          skipped.push(entry);
+          continue;
+        }
+
+        this.moveFile(from, to, state);
+        entry.restoredAt = restoredAt;
+        restored.push(entry);
+      } catch (error) {
+        logger.warn("Failed to restore archived file", {
+          filePath: entry.to,
+          error: getErrorMessage(error),
+        });
+        skipped.push(entry);
+      }
+    }
+
+    this.saveManifest(root, manifest);
+    state.save();
+
+    logger.info("Undid archive run", {
+      batch,
+      restored: restored.length,
+      skipped: skipped.map((entry) => entry.to),
+    });
+
+    return { restored, skipped };
+  }
+}
+
+export const fileArchiver = new FileArchiver();
@@ -0,0 +1,166 @@
+import { environment } from "@raycast/api";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { ExtractedTask } from "./state";
+import { logger } from "./log";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+interface CacheEntry {
+  tasks: ExtractedTask[]; // Located on lines counted from the top of the chunk
+  size: number; // Serialised size in bytes, counted against the cache limit
+  lastUsed: string; // ISO timestamp, for least recently used eviction
+}
+
+interface CacheFile {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+// What an extraction depends on besides its prompts
+export interface CacheKeyParts {
+  promptVersion: string | number;
+  provider: string;
+  model: string;
+  baseUrl?: string;
+}
+
+const CACHE_VERSION = 2;
+
+// Entries used least recently are evicted beyond this size
+const MAX_CACHE_BYTES = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Extraction results by what produced them, so chunks sent to the LLM before are not sent
+ * again. Keys hash the prompts, which hold the chunk's content and the date it is read
+ * against, with the provider, model and prompt version. Loaded on first use; failures to
+ * read or write it only cost the LLM calls it would have saved.
+ */
+export class ExtractionCache {
+  private cacheFilePath: string;
+  private maxBytes: number;
+  private entries: Record<string, CacheEntry> | null = null;
+  private dirty = false;
+
+  constructor(fileName = "extraction-cache.json", maxBytes = MAX_CACHE_BYTES) {
+    this.cacheFilePath = path.join(environment.supportPath, fileName);
+    this.maxBytes = maxBytes;
+  }
+
+  private load(): Record<string, CacheEntry> {
+    if (this.entries) return this.entries;
+
+    this.entries = {};
+    try {
+      if (fs.existsSync(this.cacheFilePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.cacheFilePath, "utf8")) as CacheFile;
+        if (parsed.version === CACHE_VERSION && parsed.entries) {
+          this.entries = parsed.entries;
+        }
+      }
+    } catch (error) {
+      logger.warn("Failed to load extraction cache, starting empty", {
+        error: getErrorMessage(error),
+      });
+    }
+    return this.entries;
+  }
+
+  /**
+   * Cache key for an extraction made with these prompts and settings
+   */
+  key(parts: CacheKeyParts, systemPrompt: string, userPrompt: string): string {
+    const prompts = crypto
+      .createHash("sha256")
+      .update(systemPrompt)
+      .update("\0")
+      .update(userPrompt)
+      .digest("hex");
+    const keyInput = JSON.stringify({ ...parts, baseUrl: parts.baseUrl ?? null, prompts });
+    return crypto.createHash("sha256").update(keyInput).digest("hex");
+  }
+
+  /**
+   * The tasks stored under a key, or null when it hasn't been seen
+   */
+  get(key: string): ExtractedTask[] | null {
+    const entry = this.load()[key];
+    if (!entry) return null;
+
+    entry.lastUsed = new Date().toISOString();
+    this.dirty = true;
+    return entry.tasks;
+  }
+
+  /**
+   * Store the tasks extracted under a key, evicting the least recently used entries when the
+   * cache grows past its limit
+   */
+  set(key: string, tasks: ExtractedTask[]): void {
+    const entries = this.load();
+    entries[key] = {
+      tasks,
+      size: Buffer.byteLength(JSON.stringify(tasks), "utf8"),
+      lastUsed: new Date().toISOString(),
+    };
+    this.dirty = true;
+    this.evict();
+  }
+
+  private evict(): void {
+    const entries = this.load();
+    let total = Object.values(entries).reduce((sum, entry) => sum + entry.size, 0);
+    if (total <= this.maxBytes) return;
+
+    const oldestFirst = Object.entries(entries).sort(([, a], [, b]) =>
+      a.lastUsed.localeCompare(b.lastUsed)
+    );
+    let evicted = 0;
+    for (const [key, entry] of oldestFirst) {
+      if (total <= this.maxBytes) break;
+      delete entries[key];
+      total -= entry.size;
+      evicted++;
+    }
+
+    logger.debug("Evicted extraction cache entries", { evicted, remainingBytes: total });
+  }
+
+  /**
+   * Write the cache to disk if it changed since it was loaded
+   */
+  save(): void {
+    if (!this.entries || !this.dirty) return;
+
+    try {
+      const dir = path.dirname(this.cacheFilePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const cacheFile: CacheFile = { version: CACHE_VERSION, entries: this.entries };
+      fs.writeFileSync(this.cacheFilePath, JSON.stringify(cacheFile), "utf8");
+      this.dirty = false;
+      logger.debug("Extraction cache saved", { entries: Object.keys(this.entries).length });
+    } catch (error) {
+      logger.warn("Failed to save extraction cache", { error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Forget every cached extraction
+   */
+  clear(): void {
+    this.entries = {};
+    this.dirty = true;
+    this.save();
+  }
+}
+
+export const extractionCache = new ExtractionCache();
@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileIngester } from "./ingest";
+import { currentAnchor } from "./dates";
+import { withFileLock } from "./filelock";
+import { logger } from "./log";
+
+export interface CapturedEntry {
+  filePath: string;
+  heading: string; // `## HH:MM:SS`
+  startLine: number; // 1-based lines of the entry in the file, heading included
+  endLine: number;
+  createdFile: boolean;
+}
+
+export interface CaptureOptions {
+  now?: Date;
+  lockTimeoutMs?: number; // How long to wait for another writer before giving up
+  staleLockMs?: number; // Locks older than this were left behind by a crashed writer
+}
+
+/**
+ * Appends timestamped entries to today's braindump file
+ */
+class QuickCapture {
+  /**
+   * Path of the daily file for a date, in the top of the inbox
+   */
+  dailyFilePath(inboxDir: string, date: string): string {
+    return path.join(fileIngester.expandPath(inboxDir), `${date}.md`);
+  }
+
+  /**
+   * Append an entry under a `## HH:MM:SS` heading to today's `YYYY-MM-DD.md`, creating the file
+   * with a `# YYYY-MM-DD` header if it doesn't exist yet. The entry is written with a single
+   * append, so changes an editor has already saved are never overwritten.
+   */
+  async appendEntry(
+    inboxDir: string,
+    text: string,
+    options: CaptureOptions = {}
+  ): Promise<CapturedEntry> {
+    const body = text.replace(/\r\n/g, "\n").trim();
+    if (!body) {
+      throw new Error("Nothing to capture");
+    }
+
+    const { date, time } = currentAnchor(options.now);
+    const filePath = this.dailyFilePath(inboxDir, date);
+    const heading = `## ${time}`;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    // The ingester reads under the same lock, so it never sees half of the entry
+    return withFileLock(
+      filePath,
+      () => {
+        const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : null;
+
+        let prefix: string;
+        if (existing === null) {
+          prefix = `# ${date}\n\n`;
+        } else if (existing.length === 0) {
+          prefix = "";
+        } else {
+          prefix = existing.endsWith("\n\n") ? "" : existing.endsWith("\n") ? "\n" : "\n\n";
+        }
+
+        const entry = `${heading}\n${body}\n`;
+        fs.appendFileSync(filePath, prefix + entry, "utf8");
+
+        const startLine = ((existing ?? "") + prefix).split("\n").length;
+        const captured: CapturedEntry = {
+          filePath,
+          heading,
+          startLine,
+          endLine: startLine + body.split("\n").length,
+          createdFile: existing === null,
+        };
+
+        logger.info("Captured entry", {
+          filePath: path.basename(filePath),
+          heading,
+          lines: `${captured.startLine}-${captured.endLine}`,
+          createdFile: captured.createdFile,
+        });
+
+        return captured;
+      },
+      { timeoutMs: options.lockTimeoutMs, staleMs: options.staleLockMs }
+    );
+  }
+}
+
+export const quickCapture = new QuickCapture();
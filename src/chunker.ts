@@ -0,0 +1,190 @@
+import { estimateTokens, tokenWeight } from "./tokens";
+
+export interface ChunkOptions {
+  maxChunkTokens: number;
+  overlapLines?: number;
+  fileTitle?: string | null;
+}
+
+export interface ChunkPiece {
+  content: string;
+  startLine: number; // Index of the piece's first line within the chunked content
+  headingContext: string[];
+  overlapLines: number;
+  estimatedTokens: number;
+}
+
+interface LineInfo {
+  text: string;
+  tokens: number; // Fractional token weight, including the line break
+  headingLevel: number; // 0 when the line is not a heading
+  headings: number[]; // Indices of the heading lines governing this line (including itself)
+}
+
+interface LineRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+const HEADING = /^(#{1,6})\s+\S/;
+
+/**
+ * Split markdown into chunks along its structure: `##` entries first, then deeper headings,
+ * then paragraphs and finally single lines. Chunks that start below a heading carry the
+ * governing headings so the extractor keeps the entry's date and time context.
+ */
+class MarkdownChunker {
+  /**
+   * Annotate every line with its heading level and governing heading stack
+   */
+  private analyseLines(content: string): LineInfo[] {
+    const stack: number[] = [];
+    const levels: number[] = [];
+
+    return content.split("\n").map((text, index) => {
+      const match = text.match(HEADING);
+      const headingLevel = match ? match[1].length : 0;
+
+      if (headingLevel > 0) {
+        while (levels.length > 0 && levels[levels.length - 1] >= headingLevel) {
+          levels.pop();
+          stack.pop();
+        }
+        levels.push(headingLevel);
+        stack.push(index);
+      }
+
+      return { text, tokens: tokenWeight(`${text}\n`), headingLevel, headings: [...stack] };
+    });
+  }
+
+  private measure(lines: LineInfo[], range: LineRange): number {
+    let tokens = 0;
+    for (let i = range.start; i < range.end; i++) {
+      tokens += lines[i].tokens;
+    }
+    return tokens;
+  }
+
+  /**
+   * Split a range at lines where the boundary test holds, keeping each boundary line with the
+   * content that follows it
+   */
+  private splitAt(
+    lines: LineInfo[],
+    range: LineRange,
+    isBoundary: (line: LineInfo, index: number) => boolean
+  ): LineRange[] {
+    const ranges: LineRange[] = [];
+    let start = range.start;
+
+    for (let i = range.start + 1; i < range.end; i++) {
+      if (isBoundary(lines[i], i)) {
+        ranges.push({ start, end: i });
+        start = i;
+      }
+    }
+    ranges.push({ start, end: range.end });
+
+    return ranges;
+  }
+
+  /**
+   * Break a range into pieces that fit the token budget, using progressively finer boundaries
+   */
+  private splitRange(
+    lines: LineInfo[],
+    range: LineRange,
+    maxTokens: number,
+    level = 0
+  ): LineRange[] {
+    if (this.measure(lines, range) <= maxTokens || range.end - range.start <= 1) {
+      return [range];
+    }
+
+    const strategies: Array<(line: LineInfo, index: number) => boolean> = [
+      // Timestamped entries and other `##` sections
+      (line) => line.headingLevel > 0 && line.headingLevel <= 2,
+      // Deeper markdown sections
+      (line) => line.headingLevel > 2,
+      // Paragraphs: a non-blank line following a blank line, unless it continues a list
+      (line, index) =>
+        line.text.trim() !== "" && lines[index - 1].text.trim() === "" && !/^\s+\S/.test(line.text),
+      // Single lines
+      () => true,
+    ];
+
+    for (let strategy = level; strategy < strategies.length; strategy++) {
+      const pieces = this.splitAt(lines, range, strategies[strategy]);
+      if (pieces.length > 1) {
+        return pieces.flatMap((piece) => this.splitRange(lines, piece, maxTokens, strategy + 1));
+      }
+    }
+
+    return [range];
+  }
+
+  /**
+   * Headings governing the first line of a range that are not already part of it
+   */
+  private headingContext(
+    lines: LineInfo[],
+    range: LineRange,
+    fileTitle: string | null | undefined
+  ): string[] {
+    const headings = lines[range.start].headings
+      .filter((index) => index < range.start)
+      .map((index) => lines[index].text.trim());
+
+    const hasTitle = lines[range.start].headings.some((index) => lines[index].headingLevel === 1);
+    if (fileTitle && !hasTitle) {
+      headings.unshift(fileTitle.trim());
+    }
+
+    return headings;
+  }
+
+  /**
+   * Split content into chunks that respect markdown structure
+   */
+  chunk(content: string, options: ChunkOptions): ChunkPiece[] {
+    const lines = this.analyseLines(content);
+    const overlapLines = Math.max(0, options.overlapLines || 0);
+    const pieces = this.splitRange(lines, { start: 0, end: lines.length }, options.maxChunkTokens);
+
+    // Greedily pack adjacent pieces into chunks
+    const packed: LineRange[] = [];
+    for (const piece of pieces) {
+      const last = packed[packed.length - 1];
+      if (
+        last &&
+        this.measure(lines, { start: last.start, end: piece.end }) <= options.maxChunkTokens
+      ) {
+        last.end = piece.end;
+      } else {
+        packed.push({ ...piece });
+      }
+    }
+
+    return packed.map((range, index) => {
+      const overlap = index > 0 ? Math.min(overlapLines, range.start - packed[index - 1].start) : 0;
+      const start = range.start - overlap;
+      const chunkRange = { start, end: range.end };
+      const content = lines
+        .slice(chunkRange.start, chunkRange.end)
+        .map((line) => line.text)
+        .join("\n");
+      const headingContext = this.headingContext(lines, chunkRange, options.fileTitle);
+
+      return {
+        content,
+        startLine: start,
+        headingContext,
+        overlapLines: overlap,
+        estimatedTokens: estimateTokens([...headingContext, content].join("\n")),
+      };
+    });
+  }
+}
+
+export const markdownChunker = new MarkdownChunker();
@@ -0,0 +1,344 @@
+/**
+ * Date the braindump was written, used to resolve relative dates such as "tomorrow"
+ */
+export interface DateAnchor {
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:MM:SS of the entry, when known
+  dateOrder?: DateOrder; // How to read numeric dates such as 05/01; defaults to day first
+}
+
+// "dmy" reads 05/01 as 5 January, "mdy" as May 1
+export type DateOrder = "dmy" | "mdy";
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const WEEKDAY_ABBREVIATIONS: Record<string, string> = {
+  sun: "sunday",
+  mon: "monday",
+  tue: "tuesday",
+  tues: "tuesday",
+  wed: "wednesday",
+  weds: "wednesday",
+  thu: "thursday",
+  thur: "thursday",
+  thurs: "thursday",
+  fri: "friday",
+  sat: "saturday",
+};
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+};
+
+// Time given to "EOD" and "end of day", matching what the extraction prompt asks the model for
+const END_OF_DAY_TIME = "17:00";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toUtc(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function fromUtc(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Check a string is a real calendar date in YYYY-MM-DD form
+ */
+export function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && fromUtc(toUtc(value)) === value;
+}
+
+/**
+ * Anchor on the current local date and time, for braindumps whose date is unknown
+ */
+export function currentAnchor(now = new Date()): DateAnchor {
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`,
+  };
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  return fromUtc(new Date(toUtc(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Day of the week of a date, 0 for Sunday to 6 for Saturday
+ */
+export function weekdayIndex(date: string): number {
+  return toUtc(date).getUTCDay();
+}
+
+/**
+ * Day of the week of a date, e.g. "Friday"
+ */
+export function weekdayName(date: string): string {
+  const name = WEEKDAYS[weekdayIndex(date)];
+  return name[0].toUpperCase() + name.slice(1);
+}
+
+/**
+ * Move a YYYY-MM-DD date by a number of months, keeping the day where the month has it and
+ * otherwise using the month's last day
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0));
+  target.setUTCDate(Math.min(day, lastDay.getUTCDate()));
+  return fromUtc(target);
+}
+
+/**
+ * Last day of the month a date falls in
+ */
+export function endOfMonth(date: string): string {
+  const [year, month] = date.split("-").map(Number);
+  return fromUtc(new Date(Date.UTC(year, month, 0)));
+}
+
+/**
+ * Give a day and month without a year the anchor's year. Dates more than six months before
+ * the anchor belong to the following year, so "05/01" written on 30 December means January.
+ */
+export function resolveDayMonth(day: number, month: number, anchorDate: string): string | null {
+  const year = Number(anchorDate.slice(0, 4));
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  if (!isIsoDate(date)) return null;
+
+  const daysBefore = (toUtc(anchorDate).getTime() - toUtc(date).getTime()) / DAY_MS;
+  return daysBefore > 183 ? `${year + 1}-${pad(month)}-${pad(day)}` : date;
+}
+
+/**
+ * Resolve a relative date such as "tomorrow", "Friday", "next Tue", "next week", "in 3 days"
+ * or "end of month" against the anchor date. A weekday means its next occurrence after the
+ * anchor, and "end of week" the coming Friday.
+ */
+export function resolveRelativeDate(text: string, anchorDate: string): string | null {
+  const value = text.trim().toLowerCase().replace(/\s+/g, " ");
+
+  if (/^(?:today|tonight|this evening|end of (?:the )?day|eod)$/.test(value)) return anchorDate;
+  if (value === "tomorrow" || value === "tmrw" || value === "tmr") return addDays(anchorDate, 1);
+  if (value === "day after tomorrow" || value === "the day after tomorrow") {
+    return addDays(anchorDate, 2);
+  }
+  if (value === "yesterday") return addDays(anchorDate, -1);
+  if (value === "next week") return addDays(anchorDate, 7);
+  if (value === "next month") return addMonths(anchorDate, 1);
+
+  const current = toUtc(anchorDate).getUTCDay();
+  if (/^(?:by )?(?:the )?end of (?:the |this )?week$|^eow$/.test(value)) {
+    return addDays(anchorDate, (5 - current + 7) % 7);
+  }
+  if (/^(?:by )?(?:the )?end of (?:the |this )?month$|^eom$/.test(value)) {
+    return endOfMonth(anchorDate);
+  }
+  if (/^(?:the )?end of next month$/.test(value)) {
+    return endOfMonth(addMonths(anchorDate, 1));
+  }
+
+  const offset = value.match(/^in (\d+|[a-z]+) (day|week|month)s?$/);
+  if (offset) {
+    const count = NUMBER_WORDS[offset[1]] ?? Number(offset[1]);
+    if (!Number.isInteger(count)) return null;
+    if (offset[2] === "month") return addMonths(anchorDate, count);
+    return addDays(anchorDate, offset[2] === "week" ? count * 7 : count);
+  }
+
+  const weekday = value.match(/^(?:(?:this|next|on) )?(\w+)$/);
+  const name = weekday ? (WEEKDAY_ABBREVIATIONS[weekday[1]] ?? weekday[1]) : null;
+  const index = name ? WEEKDAYS.indexOf(name) : -1;
+  if (index >= 0) {
+    return addDays(anchorDate, ((index - current + 6) % 7) + 1);
+  }
+
+  return null;
+}
+
+function monthNumber(name: string): number | null {
+  const index = MONTHS.findIndex(
+    (month) => month === name || (name.length >= 3 && month.startsWith(name))
+  );
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Build a date from its parts, using the anchor to supply a missing year
+ */
+function dateFromParts(
+  day: number,
+  month: number,
+  year: string | undefined,
+  anchorDate: string
+): string | null {
+  if (!year) return resolveDayMonth(day, month, anchorDate);
+
+  const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  const date = `${fullYear}-${pad(month)}-${pad(day)}`;
+  return isIsoDate(date) ? date : null;
+}
+
+/**
+ * Parse the date part of a due date: ISO, numeric (DD/MM or MM/DD by the anchor's date order,
+ * with an optional year), a day and month name ("16 Aug", "August 16th"), or a relative date
+ */
+function parseDatePart(value: string, anchor: DateAnchor): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isIsoDate(value) ? value : null;
+  }
+
+  const numeric = value.match(/^(\d{1,2})[/.](\d{1,2})(?:[/.](\d{4}|\d{2}))?$/);
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    return anchor.dateOrder === "mdy"
+      ? dateFromParts(second, first, numeric[3], anchor.date)
+      : dateFromParts(first, second, numeric[3], anchor.date);
+  }
+
+  const dayFirst = value.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)(?:,? (\d{4}))?$/);
+  const monthFirst = value.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  const named = dayFirst
+    ? { day: dayFirst[1], month: dayFirst[2], year: dayFirst[3] }
+    : monthFirst
+      ? { day: monthFirst[2], month: monthFirst[1], year: monthFirst[3] }
+      : null;
+  if (named) {
+    const month = monthNumber(named.month);
+    return month ? dateFromParts(Number(named.day), month, named.year, anchor.date) : null;
+  }
+
+  return resolveRelativeDate(value, anchor.date);
+}
+
+// "3pm", "3:30 pm", "15:00", "noon", optionally after "at" or "@"
+const TIME_OF_DAY =
+  /(?:^|\s)(?:at\s+|@\s*)?(?:(\d{1,2})(?::([0-5]\d))?\s*(am|pm)|(\d{1,2}):([0-5]\d)|(noon|midday))(?=\s|$)/;
+
+/**
+ * HH:MM of a time-of-day match, or null when it isn't a real time such as "13pm"
+ */
+function timeFromMatch(match: RegExpMatchArray): string | null {
+  if (match[6]) return "12:00";
+
+  if (match[3]) {
+    const hour = Number(match[1]);
+    if (hour < 1 || hour > 12) return null;
+    const hour24 = (hour % 12) + (match[3] === "pm" ? 12 : 0);
+    return `${pad(hour24)}:${match[2] || "00"}`;
+  }
+
+  const hour = Number(match[4]);
+  return hour <= 23 ? `${pad(hour)}:${match[5]}` : null;
+}
+
+/**
+ * Parse a due date the way a person writes it, against the date and time the braindump was
+ * written. Returns YYYY-MM-DD, or YYYY-MM-DDTHH:MM when a time is given, or null when the
+ * text isn't a date.
+ *
+ * Understands ISO dates and date-times, numeric dates in the anchor's date order, month
+ * names, relative dates ("tomorrow", "next Tue", "in 2 weeks", "end of month") and times
+ * ("3pm", "15:30", "noon") before or after the date. "EOD" means 17:00 on the anchor date.
+ * A time on its own means the anchor date, or the next day once that time has passed.
+ */
+export function parseDueDate(text: string, anchor: DateAnchor): string | null {
+  let value = text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.,;!]+$/, "");
+  if (!value) return null;
+
+  // ISO date-times; seconds are dropped
+  const isoDateTime = value.match(/^(\d{4}-\d{2}-\d{2})[t ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  if (isoDateTime) {
+    const valid =
+      isIsoDate(isoDateTime[1]) && Number(isoDateTime[2]) <= 23 && Number(isoDateTime[3]) <= 59;
+    return valid ? `${isoDateTime[1]}T${isoDateTime[2]}:${isoDateTime[3]}` : null;
+  }
+
+  let time: string | null = null;
+  const timeMatch = value.match(TIME_OF_DAY);
+  if (timeMatch && timeMatch.index !== undefined) {
+    time = timeFromMatch(timeMatch);
+    if (!time) return null;
+    value =
+      `${value.slice(0, timeMatch.index)} ${value.slice(timeMatch.index + timeMatch[0].length)}`
+        .replace(/\s+/g, " ")
+        .trim();
+  }
+  value = value.replace(/^(?:due|on|by) /, "").replace(/ (?:at|on|by)$/, "");
+
+  let date: string | null;
+  if (!value) {
+    if (!time) return null;
+    const passed = anchor.time !== null && time < anchor.time.slice(0, 5);
+    date = passed ? addDays(anchor.date, 1) : anchor.date;
+  } else if (/^(?:eod|end of (?:the )?day)$/.test(value)) {
+    date = anchor.date;
+    time = time ?? END_OF_DAY_TIME;
+  } else {
+    date = parseDatePart(value, anchor);
+  }
+
+  if (!date) return null;
+  return time ? `${date}T${time}` : date;
+}
+
+/**
+ * The local time zone, e.g. "Europe/London"
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * A due value as a Notion date: dates as they are, and date-times with seconds and the time
+ * zone they were written in, since Notion reads a date-time without a zone as UTC
+ */
+export function toNotionDate(
+  due: string,
+  timeZone = localTimeZone()
+): { start: string; time_zone?: string } {
+  const dateTime = due.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})$/);
+  return dateTime
+    ? { start: `${dateTime[1]}T${dateTime[2]}:00`, time_zone: timeZone }
+    : { start: due };
+}
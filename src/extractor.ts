@@ -1,6 +1,24 @@
 import { ExtractedTask } from "./state";
 import { FileChunk } from "./ingest";
+import { FileDirectives } from "./frontmatter";
+import { sourceFormats } from "./formats";
 import { logger } from "./log";
+import { estimateTokens, getModelBudget } from "./tokens";
+import { chunkLineNumber, formatSpan, locateSource } from "./spans";
+import { llmProviders, LlmSettings, ProviderError } from "./providers";
+import { ruleExtractor } from "./rules";
+import { extractionCache } from "./cache";
+import { DEFAULT_PROMPT_TEMPLATE, PromptTemplate, PromptVariable, renderPrompt } from "./prompts";
+import { firstDue, formatRecurrence, parseRecurrence } from "./recurrence";
+import { PayloadValidation, RawTask, validateTaskPayload } from "./schema";
+import {
+  addDays,
+  currentAnchor,
+  DateAnchor,
+  DateOrder,
+  parseDueDate,
+  weekdayName,
+} from "./dates";
 
 // Utility function to safely extract error messages
 function getErrorMessage(error: unknown): string {
@@ -18,357 +36,643 @@ function getErrorStack(error: unknown): string | undefined {
 export interface ExtractionResult {
   tasks: ExtractedTask[];
   chunk: FileChunk;
+  error?: string; // Set when extraction failed, so the file is retried next run
+  fallbackReason?: string; // LLM error the rule extractor stood in for
+  promptVersion?: string; // Version of the prompt template the LLM extracted the chunk with
 }
 
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+interface ResponseValidation extends PayloadValidation {
+  parsed: boolean; // False when the response wasn't JSON at all
 }
 
-interface OpenAIError {
-  error: {
-    message: string;
-    type: string;
-    code?: string;
-  };
+// "llm" sends chunks to the configured provider; "rules" extracts explicit tasks offline;
+// "hybrid" takes explicit tasks with the rules and sends only the remaining prose to the LLM
+export type ExtractionMode = "llm" | "rules" | "hybrid";
+
+export interface ExtractionOptions {
+  mode?: ExtractionMode; // Defaults to "llm"
+  ruleFallback?: boolean; // Use the rule extractor for chunks the LLM fails on
+  dateOrder?: DateOrder; // How to read numeric dates such as 05/01; defaults to day first
+  bypassCache?: boolean; // Call the LLM even for chunks it has extracted before
+  template?: PromptTemplate; // Defaults to the built-in prompts
 }
 
-class TaskExtractor {
-  private baseUrl = "https://api.openai.com/v1/chat/completions";
+export interface ExtractionPreferences {
+  extractionMode?: string;
+  ruleFallback?: boolean;
+  dateOrder?: string;
+}
 
-  /**
-   * Build the system prompt for task extraction
-   */
-  private buildSystemPrompt(): string {
-    return `Extract actionable tasks from timestamped braindump notes. Return only JSON.
-
-<source_format>
-Daily markdown files (YYYY-MM-DD.md) with timestamped entries:
-## HH:MM:SS
-- Random thoughts, todos, feelings, reminders, etc.
-</source_format>
-
-<what_to_extract>
-Extract only actionable items:
-- Tasks, todos, action items, reminders with action required
-- Ignore: completed tasks, thoughts, feelings, observations
-- Preserve context and proper names
-- Use imperative titles
-- Current year: ${new Date().getFullYear()}
-</what_to_extract>
-
-<due_date_extraction_rules>
-- Extract specific times when mentioned (e.g., "call at 3pm", "meeting at 9:30am")
-- For "tomorrow", "today", "Friday" etc., add a specific time if context suggests one
-- Default to 09:00 for morning tasks, 14:00 for afternoon tasks, 17:00 for end-of-day
-- Use entry timestamp as context for timing (early entries = morning tasks)
-- Format: "YYYY-MM-DDTHH:MM" in 24-hour format
-</due_date_extraction_rules>
-
-<return_format>
-{
-  "tasks": [
-    {
-      "title": "string",
-      "due": "YYYY-MM-DDTHH:MM" | "YYYY-MM-DD" | null,
-      "tags": ["string"] | null
-    }
-  ]
+const EXTRACTION_MODES: ExtractionMode[] = ["llm", "rules", "hybrid"];
+
+/**
+ * Extraction options from the extension preferences. Unknown modes use the LLM.
+ */
+export function resolveExtractionOptions(preferences: ExtractionPreferences): ExtractionOptions {
+  return {
+    mode: EXTRACTION_MODES.find((mode) => mode === preferences.extractionMode) ?? "llm",
+    ruleFallback: preferences.ruleFallback ?? false,
+    dateOrder: preferences.dateOrder === "mdy" ? "mdy" : "dmy",
+  };
 }
-</return_format>
-`;
-  }
 
+// Longest wait honoured from a provider's retry-after header
+const MAX_RATE_LIMIT_DELAY_MS = 60000;
+
+class TaskExtractor {
   /**
-   * Build user prompt with file content
+   * Values for the prompt template's placeholders
    */
-  private buildUserPrompt(chunk: FileChunk): string {
+  private promptVariables(
+    chunk: FileChunk,
+    anchor: DateAnchor,
+    alreadyExtracted: ExtractedTask[] = []
+  ): Record<PromptVariable, string> {
     const chunkInfo = chunk.totalChunks > 1
       ? ` (chunk ${chunk.chunkIndex + 1}/${chunk.totalChunks})`
       : "";
 
-    return `Extract from braindump${chunkInfo}:
-
-<braindump>
-${chunk.content}
-</braindump>
-
-<current_datetime>
-Important: Use this for reference when extracting due dates.
-Date: ${new Date().toISOString().split('T')[0]}
-Time: ${new Date().toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
-</current_datetime>
-
-<examples>
-Extract actionable tasks like:
-✓ - [ ] Buy milk
-✓ - call John tomorrow at 2pm
-✓ TODO: send invoice due:16/08 9am
-✓ remind Sarah about meeting at 10:30
-✓ need to review proposal by end of day
-✓ dentist appointment Friday 3pm
-✓ follow up call at 9am
-
-Ignore non-actionable:
-✗ - [x] completed tasks
-✗ feeling tired today
-✗ random observation
-
-Time extraction examples:
-"call at 3pm" → "2025-01-15T15:00"
-"meeting tomorrow 9:30am" → "2025-01-16T09:30"
-"deadline Friday" → "2025-01-17T17:00"
-"follow up today" → "2025-01-15T14:00" (use entry time context)
-</examples>
+    const earlierEntries = chunk.context
+      ? `
+<earlier_entries>
+Already processed entries from the same file. Use them only as context; do not extract tasks from them.
+${chunk.context}
+</earlier_entries>
+`
+      : "";
+
+    const headingContext = chunk.headingContext && chunk.headingContext.length > 0
+      ? `
+<headings>
+The braindump below continues under these headings:
+${chunk.headingContext.join("\n")}
+</headings>
+`
+      : "";
 
-JSON only:`;
+    const alreadyExtractedTasks = alreadyExtracted.length > 0
+      ? `
+<already_extracted>
+These tasks were taken from explicit task lines, which have been removed from the braindump. Do not extract them again:
+${alreadyExtracted.map((task) => `- ${task.title}`).join("\n")}
+</already_extracted>
+`
+      : "";
+
+    const overlapNote = chunk.overlapLines
+      ? `\nThe first ${chunk.overlapLines} line${chunk.overlapLines === 1 ? "" : "s"} repeat the end of the previous chunk.\n`
+      : "";
+
+    return {
+      content: chunk.content,
+      chunkInfo,
+      context: `${earlierEntries}${headingContext}${alreadyExtractedTasks}${overlapNote}`,
+      sourceFormat: sourceFormats.get(chunk.format).description,
+      fileDate: anchor.date,
+      fileWeekday: weekdayName(anchor.date),
+      fileTime: anchor.time ? anchor.time.slice(0, 5) : "not recorded",
+      tomorrowDate: addDays(anchor.date, 1),
+      dateOrder: anchor.dateOrder === "mdy" ? "month/day" : "day/month",
+      currentDate: currentAnchor().date,
+    };
   }
 
   /**
-   * Normalise date strings to YYYY-MM-DD format
+   * Convert validated tasks, resolving their due dates against the anchor
    */
-  private normaliseDate(dateStr: string): string | null {
-    if (!dateStr) return null;
+  private validateAndCleanTasks(rawTasks: RawTask[], anchor: DateAnchor): ExtractedTask[] {
+    return rawTasks.map((task) => ({
+      title: task.title.trim(),
+      due: task.due ? parseDueDate(task.due, anchor) : null,
+      tags: task.tags ? task.tags.map((tag) => tag.trim()) : null,
+      ...(task.priority ? { priority: task.priority } : {}),
+      ...(task.assignee?.trim() ? { assignee: task.assignee.trim() } : {}),
+      ...(task.project?.trim() ? { project: task.project.trim() } : {}),
+      ...(task.estimateMinutes ? { estimateMinutes: task.estimateMinutes } : {}),
+      ...(task.recurrence ? { recurrence: task.recurrence } : {}),
+    }));
+  }
 
-    const currentYear = new Date().getFullYear();
+  /**
+   * Match each task's source quote back to lines in the file, falling back to its title
+   */
+  private locateTasks(
+    rawTasks: Array<{ source?: unknown }>,
+    tasks: ExtractedTask[],
+    chunk: FileChunk
+  ): ExtractedTask[] {
+    return tasks.map((task, index) => {
+      const quote = rawTasks[index]?.source;
+      const span =
+        locateSource(chunk, typeof quote === "string" ? quote : null) ||
+        locateSource(chunk, task.title);
+
+      if (!span) {
+        logger.debug("Could not locate task in source", { file: chunk.filePath, title: task.title });
+        return task;
+      }
 
-    // Already in YYYY-MM-DD format
-    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      return dateStr;
-    }
+      return { ...task, startLine: span.startLine, endLine: span.endLine };
+    });
+  }
 
-    // DD/MM or DD/M format
-    const ddmmMatch = dateStr.match(/^(\d{1,2})\/(\d{1,2})$/);
-    if (ddmmMatch) {
-      const day = ddmmMatch[1].padStart(2, '0');
-      const month = ddmmMatch[2].padStart(2, '0');
-      return `${currentYear}-${month}-${day}`;
-    }
+  /**
+   * Move the lines of located tasks between the file and the chunk. The cache is keyed on the
+   * chunk's content, not its place in the file, so tasks are stored with lines counted from the
+   * top of the chunk and put back on the file's lines wherever the chunk is now.
+   */
+  private mapTaskLines(
+    tasks: ExtractedTask[],
+    toLine: (line: number) => number | undefined
+  ): ExtractedTask[] {
+    return tasks.map((task) => {
+      if (task.startLine === undefined) {
+        return task;
+      }
 
-    return null;
+      const { startLine, endLine, ...unlocated } = task;
+      const mappedStart = toLine(startLine);
+      const mappedEnd = toLine(endLine ?? startLine);
+      if (mappedStart === undefined || mappedEnd === undefined) {
+        return unlocated;
+      }
+
+      return { ...task, startLine: mappedStart, endLine: mappedEnd };
+    });
+  }
+
+  private toChunkLines(tasks: ExtractedTask[], chunk: FileChunk): ExtractedTask[] {
+    const chunkLines = new Map<number, number>();
+    chunk.content.split("\n").forEach((_, index) => {
+      chunkLines.set(chunkLineNumber(chunk, index), index + 1);
+    });
+    return this.mapTaskLines(tasks, (line) => chunkLines.get(line));
+  }
+
+  private toFileLines(tasks: ExtractedTask[], chunk: FileChunk): ExtractedTask[] {
+    const lineCount = chunk.content.split("\n").length;
+    return this.mapTaskLines(tasks, (line) =>
+      line >= 1 && line <= lineCount ? chunkLineNumber(chunk, line - 1) : undefined
+    );
   }
 
   /**
-   * Validate and clean extracted tasks
+   * Give tasks from voice memo transcripts the offset into the recording they were spoken
+   * at, taken from the entry heading above the task's line
    */
-  private validateAndCleanTasks(rawTasks: any[]): ExtractedTask[] {
-    if (!Array.isArray(rawTasks)) {
-      return [];
+  private addCaptureOffsets(tasks: ExtractedTask[], chunk: FileChunk): ExtractedTask[] {
+    if (!sourceFormats.get(chunk.format).recording) {
+      return tasks;
     }
 
-    return rawTasks
-      .filter((task) => {
-        return (
-          task &&
-          typeof task === "object" &&
-          typeof task.title === "string" &&
-          task.title.trim().length > 0
-        );
-      })
-      .map((task) => ({
-        title: task.title.trim(),
-        due: task.due ? this.normaliseDate(task.due) : null,
-        tags: Array.isArray(task.tags) ? task.tags.filter((tag: any) => typeof tag === "string") : null,
-      }));
+    const offsetOf = (heading: string) => heading.match(/^##\s+(\d{2}):(\d{2}):(\d{2})\s*$/);
+    const lines = chunk.content.split("\n");
+    const inheritedOffset = (chunk.headingContext || []).map(offsetOf).filter(Boolean).pop() || null;
+
+    return tasks.map((task) => {
+      const taskLine = task.startLine ?? chunk.startLine ?? 1;
+      let offset = inheritedOffset;
+
+      for (let i = 0; i < lines.length && chunkLineNumber(chunk, i) <= taskLine; i++) {
+        offset = offsetOf(lines[i]) || offset;
+      }
+
+      if (!offset) {
+        return task;
+      }
+
+      const [, hours, minutes, seconds] = offset;
+      const capturedAt =
+        hours === "00" ? `${minutes}:${seconds}` : `${Number(hours)}:${minutes}:${seconds}`;
+      return { ...task, capturedAt };
+    });
   }
 
   /**
-   * Make API call to OpenAI
+   * Move recurring tasks onto their first occurrence and store their rules canonically
    */
-  private async callOpenAI(
-    apiKey: string,
-    model: string,
-    systemPrompt: string,
-    userPrompt: string,
-    attempt = 1
-  ): Promise<any> {
-    const response = await fetch(this.baseUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        max_completion_tokens: 1500,
-        text: {
-          "format": {
-            "type": "json_object"
-          },
-          "verbosity": "medium"
-        },
-        reasoning: {
-          "effort": "medium",
-          "summary": "auto"
-        },
-      }),
+  private scheduleRecurring(tasks: ExtractedTask[], anchor: DateAnchor): ExtractedTask[] {
+    return tasks.map((task) => {
+      if (!task.recurrence) return task;
+
+      // A rule that never occurs, such as the 31st of February, leaves a one-off task
+      const rule = parseRecurrence(task.recurrence);
+      const due = rule ? firstDue(rule, task.due, anchor.date) : null;
+      return rule && due
+        ? { ...task, recurrence: formatRecurrence(rule), due }
+        : { ...task, recurrence: null };
     });
+  }
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      let errorMessage = `HTTP ${response.status}`;
+  /**
+   * Apply frontmatter directives: file tags are merged in, the file's project overrides the
+   * model's guess, and date-only due dates get the file's default due time
+   */
+  private applyDirectives(tasks: ExtractedTask[], directives: FileDirectives | undefined): ExtractedTask[] {
+    if (!directives) {
+      return tasks;
+    }
+
+    return tasks.map((task) => {
+      const result: ExtractedTask = { ...task };
 
-      try {
-        const errorJson = JSON.parse(errorBody) as OpenAIError;
-        errorMessage = errorJson.error?.message || errorMessage;
-      } catch {
-        // Use raw error body if JSON parsing fails
-        errorMessage = errorBody || errorMessage;
+      if (directives.tags) {
+        const tags = [...directives.tags, ...(task.tags || [])];
+        result.tags = tags.filter((tag, index) => tags.indexOf(tag) === index);
       }
 
-      // Handle rate limiting with exponential backoff
-      if (response.status === 429 && attempt <= 3) {
-        const delayMs = Math.pow(2, attempt) * 1000; // 2s, 4s, 8s
-        logger.warn(`Rate limited, retrying in ${delayMs}ms`, { attempt });
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-        return this.callOpenAI(apiKey, model, systemPrompt, userPrompt, attempt + 1);
+      if (directives.project) {
+        result.project = directives.project;
       }
 
-      throw new Error(`OpenAI API error: ${errorMessage}`);
-    }
+      if (directives.defaultDueTime && task.due && /^\d{4}-\d{2}-\d{2}$/.test(task.due)) {
+        result.due = `${task.due}T${directives.defaultDueTime}`;
+      }
 
-    const data = await response.json() as OpenAIResponse;
+      return result;
+    });
+  }
 
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error("No response from OpenAI API");
+  /**
+   * Send a chat request to the configured provider, retrying when rate limited
+   */
+  private async callModel(
+    llm: LlmSettings,
+    systemPrompt: string,
+    userPrompt: string,
+    attempt = 1
+  ): Promise<string> {
+    const provider = llmProviders.get(llm.provider);
+
+    try {
+      return await provider.chat(llm, {
+        system: systemPrompt,
+        user: userPrompt,
+        maxTokens: getModelBudget(llm.model).outputBudget,
+      });
+    } catch (error) {
+      // Handle rate limiting with exponential backoff, or as long as the provider asked
+      if (error instanceof ProviderError && error.rateLimited && attempt <= 3) {
+        const delayMs = Math.min(
+          error.retryAfterMs ?? Math.pow(2, attempt) * 1000, // 2s, 4s, 8s
+          MAX_RATE_LIMIT_DELAY_MS
+        );
+        logger.warn(`Rate limited, retrying in ${delayMs}ms`, { provider: provider.id, attempt });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        return this.callModel(llm, systemPrompt, userPrompt, attempt + 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a response and validate it against the task schema
+   */
+  private validateResponse(content: string, anchor: DateAnchor): ResponseValidation {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(content);
+    } catch (error) {
+      return {
+        parsed: false,
+        tasks: [],
+        rejected: 0,
+        issues: [{ path: "$", message: `is not valid JSON: ${getErrorMessage(error)}` }],
+      };
     }
 
-    return data.choices[0].message.content;
+    return { parsed: true, ...validateTaskPayload(payload, anchor) };
   }
 
   /**
-   * Parse JSON response with retry logic
+   * Send the model its previous response with the exact validation errors and the full
+   * prompt, and ask for the complete corrected payload. When the repair fails, the valid
+   * items of the first response are kept.
    */
-  private async parseJsonResponse(
+  private async repairResponse(
     content: string,
-    apiKey: string,
-    model: string,
-    chunk: FileChunk
-  ): Promise<any> {
+    validation: ResponseValidation,
+    llm: LlmSettings,
+    systemPrompt: string,
+    userPrompt: string,
+    chunk: FileChunk,
+    anchor: DateAnchor
+  ): Promise<ResponseValidation> {
+    logger.warn("LLM response failed validation, asking for a repair", {
+      file: chunk.filePath,
+      issues: validation.issues.map((issue) => `${issue.path}: ${issue.message}`),
+      responsePreview: content.substring(0, 200),
+    });
+
+    const repairPrompt = `${userPrompt}
+
+<previous_response>
+${content}
+</previous_response>
+
+<validation_errors>
+${validation.issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n")}
+</validation_errors>
+
+Your previous response did not match the required format. Fix these errors and return the complete corrected JSON object, including the tasks that were already valid.
+
+JSON only:`;
+
+    let repaired: ResponseValidation;
     try {
-      return JSON.parse(content);
-    } catch (parseError) {
-      logger.warn("Failed to parse JSON response, retrying with stricter prompt", {
-        chunkFile: chunk.filePath,
-        parseError: getErrorMessage(parseError),
-        responsePreview: content.substring(0, 200)
+      repaired = this.validateResponse(await this.callModel(llm, systemPrompt, repairPrompt), anchor);
+    } catch (error) {
+      if (!validation.parsed) {
+        throw new Error(`Invalid JSON response: ${getErrorMessage(error)}`);
+      }
+      logger.warn("Repair request failed, keeping the valid tasks", {
+        file: chunk.filePath,
+        error: getErrorMessage(error),
       });
-
-      // Retry with a more specific prompt
-      const strictPrompt = `The previous response was not valid JSON. Return ONLY a JSON object with this exact structure:
-{
-  "tasks": [
-    {
-      "title": "string",
-      "due": "YYYY-MM-DD" | null,
-      "tags": ["string"] | null
+      return validation;
     }
-  ]
-}
-
-Do not include any text before or after the JSON object.`;
 
-      try {
-        const retryContent = await this.callOpenAI(apiKey, model, strictPrompt, `Extract tasks from: ${chunk.content.substring(0, 1000)}`);
-        return JSON.parse(retryContent);
-      } catch (retryError) {
-        logger.error("Failed to parse JSON after retry, skipping chunk", {
-          chunkFile: chunk.filePath,
-          originalError: getErrorMessage(parseError),
-          retryError: getErrorMessage(retryError),
-        });
-        return { tasks: [] };
+    if (!repaired.parsed) {
+      if (!validation.parsed) {
+        throw new Error(`Invalid JSON response: ${repaired.issues[0].message}`);
       }
+      return validation;
     }
+
+    return repaired;
   }
 
   /**
-   * Extract tasks from a file chunk
+   * Ask the LLM for the tasks in a chunk and locate them in the source
    */
-  async extractTasks(
+  private async extractWithLlm(
     chunk: FileChunk,
-    apiKey: string,
-    model: string
-  ): Promise<ExtractionResult> {
-    const startTime = Date.now();
+    llm: LlmSettings,
+    anchor: DateAnchor,
+    options: ExtractionOptions,
+    alreadyExtracted: ExtractedTask[] = []
+  ): Promise<ExtractedTask[]> {
+    const template = options.template ?? DEFAULT_PROMPT_TEMPLATE;
+    const variables = this.promptVariables(chunk, anchor, alreadyExtracted);
+    const systemPrompt = renderPrompt(template.system, variables);
+    const userPrompt = renderPrompt(template.user, variables);
+    const cacheKey = extractionCache.key(
+      {
+        promptVersion: template.version,
+        provider: llm.provider,
+        model: llm.model,
+        baseUrl: llm.baseUrl,
+      },
+      systemPrompt,
+      userPrompt
+    );
+
+    const cached = options.bypassCache ? null : extractionCache.get(cacheKey);
+    if (cached) {
+      logger.debug("Using cached extraction", { file: chunk.filePath, taskCount: cached.length });
+      return this.toFileLines(cached, chunk);
+    }
 
-    try {
-      logger.debug("Starting task extraction", {
-        file: chunk.filePath,
-        chunk: chunk.totalChunks > 1 ? `${chunk.chunkIndex + 1}/${chunk.totalChunks}` : "1/1",
-        contentLength: chunk.content.length,
-      });
+    logger.debug("Sending extraction request", {
+      file: chunk.filePath,
+      format: chunk.format || "markdown",
+      promptVersion: template.version,
+      provider: llm.provider,
+      model: llm.model,
+      systemPromptLength: systemPrompt.length,
+      userPromptLength: userPrompt.length,
+      userPromptPreview: userPrompt.substring(0, 200) + "..."
+    });
 
-      const systemPrompt = this.buildSystemPrompt();
-      const userPrompt = this.buildUserPrompt(chunk);
+    const responseContent = await this.callModel(llm, systemPrompt, userPrompt);
 
-      logger.debug("Sending request to OpenAI", {
-        file: chunk.filePath,
-        model,
-        systemPromptLength: systemPrompt.length,
-        userPromptLength: userPrompt.length,
-        userPromptPreview: userPrompt.substring(0, 200) + "..."
-      });
+    logger.debug("Received extraction response", {
+      file: chunk.filePath,
+      responseLength: responseContent.length,
+      responsePreview: responseContent.substring(0, 500) + "..."
+    });
 
-      const responseContent = await this.callOpenAI(apiKey, model, systemPrompt, userPrompt);
+    let validation = this.validateResponse(responseContent, anchor);
+    if (validation.issues.length > 0) {
+      validation = await this.repairResponse(
+        responseContent,
+        validation,
+        llm,
+        systemPrompt,
+        userPrompt,
+        chunk,
+        anchor
+      );
+    }
 
-      logger.debug("Received response from OpenAI", {
+    // Whatever is still invalid after the repair is dropped
+    if (validation.issues.length > 0) {
+      logger.warn("Rejected invalid tasks", {
         file: chunk.filePath,
-        responseLength: responseContent.length,
-        responsePreview: responseContent.substring(0, 500) + "..."
+        rejected: validation.rejected,
+        issues: validation.issues.map((issue) => `${issue.path}: ${issue.message}`),
       });
+    }
 
-      const parsedResponse = await this.parseJsonResponse(responseContent, apiKey, model, chunk);
+    logger.debug("LLM response validated", {
+      file: chunk.filePath,
+      validTaskCount: validation.tasks.length,
+      rejectedTaskCount: validation.rejected,
+    });
 
-      const rawTasks = parsedResponse.tasks || [];
-      const validTasks = this.validateAndCleanTasks(rawTasks);
+    const tasks = this.locateTasks(
+      validation.tasks,
+      this.validateAndCleanTasks(validation.tasks, anchor),
+      chunk
+    );
 
-      const duration = Date.now() - startTime;
+    // Partly rejected payloads are not cached, so the next run gives the LLM another go
+    if (validation.rejected === 0 && validation.issues.length === 0) {
+      extractionCache.set(cacheKey, this.toChunkLines(tasks, chunk));
+    }
+    return tasks;
+  }
+
+  /**
+   * Take the explicit tasks with the rules, then send only the remaining prose to the LLM with
+   * those tasks listed. Claimed lines are blanked, so the prose keeps the chunk's line numbers.
+   * `due:` and `#tag` tokens on the lines of LLM tasks override the model's reading.
+   */
+  private async extractHybrid(
+    chunk: FileChunk,
+    llm: LlmSettings,
+    anchor: DateAnchor,
+    options: ExtractionOptions
+  ): Promise<ExtractedTask[]> {
+    const { tasks: ruleTasks, claimedLines } = ruleExtractor.claim(chunk, anchor);
+    const claimed = new Set(claimedLines);
+    const prose = chunk.content.split("\n").map((line, i) => (claimed.has(i) ? "" : line));
+
+    if (!prose.some((line) => line.trim() && !/^#{1,6}\s/.test(line))) {
+      logger.debug("No prose left for the LLM", { file: chunk.filePath, ruleTasks: ruleTasks.length });
+      return ruleTasks;
+    }
 
-      // Log the extracted tasks
-      if (validTasks.length > 0) {
-        logger.info("AI extracted tasks", {
+    const llmTasks = ruleExtractor.applyLineTokens(
+      await this.extractWithLlm(
+        { ...chunk, content: prose.join("\n") },
+        llm,
+        anchor,
+        options,
+        ruleTasks
+      ),
+      chunk,
+      anchor
+    );
+
+    const ruleKeys = new Set(ruleTasks.map((task) => this.dedupeKey(task)));
+    const newTasks = llmTasks.filter((task) => !ruleKeys.has(this.dedupeKey(task)));
+
+    logger.debug("Hybrid extraction merged", {
+      file: chunk.filePath,
+      ruleTasks: ruleTasks.length,
+      llmTasks: newTasks.length,
+      duplicatesRemoved: llmTasks.length - newTasks.length,
+    });
+
+    // Keep file order; tasks the model couldn't locate go last
+    return [...ruleTasks, ...newTasks].sort(
+      (a, b) => (a.startLine ?? Infinity) - (b.startLine ?? Infinity)
+    );
+  }
+
+  /**
+   * Extract tasks from a file chunk, with the LLM or the rule extractor depending on the mode.
+   * When the LLM call fails and rule fallback is on, the rule extractor's tasks are returned
+   * instead of an error. What the LLM extracted from the same prompts before is reused from the
+   * extraction cache unless `bypassCache` is set.
+   */
+  async extractTasks(
+    chunk: FileChunk,
+    llm: LlmSettings,
+    options: ExtractionOptions = {}
+  ): Promise<ExtractionResult> {
+    const startTime = Date.now();
+    const mode = options.mode ?? "llm";
+    const chunkLabel = chunk.totalChunks > 1 ? `${chunk.chunkIndex + 1}/${chunk.totalChunks}` : "1/1";
+
+    logger.debug("Starting task extraction", {
+      file: chunk.filePath,
+      chunk: chunkLabel,
+      mode,
+      contentLength: chunk.content.length,
+      estimatedTokens: chunk.estimatedTokens ?? estimateTokens(chunk.content),
+    });
+
+    // Braindumps of unknown date fall back to resolving relative dates against now
+    const anchor: DateAnchor = {
+      ...(chunk.anchor ?? currentAnchor()),
+      ...(options.dateOrder ? { dateOrder: options.dateOrder } : {}),
+    };
+    let locatedTasks: ExtractedTask[];
+    let fallbackReason: string | undefined;
+
+    try {
+      if (mode === "rules") {
+        locatedTasks = ruleExtractor.extractTasks(chunk, anchor);
+      } else if (mode === "hybrid") {
+        locatedTasks = await this.extractHybrid(chunk, llm, anchor, options);
+      } else {
+        locatedTasks = await this.extractWithLlm(chunk, llm, anchor, options);
+      }
+    } catch (error) {
+      if (!options.ruleFallback) {
+        logger.error("Task extraction failed", {
           file: chunk.filePath,
-          tasks: validTasks.map(task => ({
-            title: task.title,
-            due: task.due,
-            tags: task.tags
-          }))
+          chunk: chunkLabel,
+          error: getErrorMessage(error),
         });
+
+        return {
+          tasks: [],
+          chunk,
+          error: getErrorMessage(error),
+        };
       }
 
-      logger.debug("Task extraction completed", {
+      fallbackReason = getErrorMessage(error);
+      logger.warn("LLM extraction failed, falling back to rules", {
         file: chunk.filePath,
-        chunk: chunk.totalChunks > 1 ? `${chunk.chunkIndex + 1}/${chunk.totalChunks}` : "1/1",
-        rawTaskCount: rawTasks.length,
-        validTaskCount: validTasks.length,
-        durationMs: duration,
+        chunk: chunkLabel,
+        error: fallbackReason,
       });
+      locatedTasks = ruleExtractor.extractTasks(chunk, anchor);
+    }
 
-      return {
-        tasks: validTasks,
-        chunk,
-      };
+    const validTasks = this.applyDirectives(
+      this.scheduleRecurring(this.addCaptureOffsets(locatedTasks, chunk), anchor),
+      chunk.directives
+    );
 
-    } catch (error) {
-      logger.error("Task extraction failed", {
+    // Log the extracted tasks
+    if (validTasks.length > 0) {
+      logger.info(mode === "rules" || fallbackReason ? "Rules extracted tasks" : "AI extracted tasks", {
         file: chunk.filePath,
-        chunk: chunk.totalChunks > 1 ? `${chunk.chunkIndex + 1}/${chunk.totalChunks}` : "1/1",
-        error: getErrorMessage(error),
+        tasks: validTasks.map(task => ({
+          title: task.title,
+          due: task.due,
+          tags: task.tags,
+          priority: task.priority,
+          assignee: task.assignee,
+          project: task.project,
+          estimateMinutes: task.estimateMinutes,
+          recurrence: task.recurrence,
+          source: task.startLine
+            ? formatSpan(chunk.filePath, { startLine: task.startLine, endLine: task.endLine ?? task.startLine })
+            : null,
+        }))
       });
+    }
 
-      return {
-        tasks: [],
-        chunk,
-      };
+    logger.debug("Task extraction completed", {
+      file: chunk.filePath,
+      chunk: chunkLabel,
+      taskCount: validTasks.length,
+      fallback: Boolean(fallbackReason),
+      durationMs: Date.now() - startTime,
+    });
+
+    if (fallbackReason) return { tasks: validTasks, chunk, fallbackReason };
+    return mode === "rules"
+      ? { tasks: validTasks, chunk }
+      : { tasks: validTasks, chunk, promptVersion: (options.template ?? DEFAULT_PROMPT_TEMPLATE).version };
+  }
+
+  /**
+   * Normalise a task title for duplicate comparison
+   */
+  private dedupeKey(task: ExtractedTask): string {
+    return task.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+  }
+
+  /**
+   * Drop tasks that a chunk re-extracted from the lines it shares with the previous chunk
+   */
+  private dedupeOverlappingResults(results: ExtractionResult[]): number {
+    let removed = 0;
+
+    for (const result of results) {
+      if (!result.chunk.overlapLines) continue;
+
+      const previous = results.find(
+        (candidate) =>
+          candidate.chunk.filePath === result.chunk.filePath &&
+          candidate.chunk.chunkIndex === result.chunk.chunkIndex - 1
+      );
+      if (!previous) continue;
+
+      const previousKeys = new Set(previous.tasks.map((task) => this.dedupeKey(task)));
+      const before = result.tasks.length;
+      result.tasks = result.tasks.filter((task) => !previousKeys.has(this.dedupeKey(task)));
+      removed += before - result.tasks.length;
     }
+
+    return removed;
   }
 
   /**
@@ -376,12 +680,13 @@ Do not include any text before or after the JSON object.`;
    */
   async extractTasksFromChunks(
     chunks: FileChunk[],
-    apiKey: string,
-    model: string,
+    llm: LlmSettings,
+    options: ExtractionOptions = {},
     maxConcurrency = 3
   ): Promise<ExtractionResult[]> {
     logger.info("Starting batch task extraction", {
       chunkCount: chunks.length,
+      mode: options.mode ?? "llm",
       maxConcurrency,
     });
 
@@ -392,38 +697,49 @@ Do not include any text before or after the JSON object.`;
       const batch = chunks.slice(i, i + maxConcurrency);
 
       const batchPromises = batch.map(chunk =>
-        this.extractTasks(chunk, apiKey, model)
+        this.extractTasks(chunk, llm, options)
       );
 
       const batchResults = await Promise.all(batchPromises);
       results.push(...batchResults);
 
       // Small delay between batches to be respectful to the API
-      if (i + maxConcurrency < chunks.length) {
+      if (options.mode !== "rules" && i + maxConcurrency < chunks.length) {
         await new Promise(resolve => setTimeout(resolve, 500));
       }
     }
 
+    extractionCache.save();
+    const duplicatesRemoved = this.dedupeOverlappingResults(results);
     const totalTasks = results.reduce((sum, result) => sum + result.tasks.length, 0);
 
     logger.info("Batch task extraction completed", {
       processedChunks: chunks.length,
+      failedChunks: results.filter((result) => result.error).length,
+      fallbackChunks: results.filter((result) => result.fallbackReason).length,
       totalTasks,
+      duplicatesRemoved,
     });
 
     return results;
   }
 
   /**
-   * Health check - verify API key works
+   * Health check - verify the provider is reachable and the API key and model work
    */
-  async healthCheck(apiKey: string, model: string): Promise<{ healthy: boolean; message: string }> {
+  async healthCheck(llm: LlmSettings): Promise<{ healthy: boolean; message: string }> {
+    const provider = llmProviders.get(llm.provider);
+
     try {
+      const problem = provider.checkAvailability ? await provider.checkAvailability(llm) : null;
+      if (problem) {
+        return { healthy: false, message: problem };
+      }
+
       const testPrompt = "Return only this JSON: {\"test\": true}";
 
-      const response = await this.callOpenAI(
-        apiKey,
-        model,
+      const response = await this.callModel(
+        llm,
         "You are a test assistant. Return only the requested JSON.",
         testPrompt
       );
@@ -431,12 +747,16 @@ Do not include any text before or after the JSON object.`;
       const parsed = JSON.parse(response);
 
       if (parsed.test === true) {
-        return { healthy: true, message: "OpenAI API connection successful" };
+        return { healthy: true, message: `${provider.name} API connection successful` };
       } else {
-        return { healthy: false, message: "OpenAI API returned unexpected response" };
+        return { healthy: false, message: `${provider.name} API returned unexpected response` };
       }
     } catch (error) {
-      return { healthy: false, message: `OpenAI API error: ${getErrorMessage(error)}` };
+      const message = getErrorMessage(error);
+      return {
+        healthy: false,
+        message: error instanceof ProviderError ? message : `${provider.name} API error: ${message}`,
+      };
     }
   }
 }
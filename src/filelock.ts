@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "./log";
+
+export interface FileLockOptions {
+  timeoutMs?: number; // How long to wait for the current holder before giving up
+  staleMs?: number; // Locks older than this were left behind by a crashed process
+}
+
+const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+const DEFAULT_STALE_LOCK_MS = 30000;
+const LOCK_RETRY_MS = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Lock file guarding a braindump file while it is appended to or read
+ */
+export function lockPathFor(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+/**
+ * Take an exclusive lock file next to a file, waiting while someone else holds it. Locks left
+ * behind by a crashed process are replaced once stale.
+ */
+async function acquireLock(filePath: string, timeoutMs: number, staleMs: number): Promise<void> {
+  const lockPath = lockPathFor(filePath);
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, "wx");
+      fs.writeSync(fd, String(process.pid));
+      fs.closeSync(fd);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > staleMs) {
+        logger.warn("Removing stale file lock", { lockPath });
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      continue; // Released between our attempts
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`${path.basename(filePath)} is in use by another capture or sync`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Run an action while holding a file's lock. Quick Capture appends and the ingester reads
+ * under the same lock, so a sync never sees half of an entry.
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  action: () => T | Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  await acquireLock(
+    filePath,
+    options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS,
+    options.staleMs ?? DEFAULT_STALE_LOCK_MS
+  );
+
+  try {
+    return await action();
+  } finally {
+    fs.rmSync(lockPathFor(filePath), { force: true });
+  }
+}
@@ -0,0 +1,300 @@
+import * as path from "path";
+
+export interface NormalisedSource {
+  content: string; // Internal markdown: `# date` title, `## HH:MM:SS` entries, `- [ ]` tasks
+  date: string | null; // YYYY-MM-DD the journal belongs to, when known
+}
+
+export interface SourceFormatAdapter {
+  id: string; // Built in: "markdown", "logseq", "org", "plaintext", "transcript"
+  name: string;
+  description: string; // Explains the original format to the extractor
+  recording?: boolean; // Entry headings are offsets into a recording, not times of day
+  detect(filePath: string, content: string): boolean;
+  /**
+   * Convert content into the internal markdown structure. Normalisation works line by line
+   * and must keep the line count, so positions in the normalised content match the file.
+   */
+  normalise(content: string, filePath: string): NormalisedSource;
+}
+
+const ISO_DATE = /(\d{4})[-_.](\d{2})[-_.](\d{2})/;
+
+/**
+ * Find a YYYY-MM-DD date in the file name, accepting `-`, `_` or `.` as separators
+ */
+export function dateFromFileName(filePath: string): string | null {
+  const match = path.basename(filePath).match(ISO_DATE);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Normalise a bare time such as `9:15`, `09:15` or `09:15:30` to HH:MM:SS
+ */
+export function normaliseTime(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return `${match[1].padStart(2, "0")}:${match[2]}:${match[3] || "00"}`;
+}
+
+/**
+ * Turn `<2025-08-16 Sat 10:00>` style timestamps into a `due:` token
+ */
+function dueToken(timestamp: string): string | null {
+  const match = timestamp.match(/(\d{4}-\d{2}-\d{2})(?:\s+\w+)?(?:\s+(\d{1,2}:\d{2}))?/);
+  if (!match) return null;
+  const time = match[2] ? normaliseTime(match[2])?.slice(0, 5) : null;
+  return `due:${match[1]}${time ? `T${time}` : ""}`;
+}
+
+const markdownAdapter: SourceFormatAdapter = {
+  id: "markdown",
+  name: "Markdown daily notes",
+  description: `Daily markdown files (YYYY-MM-DD.md) with timestamped entries:
+## HH:MM:SS
+- Random thoughts, todos, feelings, reminders, etc.`,
+  detect: (filePath) => /\.(md|markdown)$/i.test(filePath),
+  normalise: (content, filePath) => {
+    const heading = content.match(/^#\s+.*?(\d{4}-\d{2}-\d{2})/m);
+    return { content, date: dateFromFileName(filePath) || (heading ? heading[1] : null) };
+  },
+};
+
+const logseqAdapter: SourceFormatAdapter = {
+  id: "logseq",
+  name: "Logseq journal",
+  description: `Logseq journal page (journals/YYYY_MM_DD.md) written as an outline of bullets.
+Logseq TODO/LATER/NOW markers have been converted to "- [ ]", DONE to "- [x]",
+and SCHEDULED/DEADLINE lines to due: tokens. Nested bullets belong to their parent bullet.`,
+  detect: (filePath, content) => {
+    if (!/\.md$/i.test(filePath)) return false;
+    if (/(^|[\\/])journals[\\/]\d{4}_\d{2}_\d{2}\.md$/i.test(filePath)) return true;
+    return /^\s*- (TODO|LATER|NOW|DOING|DONE) /m.test(content);
+  },
+  normalise: (content, filePath) => {
+    const lines = content.split("\n").map((line) => {
+      const scheduled = line.match(/^(\s*)(?:SCHEDULED|DEADLINE):\s*(<[^>]+>)/);
+      if (scheduled) {
+        const token = dueToken(scheduled[2]);
+        return token ? `${scheduled[1]}${token}` : line;
+      }
+
+      return line
+        .replace(/^(\s*)- (?:TODO|LATER|NOW|DOING|WAITING) /, "$1- [ ] ")
+        .replace(/^(\s*)- (?:DONE|CANCELED|CANCELLED) /, "$1- [x] ")
+        .replace(/\[\[([^\]]+)\]\]/g, "$1");
+    });
+
+    return { content: lines.join("\n"), date: dateFromFileName(filePath) };
+  },
+};
+
+const orgAdapter: SourceFormatAdapter = {
+  id: "org",
+  name: "Org-mode",
+  description: `Org-mode file converted to markdown. Top-level org headings became "##" entries,
+TODO headings became "- [ ]" tasks, DONE headings "- [x]",
+and SCHEDULED/DEADLINE timestamps became due: tokens.`,
+  detect: (filePath) => /\.org$/i.test(filePath),
+  normalise: (content, filePath) => {
+    let date = dateFromFileName(filePath);
+    let inDrawer = false;
+
+    const lines = content.split("\n").map((line) => {
+      const trimmed = line.trim();
+
+      if (/^:[A-Z_]+:$/i.test(trimmed) && trimmed.toUpperCase() !== ":END:") {
+        inDrawer = true;
+        return "";
+      }
+      if (inDrawer) {
+        if (trimmed.toUpperCase() === ":END:") inDrawer = false;
+        return "";
+      }
+
+      const keyword = line.match(/^#\+(\w+):\s*(.*)$/);
+      if (keyword) {
+        const name = keyword[1].toUpperCase();
+        if (name === "DATE" && !date) {
+          const match = keyword[2].match(/\d{4}-\d{2}-\d{2}/);
+          date = match ? match[0] : null;
+        }
+        return name === "TITLE" ? `# ${keyword[2]}` : "";
+      }
+
+      const planning = trimmed.match(/^(?:SCHEDULED|DEADLINE):\s*(<[^>]+>)/);
+      if (planning) {
+        return dueToken(planning[1]) || "";
+      }
+
+      const heading = line.match(
+        /^(\*+)\s+(?:(TODO|NEXT|WAITING|DONE|CANCELLED|CANCELED)\s+)?(.*)$/
+      );
+      if (heading) {
+        const [, stars, state, text] = heading;
+        if (state) {
+          const indent = "  ".repeat(Math.max(0, stars.length - 2));
+          const checked = /DONE|CANCEL/.test(state) ? "x" : " ";
+          return `${indent}- [${checked}] ${text}`;
+        }
+        const time = text.match(/^<?(?:\d{4}-\d{2}-\d{2}\s+\w+\s+)?(\d{1,2}:\d{2}(?::\d{2})?)>?$/);
+        const title = time ? normaliseTime(time[1]) || text : text;
+        return `${"#".repeat(Math.min(6, stars.length + 1))} ${title}`;
+      }
+
+      return line;
+    });
+
+    return { content: lines.join("\n"), date };
+  },
+};
+
+const plainTextAdapter: SourceFormatAdapter = {
+  id: "plaintext",
+  name: "Plain text journal",
+  description: `Plain text journal. Lines that only held a time (e.g. "09:15" or "[09:15]")
+were converted to "## HH:MM:SS" entry headings; everything else is free text.`,
+  detect: (filePath) => /\.txt$/i.test(filePath),
+  normalise: (content, filePath) => {
+    const lines = content.split("\n").map((line) => {
+      const match = line.trim().match(/^\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?\s*[-:]?$/);
+      const time = match ? normaliseTime(match[1]) : null;
+      return time ? `## ${time}` : line;
+    });
+
+    return { content: lines.join("\n"), date: dateFromFileName(filePath) };
+  },
+};
+
+// Cue timing line shared by WebVTT (`00:01.000`) and SRT (`00:00:01,000`)
+const CUE_TIMING =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2})[.,]\d{1,3}\s+-->\s+(?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3}/;
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+/**
+ * Turn a cue start such as `1:02:03` or `02:03` into an HH:MM:SS offset
+ */
+function cueOffset(start: string): string {
+  const parts = start.split(":").map(Number);
+  while (parts.length < 3) parts.unshift(0);
+  return parts.map((part) => String(part).padStart(2, "0")).join(":");
+}
+
+/**
+ * Strip WebVTT voice, class and timestamp tags and SRT styling, keeping voice names as speakers
+ */
+function cueText(line: string): string {
+  return line
+    .replace(/<v(?:\.[\w.-]+)?\s+([^>]+)>/g, "$1: ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+interface Cue {
+  timingLine: number;
+  offset: string;
+  textLines: number[];
+  text: string;
+}
+
+const transcriptAdapter: SourceFormatAdapter = {
+  id: "transcript",
+  name: "Voice memo transcript",
+  description: `Transcript of a dictated voice memo, converted from WebVTT/SRT subtitles.
+Subtitle cues were merged into sentences; each "## HH:MM:SS" entry heading is how far into the
+recording the sentence was spoken, not a time of day. Expect filler words and dictation errors.`,
+  recording: true,
+  detect: (filePath, content) =>
+    /\.(vtt|srt)$/i.test(filePath) ||
+    (/\.txt$/i.test(filePath) && content.split("\n").some((line) => CUE_TIMING.test(line))),
+  normalise: (content, filePath) => {
+    const lines = content.split("\n");
+    const output = lines.map(() => "");
+    const cues: Cue[] = [];
+    let cue: Cue | null = null;
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+
+      // Blank lines end a cue; headers, NOTE blocks and cue identifiers outside cues are dropped
+      if (!trimmed) {
+        cue = null;
+        return;
+      }
+
+      const timing = line.match(CUE_TIMING);
+      if (timing) {
+        cue = { timingLine: index, offset: cueOffset(timing[1]), textLines: [], text: "" };
+        cues.push(cue);
+        return;
+      }
+
+      const text = cue ? cueText(line) : "";
+      if (cue && text) {
+        cue.textLines.push(index);
+        cue.text = cue.text ? `${cue.text} ${text}` : text;
+      }
+    });
+
+    // Merge cues into sentences: the first cue of a sentence becomes an entry heading and
+    // carries the whole sentence on its first text line; the other lines are left blank
+    let sentence: Cue | null = null;
+    for (const current of cues.filter((candidate) => candidate.text)) {
+      if (!sentence) {
+        sentence = current;
+        output[current.timingLine] = `## ${current.offset}`;
+      } else {
+        sentence.text = `${sentence.text} ${current.text}`;
+      }
+
+      if (SENTENCE_END.test(current.text)) {
+        output[sentence.textLines[0]] = sentence.text;
+        sentence = null;
+      }
+    }
+    if (sentence) {
+      output[sentence.textLines[0]] = sentence.text;
+    }
+
+    return { content: output.join("\n"), date: dateFromFileName(filePath) };
+  },
+};
+
+/**
+ * Registry of source format adapters. Adapters are tried in registration order, most
+ * specific first, with plain markdown as the fallback.
+ */
+class SourceFormatRegistry {
+  private adapters: SourceFormatAdapter[] = [
+    transcriptAdapter,
+    logseqAdapter,
+    orgAdapter,
+    plainTextAdapter,
+  ];
+  private fallback = markdownAdapter;
+
+  /**
+   * Add an adapter, tried before the built-in ones
+   */
+  register(adapter: SourceFormatAdapter): void {
+    this.adapters = [adapter, ...this.adapters.filter((existing) => existing.id !== adapter.id)];
+  }
+
+  /**
+   * Find the adapter for a file
+   */
+  detect(filePath: string, content: string): SourceFormatAdapter {
+    return this.adapters.find((adapter) => adapter.detect(filePath, content)) || this.fallback;
+  }
+
+  /**
+   * Look up an adapter by its format ID
+   */
+  get(id: string | undefined): SourceFormatAdapter {
+    return this.adapters.find((adapter) => adapter.id === id) || this.fallback;
+  }
+}
+
+export const sourceFormats = new SourceFormatRegistry();
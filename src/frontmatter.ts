@@ -0,0 +1,153 @@
+import { isIsoDate } from "./dates";
+
+export type FrontmatterValue = string | boolean | string[];
+
+export interface FileDirectives {
+  skip: boolean;
+  project?: string;
+  tags?: string[];
+  defaultDueTime?: string; // HH:MM, applied to date-only due dates
+  target?: string; // Notion database ID overriding the configured one
+  date?: string; // YYYY-MM-DD the braindump was written, for resolving relative dates
+}
+
+export interface ParsedFrontmatter {
+  data: Record<string, FrontmatterValue>;
+  body: string;
+  lineOffset: number; // Number of lines the frontmatter block occupied
+}
+
+const FRONTMATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Remove a trailing `# comment` that is not inside quotes
+ */
+function stripComment(value: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(value[i - 1]))) {
+      return value.slice(0, i).trimEnd();
+    }
+  }
+
+  return value;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    (trimmed[0] === '"' || trimmed[0] === "'") &&
+    trimmed[trimmed.length - 1] === trimmed[0]
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Parse a scalar or inline list value
+ */
+function parseValue(raw: string): FrontmatterValue {
+  const value = stripComment(raw).trim();
+
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map((item) => unquote(item))
+      .filter(Boolean);
+  }
+
+  if (value === "true") return true;
+  if (value === "false") return false;
+
+  return unquote(value);
+}
+
+/**
+ * Parse a YAML frontmatter block at the top of a file. Only the subset of YAML used for
+ * directives is supported: `key: value` scalars, inline `[a, b]` lists and `- item` lists.
+ */
+export function parseFrontmatter(content: string): ParsedFrontmatter {
+  const match = content.match(FRONTMATTER);
+  if (!match) {
+    return { data: {}, body: content, lineOffset: 0 };
+  }
+
+  const data: Record<string, FrontmatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && listKey) {
+      const current = data[listKey];
+      const items = Array.isArray(current) ? current : [];
+      items.push(unquote(stripComment(listItem[1])));
+      data[listKey] = items;
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, rawValue] = pair;
+    if (stripComment(rawValue).trim() === "") {
+      listKey = key;
+      data[key] = [];
+    } else {
+      listKey = null;
+      data[key] = parseValue(rawValue);
+    }
+  }
+
+  return {
+    data,
+    body: content.slice(match[0].length),
+    lineOffset: match[0].split("\n").length - (match[0].endsWith("\n") ? 1 : 0),
+  };
+}
+
+function asString(value: FrontmatterValue | undefined): string | undefined {
+  if (typeof value === "string" && value.trim()) return value.trim();
+  return undefined;
+}
+
+/**
+ * Interpret the `brainpipe`, `project`, `tags`, `default_due_time`, `target` and `date` keys
+ */
+export function toDirectives(data: Record<string, FrontmatterValue>): FileDirectives {
+  const directives: FileDirectives = {
+    skip: data.brainpipe === "skip" || data.brainpipe === false,
+  };
+
+  const project = asString(data.project);
+  if (project) directives.project = project;
+
+  const rawTags = typeof data.tags === "string" ? data.tags.split(",") : data.tags;
+  if (Array.isArray(rawTags)) {
+    const tags = rawTags.map((tag) => tag.trim().replace(/^#/, "")).filter(Boolean);
+    if (tags.length > 0) directives.tags = tags;
+  }
+
+  const dueTime = asString(data.default_due_time)?.match(/^(\d{1,2}):(\d{2})$/);
+  if (dueTime && Number(dueTime[1]) < 24 && Number(dueTime[2]) < 60) {
+    directives.defaultDueTime = `${dueTime[1].padStart(2, "0")}:${dueTime[2]}`;
+  }
+
+  const target = asString(data.target);
+  if (target) directives.target = target;
+
+  const date = asString(data.date);
+  if (date && isIsoDate(date)) directives.date = date;
+
+  return directives;
+}
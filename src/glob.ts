@@ -0,0 +1,116 @@
+/**
+ * Minimal glob matching for inbox include/exclude rules.
+ *
+ * Patterns are matched against forward-slash paths relative to the inbox directory and support
+ * `**` (any number of directories), `*` (anything within a path segment), `?` (single character)
+ * and `{a,b}` alternation. A pattern without a slash matches against the file or directory name
+ * at any depth, so `.trash` excludes every `.trash` folder in the tree.
+ */
+
+const regExpCache = new Map<string, RegExp>();
+
+function escapeRegExp(char: string): string {
+  return /[.+^$()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Convert a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached) return cached;
+
+  let source = "";
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === "/";
+
+        if (atSegmentStart && atSegmentEnd) {
+          if (pattern[i + 2] === "/") {
+            // "**/" matches zero or more leading directories
+            source += "(?:.*/)?";
+            i += 2;
+          } else {
+            source += ".*";
+            i += 1;
+          }
+          continue;
+        }
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Check whether a relative path matches a glob pattern
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const normalisedPath = relativePath.split("\\").join("/").replace(/^\.\//, "");
+  const normalisedPattern = pattern.trim().replace(/^\.\//, "");
+
+  if (!normalisedPattern) return false;
+
+  if (!normalisedPattern.includes("/")) {
+    const baseName = normalisedPath.replace(/\/$/, "").split("/").pop() || "";
+    return globToRegExp(normalisedPattern).test(baseName);
+  }
+
+  return globToRegExp(normalisedPattern).test(normalisedPath);
+}
+
+/**
+ * Check whether a relative path matches any of the given patterns
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * Parse a comma or newline separated list of glob patterns from a preference value.
+ * Commas inside `{a,b}` groups are preserved.
+ */
+export function parseGlobList(value: string | undefined): string[] {
+  if (!value) return [];
+
+  const patterns: string[] = [];
+  let current = "";
+  let depth = 0;
+
+  for (const char of value) {
+    if (char === "{") depth++;
+    if (char === "}") depth = Math.max(0, depth - 1);
+
+    if ((char === "," && depth === 0) || char === "\n") {
+      patterns.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  patterns.push(current);
+
+  return patterns.map((pattern) => pattern.trim()).filter(Boolean);
+}
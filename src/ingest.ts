@@ -1,7 +1,16 @@
 import * as fs from "fs";
 import * as path from "path";
-import { stateManager } from "./state";
+import { digestFile, FileDigest, stateManager, StateManager } from "./state";
 import { logger } from "./log";
+import { matchesAnyGlob, parseGlobList } from "./glob";
+import { digestContent, digestSections, findTitle, splitSections } from "./sections";
+import { markdownChunker } from "./chunker";
+import { getChunkTokenBudget } from "./tokens";
+import { FileDirectives, parseFrontmatter, toDirectives } from "./frontmatter";
+import { sourceFormats } from "./formats";
+import { withholdPrivate } from "./privacy";
+import { DateAnchor } from "./dates";
+import { withFileLock } from "./filelock";
 
 // Utility function to safely extract error messages
 function getErrorMessage(error: unknown): string {
@@ -14,7 +23,13 @@ export interface FileContent {
   filePath: string;
   content: string;
   modifiedTime: number;
+  digest: FileDigest; // Of the file exactly as read, staged as its checkpoint
   isModified: boolean;
+  directives?: FileDirectives; // From YAML frontmatter, which is stripped from content
+  lineOffset?: number; // Lines removed from the top of the file along with the frontmatter
+  format?: string; // Source format adapter that normalised the content
+  date?: string | null; // Date the journal belongs to, from frontmatter, file name or content
+  withheldChars?: number; // Private content blanked out before chunking
 }
 
 export interface FileChunk {
@@ -22,15 +37,93 @@ export interface FileChunk {
   content: string;
   chunkIndex: number;
   totalChunks: number;
+  startLine?: number; // 1-based line in the source file where the chunk starts
+  lineMap?: number[]; // Source line of every chunk line, when they are not contiguous
+  estimatedTokens?: number;
+  directives?: FileDirectives;
+  format?: string;
+  anchor?: DateAnchor; // When the braindump was written; relative dates resolve against it
+  context?: string; // Already extracted entries from the same file, for reference only
+  headingContext?: string[]; // Governing headings when the chunk starts below them
+  overlapLines?: number; // Leading lines repeated from the previous chunk
+}
+
+interface PendingEntries {
+  content: string;
+  lineNumbers?: number[]; // Line index in the file content of every pending line
+  context?: string;
+  newEntries: number;
+  unchangedEntries: number;
+}
+
+export interface ScanOptions {
+  include: string[];
+  exclude: string[];
+  maxDepth: number;
+}
+
+export interface IngestOptions extends Partial<ScanOptions> {
+  model?: string; // Chunks are sized to this model's token budget
+  chunkOverlapLines?: number;
+  files?: string[]; // Only ingest these files, if they match the scan rules
+  state?: StateManager; // State of the route being ingested; defaults to the main state
+}
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = {
+  include: ["**/*.md"],
+  exclude: ["**/templates/**", "**/.trash/**"],
+  maxDepth: 10,
+};
+
+// Folder at the top of the inbox that processed files are archived into; never scanned
+export const ARCHIVE_DIR = "processed";
+
+// Prompt template looked for at the top of the inbox (see prompts.ts); never scanned
+export const PROMPT_TEMPLATE_FILE = "brainpipe-prompt.txt";
+
+interface SkippedPath {
+  path: string;
+  reason:
+    | "excluded"
+    | "archive"
+    | "prompt-template"
+    | "max-depth"
+    | "symlink-loop"
+    | "unreadable";
+}
+
+/**
+ * Build ingest options from the glob, depth and chunking preferences
+ */
+export function resolveIngestOptions(preferences: {
+  includeGlobs?: string;
+  excludeGlobs?: string;
+  maxScanDepth?: string;
+  chunkOverlapLines?: string;
+  openaiModel?: string;
+}): IngestOptions {
+  const include = parseGlobList(preferences.includeGlobs);
+  const exclude = parseGlobList(preferences.excludeGlobs);
+  const maxDepth = parseInt(preferences.maxScanDepth || "", 10);
+  const overlap = parseInt(preferences.chunkOverlapLines || "", 10);
+
+  return {
+    include: include.length > 0 ? include : DEFAULT_SCAN_OPTIONS.include,
+    exclude: preferences.excludeGlobs !== undefined ? exclude : DEFAULT_SCAN_OPTIONS.exclude,
+    maxDepth: Number.isFinite(maxDepth) && maxDepth >= 0 ? maxDepth : DEFAULT_SCAN_OPTIONS.maxDepth,
+    chunkOverlapLines: Number.isFinite(overlap) && overlap > 0 ? overlap : 0,
+    model: preferences.openaiModel,
+  };
 }
 
 class FileIngester {
-  private maxChunkSize = 8000; // Characters per chunk to stay under token limits
+  private defaultChunkTokens = 2000; // Used when no model is configured (roughly 8000 characters)
+  private maxContextSize = 2000; // Characters of earlier entries sent along as context
 
   /**
    * Expand tilde in file paths to user home directory
    */
-  private expandPath(filePath: string): string {
+  expandPath(filePath: string): string {
     if (filePath.startsWith("~/")) {
       const os = require("os");
       return path.join(os.homedir(), filePath.slice(2));
@@ -39,11 +132,105 @@ class FileIngester {
   }
 
   /**
-   * Scan directory for markdown files
+   * Recursively walk a directory, collecting files that match the include rules.
+   * Directories matching an exclude rule are pruned without being read.
    */
-  async scanDirectory(dirPath: string): Promise<string[]> {
+  private walkDirectory(
+    rootPath: string,
+    dirPath: string,
+    depth: number,
+    options: ScanOptions,
+    visited: Set<string>,
+    files: string[],
+    skipped: SkippedPath[]
+  ): void {
+    let realDir: string;
+    try {
+      realDir = fs.realpathSync(dirPath);
+    } catch {
+      skipped.push({ path: dirPath, reason: "unreadable" });
+      return;
+    }
+
+    // Guard against symlinks pointing back up the tree
+    if (visited.has(realDir)) {
+      skipped.push({ path: dirPath, reason: "symlink-loop" });
+      return;
+    }
+    visited.add(realDir);
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true });
+    } catch (error) {
+      if (depth === 0) throw error;
+      skipped.push({ path: dirPath, reason: "unreadable" });
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+      const relativePath = path.relative(rootPath, entryPath).split(path.sep).join("/");
+
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+
+      if (entry.isSymbolicLink()) {
+        try {
+          const targetStats = fs.statSync(entryPath);
+          isDirectory = targetStats.isDirectory();
+          isFile = targetStats.isFile();
+        } catch {
+          skipped.push({ path: relativePath, reason: "unreadable" });
+          continue;
+        }
+      }
+
+      if (isDirectory) {
+        if (depth === 0 && entry.name === ARCHIVE_DIR) {
+          skipped.push({ path: relativePath, reason: "archive" });
+          continue;
+        }
+
+        if (
+          matchesAnyGlob(relativePath, options.exclude) ||
+          matchesAnyGlob(`${relativePath}/`, options.exclude)
+        ) {
+          skipped.push({ path: relativePath, reason: "excluded" });
+          continue;
+        }
+
+        if (depth >= options.maxDepth) {
+          skipped.push({ path: relativePath, reason: "max-depth" });
+          continue;
+        }
+
+        this.walkDirectory(rootPath, entryPath, depth + 1, options, visited, files, skipped);
+      } else if (isFile) {
+        if (depth === 0 && entry.name === PROMPT_TEMPLATE_FILE) {
+          skipped.push({ path: relativePath, reason: "prompt-template" });
+          continue;
+        }
+
+        if (matchesAnyGlob(relativePath, options.exclude)) {
+          skipped.push({ path: relativePath, reason: "excluded" });
+          continue;
+        }
+
+        if (matchesAnyGlob(relativePath, options.include)) {
+          files.push(entryPath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Recursively scan directory for files matching the include/exclude rules
+   */
+  async scanDirectory(dirPath: string, options: Partial<ScanOptions> = {}): Promise<string[]> {
     const expandedPath = this.expandPath(dirPath);
-    
+    const scanOptions: ScanOptions = { ...DEFAULT_SCAN_OPTIONS, ...options };
+
     try {
       if (!fs.existsSync(expandedPath)) {
         throw new Error(`Directory does not exist: ${expandedPath}`);
@@ -54,18 +241,29 @@ class FileIngester {
         throw new Error(`Path is not a directory: ${expandedPath}`);
       }
 
-      const files = fs.readdirSync(expandedPath);
-      const markdownFiles = files
-        .filter((file) => file.endsWith(".md"))
-        .map((file) => path.join(expandedPath, file));
+      const files: string[] = [];
+      const skipped: SkippedPath[] = [];
+      this.walkDirectory(expandedPath, expandedPath, 0, scanOptions, new Set(), files, skipped);
+      files.sort();
 
-      logger.debug("Scanned directory for markdown files", {
+      if (skipped.length > 0) {
+        logger.debug("Skipped paths while scanning directory", {
+          directory: expandedPath,
+          skipped,
+        });
+      }
+
+      logger.debug("Scanned directory for matching files", {
         directory: expandedPath,
-        fileCount: markdownFiles.length,
-        files: markdownFiles.map(f => path.basename(f))
+        include: scanOptions.include,
+        exclude: scanOptions.exclude,
+        maxDepth: scanOptions.maxDepth,
+        fileCount: files.length,
+        skippedCount: skipped.length,
+        files: files.map((f) => path.relative(expandedPath, f)),
       });
 
-      return markdownFiles;
+      return files;
     } catch (error) {
       logger.error("Failed to scan directory", { 
         directory: expandedPath, 
@@ -76,32 +274,62 @@ class FileIngester {
   }
 
   /**
-   * Read and process files, only returning modified ones
+   * Read and process files, only returning modified ones. Each file is read under the lock
+   * Quick Capture appends under, so an entry being captured is never read half written; a
+   * file that stays locked is skipped and read next run.
    */
-  async readFiles(filePaths: string[]): Promise<FileContent[]> {
+  async readFiles(filePaths: string[], state = stateManager): Promise<FileContent[]> {
     const results: FileContent[] = [];
 
     for (const filePath of filePaths) {
       try {
-        const stats = fs.statSync(filePath);
-        const isModified = stateManager.isFileModified(filePath);
-        
-        if (!isModified) {
+        const read = await withFileLock(filePath, () => {
+          if (!state.isFileModified(filePath)) return null;
+          return { stats: fs.statSync(filePath), content: fs.readFileSync(filePath, "utf8") };
+        });
+
+        if (!read) {
           logger.debug("Skipping unmodified file", { filePath });
           continue;
         }
 
-        const content = fs.readFileSync(filePath, "utf8");
+        const { stats, content } = read;
         
-        results.push({
+        const frontmatter = parseFrontmatter(content);
+        const adapter = sourceFormats.detect(filePath, frontmatter.body);
+        const normalised = adapter.normalise(frontmatter.body, filePath);
+        const redacted = withholdPrivate(normalised.content);
+
+        const fileContent: FileContent = {
           filePath,
-          content,
+          content: redacted.content,
           modifiedTime: stats.mtimeMs,
+          digest: digestFile(content),
           isModified: true,
-        });
+          format: adapter.id,
+          date: normalised.date,
+        };
+
+        if (frontmatter.lineOffset > 0) {
+          fileContent.directives = toDirectives(frontmatter.data);
+          fileContent.lineOffset = frontmatter.lineOffset;
+          if (fileContent.directives.date) fileContent.date = fileContent.directives.date;
+        }
+
+        if (redacted.withheldChars > 0) {
+          fileContent.withheldChars = redacted.withheldChars;
+          logger.info("Withheld private content", {
+            filePath: path.basename(filePath),
+            characters: redacted.withheldChars,
+            regions: redacted.withheldRegions,
+          });
+        }
+
+        results.push(fileContent);
 
         logger.debug("Read modified file", { 
           filePath: path.basename(filePath), 
+          format: adapter.id,
           size: content.length,
           lines: content.split("\n").length
         });
@@ -118,85 +346,163 @@ class FileIngester {
   }
 
   /**
-   * Chunk large files to stay within token limits
+   * Chunk large files along their markdown structure to stay within token limits
    */
-  chunkContent(fileContent: FileContent): FileChunk[] {
-    if (fileContent.content.length <= this.maxChunkSize) {
-      return [{
+  chunkContent(
+    fileContent: FileContent,
+    options: {
+      model?: string;
+      overlapLines?: number;
+      fileTitle?: string | null;
+      lineNumbers?: number[];
+    } = {}
+  ): FileChunk[] {
+    const maxChunkTokens = options.model
+      ? getChunkTokenBudget(options.model)
+      : this.defaultChunkTokens;
+
+    const pieces = markdownChunker.chunk(fileContent.content, {
+      maxChunkTokens,
+      overlapLines: options.overlapLines,
+      fileTitle: options.fileTitle,
+    });
+
+    // Map content lines back to 1-based lines of the file, before its frontmatter was stripped
+    const contentLine = (index: number) =>
+      options.lineNumbers ? options.lineNumbers[index] : index;
+    const sourceLine = (index: number) => contentLine(index) + (fileContent.lineOffset || 0) + 1;
+
+    // Timestamped entries of the whole file, to find the entry each chunk starts in. Entries of
+    // recordings are offsets into the memo, which say nothing about the time of day.
+    const entries =
+      fileContent.date && !sourceFormats.get(fileContent.format).recording
+        ? splitSections(fileContent.content).filter((section) => section.time)
+        : [];
+
+    const chunks: FileChunk[] = pieces.map((piece, index) => {
+      const lineCount = piece.content.split("\n").length;
+      const lines = Array.from({ length: lineCount }, (_, i) => sourceLine(piece.startLine + i));
+
+      const chunk: FileChunk = {
         filePath: fileContent.filePath,
-        content: fileContent.content,
-        chunkIndex: 0,
-        totalChunks: 1,
-      }];
-    }
+        content: piece.content,
+        chunkIndex: index,
+        totalChunks: pieces.length,
+        startLine: lines[0],
+        estimatedTokens: piece.estimatedTokens,
+      };
 
-    const chunks: FileChunk[] = [];
-    const lines = fileContent.content.split("\n");
-    let currentChunk = "";
-    let chunkIndex = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const newChunk = currentChunk ? `${currentChunk}\n${line}` : line;
-
-      if (newChunk.length > this.maxChunkSize && currentChunk) {
-        // Current chunk is full, save it and start a new one
-        chunks.push({
-          filePath: fileContent.filePath,
-          content: currentChunk,
-          chunkIndex,
-          totalChunks: 0, // Will be updated after all chunks are created
-        });
-        
-        currentChunk = line;
-        chunkIndex++;
-      } else {
-        currentChunk = newChunk;
+      if (lines.some((line, i) => line !== lines[0] + i)) {
+        chunk.lineMap = lines;
       }
-    }
 
-    // Add the last chunk if it has content
-    if (currentChunk) {
-      chunks.push({
-        filePath: fileContent.filePath,
-        content: currentChunk,
-        chunkIndex,
-        totalChunks: 0,
-      });
-    }
+      if (piece.headingContext.length > 0) {
+        chunk.headingContext = piece.headingContext;
+      }
+      if (piece.overlapLines > 0) {
+        chunk.overlapLines = piece.overlapLines;
+      }
+      if (fileContent.date) {
+        // The entry the chunk starts in, or else the first entry inside it. Entries are split
+        // from the content being chunked, so both count lines of that content, not the file.
+        const firstLine = piece.startLine + 1;
+        const lastLine = piece.startLine + lineCount;
+        const entry =
+          entries.filter((section) => section.startLine <= firstLine).pop() ||
+          entries.find((section) => section.startLine <= lastLine);
+        chunk.anchor = { date: fileContent.date, time: entry?.time ?? null };
+      }
 
-    // Update total chunks count
-    const totalChunks = chunks.length;
-    chunks.forEach(chunk => {
-      chunk.totalChunks = totalChunks;
+      return chunk;
     });
 
-    logger.debug("Chunked large file", {
-      filePath: path.basename(fileContent.filePath),
-      originalSize: fileContent.content.length,
-      chunks: totalChunks,
-    });
+    if (chunks.length > 1) {
+      logger.debug("Chunked large file", {
+        filePath: path.basename(fileContent.filePath),
+        originalSize: fileContent.content.length,
+        maxChunkTokens,
+        chunks: chunks.length,
+      });
+    }
 
     return chunks;
   }
 
+  /**
+   * Work out which `##` entries of a modified file are new or edited since the last run.
+   * Unchanged entries are kept out of extraction, and the ones before the first new entry
+   * are passed along as context instead.
+   */
+  selectNewEntries(
+    fileContent: FileContent,
+    previousDigests: Record<string, string> | undefined
+  ): PendingEntries | null {
+    const sections = splitSections(fileContent.content);
+    const hasEntries = sections.some((section) => section.heading !== null);
+
+    if (!previousDigests || !hasEntries) {
+      return {
+        content: fileContent.content,
+        newEntries: sections.length,
+        unchangedEntries: 0,
+      };
+    }
+
+    const pending: string[] = [];
+    const lineNumbers: number[] = [];
+    const context: string[] = [];
+
+    for (const section of sections) {
+      const unchanged = previousDigests[section.key] === digestContent(section.text.trimEnd());
+
+      if (!unchanged) {
+        pending.push(section.text);
+        section.text.split("\n").forEach((_, i) => lineNumbers.push(section.startLine - 1 + i));
+      } else if (pending.length === 0) {
+        context.push(section.text);
+      }
+    }
+
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const contextText = context.join("\n").trim();
+
+    return {
+      content: pending.join("\n"),
+      lineNumbers,
+      context: contextText
+        ? contextText.slice(Math.max(0, contextText.length - this.maxContextSize))
+        : undefined,
+      newEntries: pending.length,
+      unchangedEntries: sections.length - pending.length,
+    };
+  }
+
   /**
    * Main ingestion method - scan directory and return processable chunks
    */
-  async ingestFiles(dirPath: string): Promise<FileChunk[]> {
+  async ingestFiles(dirPath: string, options: IngestOptions = {}): Promise<FileChunk[]> {
     logger.info("Starting file ingestion", { directory: dirPath });
+    const state = options.state ?? stateManager;
 
     try {
-      // Scan for markdown files
-      const filePaths = await this.scanDirectory(dirPath);
+      // Scan for matching files
+      let filePaths = await this.scanDirectory(dirPath, options);
+
+      if (options.files) {
+        const wanted = new Set(options.files.map((filePath) => path.resolve(filePath)));
+        filePaths = filePaths.filter((filePath) => wanted.has(path.resolve(filePath)));
+      }
       
       if (filePaths.length === 0) {
-        logger.info("No markdown files found in directory");
+        logger.info("No matching files found in directory");
         return [];
       }
 
       // Read only modified files
-      const fileContents = await this.readFiles(filePaths);
+      const fileContents = await this.readFiles(filePaths, state);
       
       if (fileContents.length === 0) {
         logger.info("No modified files to process");
@@ -207,17 +513,65 @@ class FileIngester {
       const allChunks: FileChunk[] = [];
       
       for (const fileContent of fileContents) {
-        const chunks = this.chunkContent(fileContent);
-        allChunks.push(...chunks);
-        
-        // Update file modified time after successful processing
-        stateManager.updateFileModifiedTime(fileContent.filePath);
+        const checkpoint = { mtime: fileContent.modifiedTime, digest: fileContent.digest };
+
+        if (fileContent.directives?.skip) {
+          logger.info("Skipping file marked with brainpipe: skip", {
+            filePath: path.basename(fileContent.filePath),
+          });
+          state.stageFileCheckpoint(fileContent.filePath, checkpoint);
+          continue;
+        }
+
+        const pending = this.selectNewEntries(
+          fileContent,
+          state.getSectionDigests(fileContent.filePath)
+        );
+
+        if (pending) {
+          const chunks = this.chunkContent(
+            { ...fileContent, content: pending.content },
+            {
+              model: options.model,
+              overlapLines: options.chunkOverlapLines,
+              fileTitle: findTitle(fileContent.content),
+              lineNumbers: pending.lineNumbers,
+            }
+          );
+          chunks.forEach((chunk) => {
+            if (pending.context) chunk.context = pending.context;
+            if (fileContent.directives) chunk.directives = fileContent.directives;
+            if (fileContent.format) chunk.format = fileContent.format;
+          });
+          allChunks.push(...chunks);
+
+          if (pending.unchangedEntries > 0) {
+            logger.debug("Extracting only new entries", {
+              filePath: path.basename(fileContent.filePath),
+              newEntries: pending.newEntries,
+              unchangedEntries: pending.unchangedEntries,
+            });
+          }
+        } else {
+          logger.debug("No new or edited entries in modified file", {
+            filePath: path.basename(fileContent.filePath),
+          });
+        }
+
+        // Stage file digests (including per-entry digests); they are committed once the
+        // file's tasks have been extracted and synced
+        state.stageFileCheckpoint(
+          fileContent.filePath,
+          checkpoint,
+          digestSections(fileContent.content)
+        );
       }
 
       logger.info("File ingestion completed", {
         totalFiles: filePaths.length,
         modifiedFiles: fileContents.length,
         totalChunks: allChunks.length,
+        withheldChars: fileContents.reduce((sum, file) => sum + (file.withheldChars || 0), 0),
       });
 
       return allChunks;
@@ -232,9 +586,12 @@ class FileIngester {
   }
 
   /**
-   * Health check - verify directory exists and is accessible
+   * Health check - verify directory exists, is accessible and report matching files
    */
-  async healthCheck(dirPath: string): Promise<{ healthy: boolean; message: string }> {
+  async healthCheck(
+    dirPath: string,
+    options: Partial<ScanOptions> = {}
+  ): Promise<{ healthy: boolean; message: string; matchingFiles?: number }> {
     try {
       const expandedPath = this.expandPath(dirPath);
       
@@ -256,9 +613,12 @@ class FileIngester {
       // Try to read the directory
       fs.readdirSync(expandedPath);
 
+      const files = await this.scanDirectory(expandedPath, options);
+
       return {
         healthy: true,
-        message: `Directory accessible: ${expandedPath}`,
+        message: `Directory accessible: ${expandedPath} (${files.length} matching file${files.length === 1 ? "" : "s"})`,
+        matchingFiles: files.length,
       };
     } catch (error) {
       return {
@@ -1,5 +1,7 @@
 import { TaskWithMeta } from "./state";
 import { logger } from "./log";
+import { formatSpan } from "./spans";
+import { toNotionDate } from "./dates";
 import * as path from "path";
 
 // Utility function to safely extract error messages
@@ -37,9 +39,41 @@ export interface NotionSyncResult {
   error?: string;
 }
 
+interface NotionPageState {
+  archived?: boolean;
+  in_trash?: boolean;
+  properties?: Record<string, { status?: { name?: string } | null; select?: { name?: string } | null }>;
+}
+
+interface NotionUser {
+  id: string;
+  type?: "person" | "bot";
+  name?: string | null;
+}
+
+// Properties only written when the task has a value; dropped if the database lacks them
+const OPTIONAL_PROPERTIES = [
+  "Priority",
+  "Assignee",
+  "Project",
+  "Estimate",
+  "Recurrence",
+  "Source",
+  "Captured At",
+  "Prompt Version",
+];
+
+// Status names that mark a task as finished, compared case-insensitively
+const DONE_STATUSES = ["done", "completed", "complete"];
+
+export type TaskStatus = "open" | "done" | "missing";
+
 class NotionClient {
   private baseUrl = "https://api.notion.com/v1";
   private version = "2022-06-28";
+  // Fetched once per database and token, when a task first needs them
+  private propertyTypes = new Map<string, Promise<Record<string, string>>>();
+  private users = new Map<string, Promise<NotionUser[]>>();
 
   /**
    * Create a rich text property
@@ -76,9 +110,7 @@ class NotionClient {
    */
   private createDate(dateString: string): NotionProperty {
     return {
-      date: {
-        start: dateString,
-      },
+      date: toNotionDate(dateString),
     };
   }
 
@@ -93,6 +125,15 @@ class NotionClient {
     };
   }
 
+  /**
+   * Create a number property
+   */
+  private createNumber(value: number): NotionProperty {
+    return {
+      number: value,
+    };
+  }
+
   /**
    * Create a status property
    */
@@ -134,9 +175,196 @@ class NotionClient {
       properties.Tags = this.createMultiSelect(task.tags);
     }
 
+    if (task.priority) {
+      properties.Priority = this.createSelect(task.priority[0].toUpperCase() + task.priority.slice(1));
+    }
+
+    if (task.project) {
+      properties.Project = this.createSelect(task.project);
+    }
+
+    if (task.estimateMinutes) {
+      properties.Estimate = this.createNumber(task.estimateMinutes);
+    }
+
+    properties.Source = this.createRichText(formatSpan(task.filePath, task));
+
+    if (task.capturedAt) {
+      properties["Captured At"] = this.createRichText(task.capturedAt);
+    }
+
+    if (task.promptVersion) {
+      properties["Prompt Version"] = this.createRichText(task.promptVersion);
+    }
+
     return properties;
   }
 
+  /**
+   * Property types of a database by property name
+   */
+  private getPropertyTypes(token: string, databaseId: string): Promise<Record<string, string>> {
+    const key = `${token}:${databaseId}`;
+    let types = this.propertyTypes.get(key);
+    if (!types) {
+      types = this.getDatabaseInfo(token, databaseId).then(({ properties }) =>
+        Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, property.type]))
+      );
+      types.catch(() => this.propertyTypes.delete(key));
+      this.propertyTypes.set(key, types);
+    }
+    return types;
+  }
+
+  /**
+   * Every user the integration can see, following pagination
+   */
+  private getUsers(token: string): Promise<NotionUser[]> {
+    let users = this.users.get(token);
+    if (!users) {
+      users = (async () => {
+        const all: NotionUser[] = [];
+        let cursor: string | null = null;
+        do {
+          const query = cursor ? `&start_cursor=${encodeURIComponent(cursor)}` : "";
+          const page = await this.callNotion(token, `/users?page_size=100${query}`);
+          all.push(...(page.results || []));
+          cursor = page.has_more ? page.next_cursor : null;
+        } while (cursor);
+        return all;
+      })();
+      users.catch(() => this.users.delete(token));
+      this.users.set(token, users);
+    }
+    return users;
+  }
+
+  /**
+   * Find the person an assignee names: by full name, then by a first name only one person has
+   */
+  private matchUser(users: NotionUser[], assignee: string): NotionUser | null {
+    const people = users.filter((user) => user.type !== "bot" && user.name);
+    const wanted = assignee.trim().toLowerCase();
+
+    const exact = people.find((user) => user.name!.toLowerCase() === wanted);
+    if (exact) return exact;
+
+    const firstNames = people.filter((user) => user.name!.toLowerCase().split(/\s+/)[0] === wanted);
+    return firstNames.length === 1 ? firstNames[0] : null;
+  }
+
+  /**
+   * Assignee property for the database's Assignee column: the matching workspace member when
+   * it is a people property, otherwise the name as a select or text. Null when the database
+   * has no such column or no member matches.
+   */
+  private async createAssignee(
+    token: string,
+    databaseId: string,
+    assignee: string
+  ): Promise<NotionProperty | null> {
+    const type = (await this.getPropertyTypes(token, databaseId)).Assignee;
+
+    if (type === "people") {
+      const user = this.matchUser(await this.getUsers(token), assignee);
+      if (!user) {
+        logger.warn("No Notion user matches the assignee, leaving it unset", { assignee, databaseId });
+        return null;
+      }
+      return { people: [{ id: user.id }] };
+    }
+
+    if (type === "select") return this.createSelect(assignee);
+    return type === "rich_text" ? this.createRichText(assignee) : null;
+  }
+
+  /**
+   * Recurrence property for the database's Recurrence column: a select or text holding the
+   * rule. Select options can't contain commas, so day lists are space separated there. Null
+   * when the database has no such column.
+   */
+  private async createRecurrence(
+    token: string,
+    databaseId: string,
+    recurrence: string
+  ): Promise<NotionProperty | null> {
+    const type = (await this.getPropertyTypes(token, databaseId)).Recurrence;
+
+    if (type === "select") return this.createSelect(recurrence.replace(/,/g, " "));
+    return type === "rich_text" ? this.createRichText(recurrence) : null;
+  }
+
+  /**
+   * Fit optional properties to the database's columns: leave out those it has no column for, so
+   * Notion doesn't reject the page, and write the project as text to a text Project column.
+   * When the columns can't be read every property is sent as built, and createPage drops the
+   * missing ones as Notion reports them.
+   */
+  private async fitPropertiesToColumns(
+    token: string,
+    databaseId: string,
+    properties: Record<string, NotionProperty>
+  ): Promise<void> {
+    let types: Record<string, string>;
+    try {
+      types = await this.getPropertyTypes(token, databaseId);
+    } catch (error) {
+      logger.warn("Failed to read the database's columns, sending every property", {
+        databaseId,
+        error: getErrorMessage(error),
+      });
+      return;
+    }
+
+    const missing = OPTIONAL_PROPERTIES.filter(
+      (property) => properties[property] && !(property in types)
+    );
+    missing.forEach((property) => delete properties[property]);
+    if (missing.length > 0) {
+      logger.debug("Notion database lacks optional properties, leaving them out", {
+        databaseId,
+        properties: missing,
+      });
+    }
+
+    if (properties.Project && types.Project === "rich_text") {
+      properties.Project = this.createRichText(properties.Project.select.name);
+    } else if (properties.Project && types.Project !== "select") {
+      logger.warn("Project column is neither a select nor text, leaving the project out", {
+        databaseId,
+        type: types.Project,
+      });
+      delete properties.Project;
+    }
+  }
+
+  /**
+   * Create a page, dropping optional properties the database doesn't have. Notion rejects the
+   * whole page with "<name> is not a property that exists" in that case; this only happens
+   * when the database's columns couldn't be read beforehand.
+   */
+  private async createPage(token: string, pageData: NotionPage): Promise<NotionResponse> {
+    try {
+      return (await this.callNotion(token, "/pages", "POST", pageData)) as NotionResponse;
+    } catch (error) {
+      const missing = getErrorMessage(error).match(/(\S.*?) is not a property that exists/);
+      const property = missing ? missing[1].replace(/^Notion API error:\s*/, "") : null;
+
+      if (!property || !OPTIONAL_PROPERTIES.includes(property) || !pageData.properties[property]) {
+        throw error;
+      }
+
+      logger.warn("Notion database has no such property, creating page without it", {
+        property,
+        databaseId: pageData.parent.database_id,
+      });
+
+      const properties = { ...pageData.properties };
+      delete properties[property];
+      return this.createPage(token, { ...pageData, properties });
+    }
+  }
+
   /**
    * Make API call to Notion
    */
@@ -223,6 +451,26 @@ class NotionClient {
     }
   }
 
+  /**
+   * Whether a task's page is still open, marked done in its Status column, or gone: archived,
+   * in the trash or no longer shared with the integration
+   */
+  async getTaskStatus(token: string, pageId: string): Promise<TaskStatus> {
+    let page: NotionPageState;
+    try {
+      page = await this.callNotion(token, `/pages/${pageId}`);
+    } catch (error) {
+      if (/Could not find/i.test(getErrorMessage(error))) return "missing";
+      throw error;
+    }
+
+    if (page.archived || page.in_trash) return "missing";
+
+    const status = page.properties?.Status;
+    const name = status?.status?.name ?? status?.select?.name;
+    return name && DONE_STATUSES.includes(name.toLowerCase()) ? "done" : "open";
+  }
+
   /**
    * Create a new page in Notion database
    */
@@ -231,6 +479,7 @@ class NotionClient {
       logger.debug("Creating Notion page", {
         taskTitle: task.title,
         taskHash: task.hash,
+        source: formatSpan(task.filePath, task),
         dueDate: task.due,
       });
 
@@ -252,13 +501,39 @@ class NotionClient {
         properties: this.buildPageProperties(task),
       };
 
+      if (task.assignee) {
+        try {
+          const assignee = await this.createAssignee(token, databaseId, task.assignee);
+          if (assignee) pageData.properties.Assignee = assignee;
+        } catch (error) {
+          logger.warn("Failed to resolve the assignee, creating page without it", {
+            assignee: task.assignee,
+            error: getErrorMessage(error),
+          });
+        }
+      }
+
+      if (task.recurrence) {
+        try {
+          const recurrence = await this.createRecurrence(token, databaseId, task.recurrence);
+          if (recurrence) pageData.properties.Recurrence = recurrence;
+        } catch (error) {
+          logger.warn("Failed to read the Recurrence column, creating page without it", {
+            recurrence: task.recurrence,
+            error: getErrorMessage(error),
+          });
+        }
+      }
+
+      await this.fitPropertiesToColumns(token, databaseId, pageData.properties);
+
       logger.debug("Sending task to Notion", {
         taskTitle: task.title,
         pageProperties: Object.keys(pageData.properties),
         payloadSize: JSON.stringify(pageData).length
       });
 
-      const response = await this.callNotion(token, "/pages", "POST", pageData) as NotionResponse;
+      const response = await this.createPage(token, pageData);
 
       logger.info("Notion page created successfully", {
         taskTitle: task.title,
@@ -286,6 +561,14 @@ class NotionClient {
     }
   }
 
+  /**
+   * Forget the database columns and users read so far, so changes made in Notion are picked up
+   */
+  clearCache(): void {
+    this.propertyTypes.clear();
+    this.users.clear();
+  }
+
   /**
    * Sync multiple tasks to Notion
    */
@@ -300,14 +583,17 @@ class NotionClient {
       maxConcurrency,
     });
 
+    // Columns are read once per database and sync
+    this.clearCache();
+
     const results: NotionSyncResult[] = [];
 
     // Process tasks in batches to avoid overwhelming Notion API
     for (let i = 0; i < tasks.length; i += maxConcurrency) {
       const batch = tasks.slice(i, i + maxConcurrency);
       
-      const batchPromises = batch.map(task => 
-        this.createTask(token, databaseId, task)
+      const batchPromises = batch.map(task =>
+        this.createTask(token, task.targetDatabaseId || databaseId, task)
       );
       
       const batchResults = await Promise.all(batchPromises);
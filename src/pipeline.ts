@@ -0,0 +1,355 @@
+import { fileIngester, IngestOptions } from "./ingest";
+import { taskExtractor, ExtractionOptions, ExtractionResult } from "./extractor";
+import { notionClient } from "./notion";
+import {
+  ExtractedTask,
+  stateManager,
+  StateManager,
+  TaskField,
+  TaskSource,
+  TaskWithMeta,
+} from "./state";
+import { fileArchiver } from "./archiver";
+import { LlmSettings } from "./providers";
+import { logger } from "./log";
+import { currentAnchor } from "./dates";
+import { loadPromptTemplate } from "./prompts";
+import { nextDue, parseRecurrence } from "./recurrence";
+import { chunkLineText, entryHeadingAt } from "./spans";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+export interface SyncSettings {
+  inboxDir: string;
+  ingestOptions: IngestOptions;
+  llm: LlmSettings;
+  extraction?: ExtractionOptions; // Defaults to LLM extraction without rule fallback
+  notionToken: string;
+  notionDbId: string;
+  defaultTags?: string[]; // Added to every task synced by this route
+  taskFields?: TaskField[]; // Optional fields written to Notion; defaults to all
+  archiveAfterDays?: number; // Archive processed files older than this; unset disables archiving
+}
+
+export type SyncStage = "extracting" | "syncing";
+
+export interface SyncSummary {
+  processedChunks: number;
+  failedChunks: number;
+  extractedTasks: number;
+  syncedTasks: number;
+  failedTasks: number;
+  committedFiles: number;
+  retryFiles: string[]; // Files left unprocessed so the next run tries them again
+  archivedFiles: number;
+  renewedTasks: number; // Recurring tasks given their next instance after being marked done
+}
+
+// Task property holding each optional field
+const TASK_FIELD_KEYS: Record<
+  TaskField,
+  keyof Pick<ExtractedTask, "priority" | "assignee" | "project" | "estimateMinutes" | "recurrence">
+> = {
+  priority: "priority",
+  assignee: "assignee",
+  project: "project",
+  estimate: "estimateMinutes",
+  recurrence: "recurrence",
+};
+
+/**
+ * Runs ingestion, extraction and the Notion sync. Files are checkpointed per file: a file
+ * only counts as processed once every chunk extracted and every task synced.
+ */
+class SyncPipeline {
+  /**
+   * Turn extraction results into tasks that haven't been synced yet
+   */
+  private collectTasks(
+    results: ExtractionResult[],
+    state: StateManager,
+    defaultTags: string[] = [],
+    taskFields?: TaskField[]
+  ): TaskWithMeta[] {
+    const tasks: TaskWithMeta[] = [];
+
+    for (const result of results) {
+      const tasksPerLine = new Map<string, number>();
+
+      for (const task of result.tasks) {
+        // Tasks whose source couldn't be located are pinned to the start of their chunk
+        const startLine = task.startLine ?? result.chunk.startLine ?? 1;
+        const endLine = task.endLine ?? startLine;
+        const entry = entryHeadingAt(result.chunk, startLine);
+        const line = task.startLine ? chunkLineText(result.chunk, task.startLine) : null;
+        let source: TaskSource | undefined;
+        if (line !== null) {
+          const key = JSON.stringify([entry, line]);
+          const occurrence = tasksPerLine.get(key) ?? 0;
+          tasksPerLine.set(key, occurrence + 1);
+          source = { line, occurrence };
+        }
+
+        const hash = state.generateTaskHash(task, result.chunk.filePath, entry, source);
+
+        if (state.isTaskProcessed(hash)) {
+          logger.debug("Skipping already processed task", {
+            title: task.title.substring(0, 50),
+            hash,
+          });
+          continue;
+        }
+
+        const taskWithMeta: TaskWithMeta = {
+          ...task,
+          hash,
+          filePath: result.chunk.filePath,
+          startLine,
+          endLine,
+          extractedAt: new Date().toISOString(),
+        };
+
+        if (defaultTags.length > 0) {
+          taskWithMeta.tags = Array.from(new Set([...(task.tags || []), ...defaultTags]));
+        }
+
+        for (const field of Object.keys(TASK_FIELD_KEYS) as TaskField[]) {
+          if (taskFields && !taskFields.includes(field))
+            delete taskWithMeta[TASK_FIELD_KEYS[field]];
+        }
+
+        if (result.chunk.directives?.target) {
+          taskWithMeta.targetDatabaseId = result.chunk.directives.target;
+        }
+
+        if (result.promptVersion) {
+          taskWithMeta.promptVersion = result.promptVersion;
+        }
+
+        tasks.push(taskWithMeta);
+      }
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Commit the checkpoints of files that went through cleanly and discard the rest
+   */
+  private settleCheckpoints(
+    failedFiles: Set<string>,
+    state: StateManager
+  ): { committed: number; retry: string[] } {
+    let committed = 0;
+    const retry: string[] = [];
+
+    for (const filePath of state.getStagedFiles()) {
+      if (failedFiles.has(filePath)) {
+        state.discardFileCheckpoint(filePath);
+        retry.push(filePath);
+      } else {
+        state.commitFileCheckpoint(filePath);
+        committed++;
+      }
+    }
+
+    if (retry.length > 0) {
+      logger.warn("Some files were not fully processed and will be retried next run", {
+        files: retry,
+      });
+    }
+
+    return { committed, retry };
+  }
+
+  /**
+   * Create the next instance of every recurring task marked done in Notion. Instances that
+   * are still open are left alone and deleted ones are no longer followed.
+   */
+  private async renewRecurringTasks(settings: SyncSettings, state: StateManager): Promise<number> {
+    const today = currentAnchor().date;
+    let renewed = 0;
+
+    for (const instance of state.getRecurringTasks()) {
+      const { task } = instance;
+      try {
+        const status = await notionClient.getTaskStatus(settings.notionToken, instance.pageId);
+        if (status === "missing") {
+          logger.info("Recurring task's page is gone, no longer renewing it", {
+            title: task.title,
+            pageId: instance.pageId,
+          });
+          state.untrackRecurringTask(instance.pageId);
+          continue;
+        }
+        if (status === "open") continue;
+
+        const rule = task.recurrence ? parseRecurrence(task.recurrence) : null;
+        const due = rule ? nextDue(rule, task.due, today) : null;
+        if (!due) {
+          state.untrackRecurringTask(instance.pageId);
+          continue;
+        }
+
+        const next: TaskWithMeta = {
+          ...task,
+          due,
+          hash: state.generateOccurrenceHash(task.hash, due),
+          extractedAt: new Date().toISOString(),
+        };
+        const result = await notionClient.createTask(
+          settings.notionToken,
+          instance.databaseId,
+          next
+        );
+        if (!result.success || !result.pageId) {
+          logger.warn("Failed to create the next instance of a recurring task", {
+            title: task.title,
+            error: result.error,
+          });
+          continue;
+        }
+
+        state.untrackRecurringTask(instance.pageId);
+        if (result.pageId !== "existing") {
+          state.trackRecurringTask(result.pageId, instance.databaseId, next);
+        }
+        renewed++;
+      } catch (error) {
+        logger.warn("Failed to renew recurring task", {
+          title: task.title,
+          pageId: instance.pageId,
+          error: getErrorMessage(error),
+        });
+      }
+    }
+
+    if (renewed > 0) logger.info("Renewed recurring tasks", { count: renewed });
+    return renewed;
+  }
+
+  /**
+   * Process every new or modified file in the inbox, tracking progress in the state given by
+   * the ingest options
+   */
+  async run(
+    settings: SyncSettings,
+    onStage?: (stage: SyncStage, count: number) => void | Promise<void>
+  ): Promise<SyncSummary> {
+    const state = settings.ingestOptions.state ?? stateManager;
+
+    try {
+      const chunks = await fileIngester.ingestFiles(settings.inboxDir, settings.ingestOptions);
+      const failedFiles = new Set<string>();
+
+      let extractionResults: ExtractionResult[] = [];
+      if (chunks.length > 0) {
+        await onStage?.("extracting", chunks.length);
+        // An invalid template fails the run, so its files are retried once it is fixed
+        const extraction: ExtractionOptions = { ...settings.extraction };
+        if (!extraction.template && extraction.mode !== "rules") {
+          extraction.template = loadPromptTemplate(settings.inboxDir);
+        }
+        extractionResults = await taskExtractor.extractTasksFromChunks(
+          chunks,
+          settings.llm,
+          extraction
+        );
+      }
+
+      const failedChunks = extractionResults.filter((result) => result.error);
+      failedChunks.forEach((result) => failedFiles.add(result.chunk.filePath));
+      // Rule tasks from chunks the LLM failed on are still synced, but the file is retried so
+      // its prose tasks are extracted once the LLM is back. Tasks are recognised by the line
+      // they came from, so the LLM's wording of a synced rule task isn't synced again.
+      extractionResults
+        .filter((result) => result.fallbackReason)
+        .forEach((result) => failedFiles.add(result.chunk.filePath));
+
+      const tasks = this.collectTasks(
+        extractionResults,
+        state,
+        settings.defaultTags,
+        settings.taskFields
+      );
+      let syncedTasks = 0;
+      let failedTasks = 0;
+
+      if (tasks.length > 0) {
+        await onStage?.("syncing", tasks.length);
+        const syncResults = await notionClient.syncTasks(
+          settings.notionToken,
+          settings.notionDbId,
+          tasks
+        );
+
+        syncResults.forEach((result, i) => {
+          const task = tasks[i];
+
+          if (result.success) {
+            state.markTaskProcessed(task.hash);
+            if (task.recurrence && result.pageId && result.pageId !== "existing") {
+              state.trackRecurringTask(
+                result.pageId,
+                task.targetDatabaseId || settings.notionDbId,
+                task
+              );
+            }
+            syncedTasks++;
+          } else {
+            failedTasks++;
+            failedFiles.add(task.filePath);
+            logger.warn("Task sync failed", {
+              title: task.title,
+              error: result.error,
+            });
+          }
+        });
+      }
+
+      const checkpoints = this.settleCheckpoints(failedFiles, state);
+
+      let archivedFiles = 0;
+      if (settings.archiveAfterDays) {
+        try {
+          const archived = await fileArchiver.archiveProcessed(
+            settings.inboxDir,
+            settings.ingestOptions,
+            settings.archiveAfterDays
+          );
+          archivedFiles = archived.length;
+        } catch (error) {
+          logger.warn("Failed to archive processed files", { error: getErrorMessage(error) });
+        }
+      }
+
+      const renewedTasks = await this.renewRecurringTasks(settings, state);
+
+      // Clean up old state entries and save
+      state.cleanup();
+      state.updateLastRun();
+
+      return {
+        processedChunks: chunks.length,
+        failedChunks: failedChunks.length,
+        extractedTasks: tasks.length,
+        syncedTasks,
+        failedTasks,
+        committedFiles: checkpoints.committed,
+        retryFiles: checkpoints.retry,
+        archivedFiles,
+        renewedTasks,
+      };
+    } finally {
+      // A run that threw never commits; its files are processed again next time
+      state.getStagedFiles().forEach((filePath) => state.discardFileCheckpoint(filePath));
+    }
+  }
+}
+
+export const syncPipeline = new SyncPipeline();
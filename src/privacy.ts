@@ -0,0 +1,138 @@
+/**
+ * Withholding of private content before anything is sent to OpenAI.
+ *
+ * Three kinds of region are withheld: everything between `<!-- brainpipe:ignore -->` and
+ * `<!-- /brainpipe:ignore -->`, fenced ```` ```private ```` blocks, and entries tagged
+ * `#private`. A tagged heading withholds its whole section, a tagged list item withholds the
+ * item with everything nested below it, and any other tagged line withholds its paragraph.
+ * Withheld lines are blanked rather than removed, so line numbers still match the file.
+ */
+
+export interface RedactionResult {
+  content: string;
+  withheldChars: number; // Characters withheld, not counting line breaks
+  withheldRegions: number;
+}
+
+const IGNORE_START = /<!--\s*brainpipe:ignore\s*-->/i;
+const IGNORE_END = /<!--\s*\/brainpipe:ignore\s*-->/i;
+const PRIVATE_FENCE = /^\s*(`{3,}|~{3,})\s*private\b/i;
+const PRIVATE_TAG = /(?:^|\s)#private(?![\w/-])/i;
+const HEADING = /^(#{1,6})\s/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s/;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Blank everything between ignore markers, which may open and close mid-line. An unclosed
+ * marker withholds the rest of the file.
+ */
+function withholdIgnoreMarkers(content: string, result: RedactionResult): string {
+  let output = "";
+  let rest = content;
+
+  for (let start = rest.search(IGNORE_START); start !== -1; start = rest.search(IGNORE_START)) {
+    const afterStart = rest.slice(start);
+    const end = afterStart.match(IGNORE_END);
+    const length = end?.index !== undefined ? end.index + end[0].length : afterStart.length;
+    const withheld = afterStart.slice(0, length);
+    const lineBreaks = withheld.replace(/[^\n]/g, "");
+
+    output += rest.slice(0, start) + lineBreaks;
+    result.withheldChars += withheld.length - lineBreaks.length;
+    result.withheldRegions++;
+    rest = afterStart.slice(length);
+  }
+
+  return output + rest;
+}
+
+/**
+ * Index of the last line of a region that starts at `start`, given the kind of line it opens on
+ */
+function regionEnd(lines: string[], start: number): number {
+  const line = lines[start];
+
+  const fence = line.match(PRIVATE_FENCE);
+  if (fence) {
+    const closing = new RegExp(`^\\s*${fence[1][0] === "`" ? "`" : "~"}{${fence[1].length},}\\s*$`);
+    for (let i = start + 1; i < lines.length; i++) {
+      if (closing.test(lines[i])) return i;
+    }
+    return lines.length - 1;
+  }
+
+  const heading = line.match(HEADING);
+  if (heading) {
+    const level = heading[1].length;
+    for (let i = start + 1; i < lines.length; i++) {
+      const next = lines[i].match(HEADING);
+      if (next && next[1].length <= level) return i - 1;
+    }
+    return lines.length - 1;
+  }
+
+  const listItem = line.match(LIST_ITEM);
+  if (listItem) {
+    const indent = listItem[1].length;
+    let end = start;
+    for (let i = start + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      if (indentOf(lines[i]) <= indent) break;
+      end = i;
+    }
+    return end;
+  }
+
+  let end = start;
+  while (end + 1 < lines.length && lines[end + 1].trim() && !HEADING.test(lines[end + 1])) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * First line of the paragraph a tagged plain line belongs to
+ */
+function paragraphStart(lines: string[], index: number): number {
+  let start = index;
+  while (
+    start > 0 &&
+    lines[start - 1].trim() &&
+    !HEADING.test(lines[start - 1]) &&
+    !LIST_ITEM.test(lines[start - 1])
+  ) {
+    start--;
+  }
+  return start;
+}
+
+/**
+ * Blank every private region of some content, keeping its line count
+ */
+export function withholdPrivate(content: string): RedactionResult {
+  const result: RedactionResult = { content, withheldChars: 0, withheldRegions: 0 };
+  const lines = withholdIgnoreMarkers(content, result).split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenced = PRIVATE_FENCE.test(line);
+    if (!fenced && !PRIVATE_TAG.test(line)) continue;
+
+    const isPlainLine = !fenced && !HEADING.test(line) && !LIST_ITEM.test(line);
+    const start = isPlainLine ? paragraphStart(lines, i) : i;
+    const end = regionEnd(lines, i);
+
+    for (let j = start; j <= end; j++) {
+      result.withheldChars += lines[j].length;
+      lines[j] = "";
+    }
+    result.withheldRegions++;
+    i = end;
+  }
+
+  result.content = lines.join("\n");
+  return result;
+}
@@ -0,0 +1,232 @@
+import { environment } from "@raycast/api";
+import * as fs from "fs";
+import * as path from "path";
+import { fileIngester, PROMPT_TEMPLATE_FILE } from "./ingest";
+import { parseFrontmatter } from "./frontmatter";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+/**
+ * The system and user prompts sent to the LLM for each chunk, with `{{variable}}` placeholders
+ */
+export interface PromptTemplate {
+  version: string; // Stored with extracted tasks and part of the extraction cache key
+  system: string;
+  user: string;
+  source: string; // File the template was read from, or "built-in"
+}
+
+// Values available to templates, filled in for every chunk
+export const PROMPT_VARIABLES = [
+  "content", // The chunk's braindump text
+  "chunkInfo", // " (chunk 2/3)" for files split into chunks, otherwise empty
+  "context", // Earlier entries, governing headings and tasks already found, when there are any
+  "sourceFormat", // How the file's format is laid out
+  "fileDate", // YYYY-MM-DD the braindump was written, or today when unknown
+  "fileWeekday", // Weekday of fileDate, e.g. "Friday"
+  "fileTime", // HH:MM of the entry, or "not recorded"
+  "tomorrowDate", // The day after fileDate
+  "dateOrder", // How numeric dates are read: "day/month" or "month/day"
+  "currentDate", // YYYY-MM-DD of the sync
+] as const;
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+const VERSION = /^[A-Za-z0-9._-]{1,50}$/;
+const SECTION = /^===[ \t]*(system|user)[ \t]*===[ \t]*$/gim;
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: "builtin-2",
+  source: "built-in",
+  system: `Extract actionable tasks from timestamped braindump notes. Return only JSON.
+
+<source_format>
+{{sourceFormat}}
+</source_format>
+
+<what_to_extract>
+Extract only actionable items:
+- Tasks, todos, action items, reminders with action required
+- Ignore: completed tasks, thoughts, feelings, observations
+- Preserve context and proper names
+- Use imperative titles
+</what_to_extract>
+
+<due_date_extraction_rules>
+- Extract specific times when mentioned (e.g., "call at 3pm", "meeting at 9:30am")
+- Resolve "tomorrow", "today", "Friday" etc. against the date the braindump was written, never the current date
+- For relative dates, add a specific time if context suggests one
+- Default to 09:00 for morning tasks, 14:00 for afternoon tasks, 17:00 for end-of-day
+- Use entry timestamp as context for timing (early entries = morning tasks)
+- Format: "YYYY-MM-DDTHH:MM" in 24-hour format
+</due_date_extraction_rules>
+
+<task_field_rules>
+- "priority": "urgent" for urgent/ASAP/today-critical items, "high" for important ones, "low" for nice-to-haves, "medium" only when stated; otherwise null
+- "assignee": the person a task is delegated to, as written ("ask Bob to send the deck" → "Bob", "Sarah to book venue" → "Sarah"); null for your own tasks
+- "project": the project named for the task ("for Apollo" → "Apollo"); null when none is named
+- "estimateMinutes": the stated effort in whole minutes ("~30min" → 30, "2h" → 120); never guess
+- "recurrence": for repeating tasks, an RRULE using FREQ (DAILY, WEEKLY, MONTHLY, YEARLY) with optional INTERVAL, BYDAY, BYMONTHDAY and BYMONTH ("water plants every Sunday" → "FREQ=WEEKLY;BYDAY=SU", "pay rent on the 1st of each month" → "FREQ=MONTHLY;BYMONTHDAY=1", "every other Friday" → "FREQ=WEEKLY;INTERVAL=2;BYDAY=FR", "last Friday of the month" → "FREQ=MONTHLY;BYDAY=-1FR"); null for one-off tasks. Give a repeating task once, due on its first occurrence
+- Don't repeat these values in tags
+</task_field_rules>
+
+<return_format>
+{
+  "tasks": [
+    {
+      "title": "string",
+      "due": "YYYY-MM-DDTHH:MM" | "YYYY-MM-DD" | null,
+      "tags": ["string"] | null,
+      "priority": "urgent" | "high" | "medium" | "low" | null,
+      "assignee": "string" | null,
+      "project": "string" | null,
+      "estimateMinutes": number | null,
+      "recurrence": "string" | null,
+      "source": "string"
+    }
+  ]
+}
+
+"source" is the braindump line the task comes from, copied exactly. Include every line when a task spans several.
+Titles are at most 200 characters. Give at most 10 tags per task, each without commas. Assignee and project are at most 100 characters; estimateMinutes is at most 10080.
+</return_format>
+`,
+  user: `Extract from braindump{{chunkInfo}}:
+{{context}}
+<braindump>
+{{content}}
+</braindump>
+
+<braindump_datetime>
+Important: The braindump was written at this time. Resolve relative due dates against it.
+Date: {{fileDate}} ({{fileWeekday}})
+Time: {{fileTime}}
+Numeric dates such as 05/01 are {{dateOrder}}.
+</braindump_datetime>
+
+<examples>
+Extract actionable tasks like:
+✓ - [ ] Buy milk
+✓ - call John tomorrow at 2pm
+✓ TODO: send invoice due:16/08 9am
+✓ remind Sarah about meeting at 10:30
+✓ need to review proposal by end of day
+✓ dentist appointment Friday 3pm
+✓ follow up call at 9am
+
+Ignore non-actionable:
+✗ - [x] completed tasks
+✗ feeling tired today
+✗ random observation
+
+Time extraction examples:
+"call at 3pm" → "{{fileDate}}T15:00"
+"meeting tomorrow 9:30am" → "{{tomorrowDate}}T09:30"
+"deadline tomorrow" → "{{tomorrowDate}}T17:00"
+"follow up today" → "{{fileDate}}T14:00" (use entry time context)
+
+Field extraction example:
+"urgent: ask Bob to send the deck for Apollo ~30min" → title "Ask Bob to send the deck", priority "urgent", assignee "Bob", project "Apollo", estimateMinutes 30
+</examples>
+
+JSON only:`,
+};
+
+/**
+ * Reject placeholders in a section that name no variable
+ */
+function checkPlaceholders(text: string, section: "system" | "user", label: string): void {
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    if (!(PROMPT_VARIABLES as readonly string[]).includes(match[1])) {
+      throw new Error(
+        `${label}: unknown variable ${match[0]} in the ${section} section; use ${PROMPT_VARIABLES.map((name) => `{{${name}}}`).join(", ")}`
+      );
+    }
+  }
+}
+
+/**
+ * Validate a prompt template file: frontmatter with a `version`, then a `=== system ===` and
+ * a `=== user ===` section. The user section must include `{{content}}`.
+ */
+export function parsePromptTemplate(text: string, source: string): PromptTemplate {
+  const label = `Prompt template ${source}`;
+  const { data, body } = parseFrontmatter(text);
+
+  const version = typeof data.version === "string" ? data.version.trim() : "";
+  if (!version) {
+    throw new Error(`${label}: missing "version" in its frontmatter`);
+  }
+  if (!VERSION.test(version)) {
+    throw new Error(
+      `${label}: "version" may only contain letters, digits, ".", "-" and "_" (at most 50)`
+    );
+  }
+
+  const sections: Partial<Record<"system" | "user", string>> = {};
+  const markers = Array.from(body.matchAll(SECTION));
+  if (markers.length === 0 || body.slice(0, markers[0].index).trim()) {
+    throw new Error(`${label}: must start with a "=== system ===" or "=== user ===" line`);
+  }
+
+  markers.forEach((marker, i) => {
+    const name = marker[1].toLowerCase() as "system" | "user";
+    if (sections[name] !== undefined) {
+      throw new Error(`${label}: more than one "=== ${name} ===" section`);
+    }
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index : body.length;
+    sections[name] = body
+      .slice(start, end)
+      .replace(/^\r?\n/, "")
+      .trimEnd();
+  });
+
+  for (const name of ["system", "user"] as const) {
+    if (!sections[name]?.trim()) {
+      throw new Error(`${label}: the "=== ${name} ===" section is missing or empty`);
+    }
+    checkPlaceholders(sections[name]!, name, label);
+  }
+  if (!/\{\{\s*content\s*\}\}/.test(sections.user!)) {
+    throw new Error(`${label}: the user section must include {{content}}`);
+  }
+
+  return { version, system: sections.system!, user: sections.user!, source };
+}
+
+/**
+ * The prompt template for an inbox: `brainpipe-prompt.txt` in the inbox, then in the support
+ * folder, otherwise the built-in one. Throws when the file found is invalid.
+ */
+export function loadPromptTemplate(inboxDir?: string): PromptTemplate {
+  const candidates = [
+    ...(inboxDir ? [path.join(fileIngester.expandPath(inboxDir), PROMPT_TEMPLATE_FILE)] : []),
+    path.join(environment.supportPath, PROMPT_TEMPLATE_FILE),
+  ];
+
+  const templatePath = candidates.find((candidate) => fs.existsSync(candidate));
+  if (!templatePath) return DEFAULT_PROMPT_TEMPLATE;
+
+  let text: string;
+  try {
+    text = fs.readFileSync(templatePath, "utf8");
+  } catch (error) {
+    throw new Error(`Cannot read prompt template ${templatePath}: ${getErrorMessage(error)}`);
+  }
+  return parsePromptTemplate(text, templatePath);
+}
+
+/**
+ * Fill in a template's placeholders
+ */
+export function renderPrompt(text: string, variables: Record<PromptVariable, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in variables ? variables[name as PromptVariable] : placeholder
+  );
+}
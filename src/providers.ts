@@ -0,0 +1,411 @@
+/**
+ * Chat providers the extractor can send prompts to. Each provider turns a system and user
+ * prompt into one request asking for a JSON object, and turns failures into a ProviderError
+ * so retries and messages work the same whichever API is behind it.
+ */
+
+export type LlmProviderId = "openai" | "azure" | "anthropic" | "ollama" | "openai-compatible";
+
+// How the API key is sent: `Authorization: Bearer`, an `api-key` header, an `x-api-key` header, or not at all
+export type AuthScheme = "bearer" | "api-key" | "x-api-key" | "none";
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  apiKey: string;
+  model: string; // Model name, or the deployment name for Azure
+  baseUrl?: string; // Overrides the provider's default API location
+  authScheme?: AuthScheme; // Overrides the provider's usual scheme, e.g. for a gateway
+}
+
+export interface LlmPreferences {
+  llmProvider?: string;
+  llmBaseUrl?: string;
+  llmAuthScheme?: string;
+  openaiKey?: string;
+  openaiModel?: string;
+}
+
+export interface ChatRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  name: string;
+  defaultBaseUrl: string | null; // Null when the base URL has to be configured
+  authScheme: AuthScheme;
+  chat(settings: LlmSettings, request: ChatRequest): Promise<string>;
+  /**
+   * Check the service can be reached and the model is available, without spending tokens.
+   * Returns a description of the problem, or null when all is well.
+   */
+  checkAvailability?(settings: LlmSettings): Promise<string | null>;
+}
+
+/**
+ * A failed provider request. Rate limits carry how long the provider asked us to wait.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null, // Null when the provider could not be reached
+    readonly rateLimited = false,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+interface AnthropicResponse {
+  content?: Array<{ type: string; text?: string }>;
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+}
+
+const AZURE_API_VERSION = "2024-10-21";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+function baseUrlFor(provider: LlmProvider, settings: LlmSettings): string {
+  const baseUrl = settings.baseUrl?.trim() || provider.defaultBaseUrl;
+  if (!baseUrl) {
+    throw new ProviderError(`${provider.name} needs a base URL`, null);
+  }
+  return baseUrl.replace(/\/+$/, "");
+}
+
+function authHeaders(provider: LlmProvider, settings: LlmSettings): Record<string, string> {
+  const scheme = settings.authScheme ?? provider.authScheme;
+  if (scheme === "none" || !settings.apiKey) return {};
+  if (scheme === "api-key") return { "api-key": settings.apiKey };
+  if (scheme === "x-api-key") return { "x-api-key": settings.apiKey };
+  return { Authorization: `Bearer ${settings.apiKey}` };
+}
+
+/**
+ * Milliseconds from a `retry-after-ms` or `retry-after` header (seconds or an HTTP date)
+ */
+function retryAfterMs(response: Response): number | null {
+  const header = (name: string) => response.headers?.get?.(name) ?? null;
+
+  const ms = Number(header("retry-after-ms"));
+  if (ms > 0) return ms;
+
+  const value = header("retry-after");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Pull a readable message out of an error body: `{error: {message}}` (OpenAI, Azure,
+ * Anthropic), `{error: "..."}` (Ollama) or `{message}`, falling back to the raw body
+ */
+function errorMessageFrom(body: string, status: number): string {
+  try {
+    const json = JSON.parse(body);
+    const message =
+      typeof json.error === "string" ? json.error : json.error?.message || json.message;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // Not JSON, use the raw body
+  }
+  return body || `HTTP ${status}`;
+}
+
+/**
+ * POST JSON to a provider and return the parsed reply, normalising every failure
+ */
+async function postJson<T>(
+  provider: LlmProvider,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  rateLimitStatuses = [429]
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new ProviderError(`Cannot reach ${provider.name}: ${getErrorMessage(error)}`, null);
+  }
+
+  if (!response.ok) {
+    const rateLimited = rateLimitStatuses.includes(response.status);
+    throw new ProviderError(
+      `${provider.name} API error: ${errorMessageFrom(await response.text(), response.status)}`,
+      response.status,
+      rateLimited,
+      rateLimited ? retryAfterMs(response) : null
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Reply text of a chat completions response
+ */
+function completionContent(provider: LlmProvider, data: ChatCompletionResponse): string {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") {
+    throw new ProviderError(`No response from ${provider.name} API`, null);
+  }
+  return content;
+}
+
+const openaiProvider: LlmProvider = {
+  id: "openai",
+  name: "OpenAI",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  authScheme: "bearer",
+  async chat(settings, request) {
+    const data = await postJson<ChatCompletionResponse>(
+      this,
+      `${baseUrlFor(this, settings)}/chat/completions`,
+      authHeaders(this, settings),
+      {
+        model: settings.model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        max_completion_tokens: request.maxTokens,
+        text: {
+          format: {
+            type: "json_object",
+          },
+          verbosity: "medium",
+        },
+        reasoning: {
+          effort: "medium",
+          summary: "auto",
+        },
+      }
+    );
+    return completionContent(this, data);
+  },
+};
+
+const azureProvider: LlmProvider = {
+  id: "azure",
+  name: "Azure OpenAI",
+  defaultBaseUrl: null, // https://<resource>.openai.azure.com/openai/deployments/<deployment>
+  authScheme: "api-key",
+  async chat(settings, request) {
+    const baseUrl = baseUrlFor(this, settings);
+    const [path, query] = baseUrl.split("?");
+    const params = new URLSearchParams(query);
+    if (!params.has("api-version")) params.set("api-version", AZURE_API_VERSION);
+
+    const data = await postJson<ChatCompletionResponse>(
+      this,
+      `${path.replace(/\/+$/, "")}/chat/completions?${params}`,
+      authHeaders(this, settings),
+      {
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        max_completion_tokens: request.maxTokens,
+        response_format: { type: "json_object" },
+      }
+    );
+    return completionContent(this, data);
+  },
+};
+
+const openaiCompatibleProvider: LlmProvider = {
+  id: "openai-compatible",
+  name: "OpenAI-compatible gateway",
+  defaultBaseUrl: null,
+  authScheme: "bearer",
+  async chat(settings, request) {
+    const data = await postJson<ChatCompletionResponse>(
+      this,
+      `${baseUrlFor(this, settings)}/chat/completions`,
+      authHeaders(this, settings),
+      {
+        model: settings.model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        max_tokens: request.maxTokens,
+        response_format: { type: "json_object" },
+      }
+    );
+    return completionContent(this, data);
+  },
+};
+
+const anthropicProvider: LlmProvider = {
+  id: "anthropic",
+  name: "Anthropic",
+  defaultBaseUrl: "https://api.anthropic.com/v1",
+  authScheme: "x-api-key",
+  async chat(settings, request) {
+    // 529 means the API is overloaded, which is retried like a rate limit
+    const data = await postJson<AnthropicResponse>(
+      this,
+      `${baseUrlFor(this, settings)}/messages`,
+      { ...authHeaders(this, settings), "anthropic-version": ANTHROPIC_VERSION },
+      {
+        model: settings.model,
+        system: `${request.system}\nRespond with a single JSON object and nothing else.`,
+        messages: [{ role: "user", content: request.user }],
+        max_tokens: request.maxTokens,
+      },
+      [429, 529]
+    );
+
+    const text = (data?.content || [])
+      .filter((block) => block?.type === "text")
+      .map((block) => block.text || "")
+      .join("");
+    if (!text) {
+      throw new ProviderError(`No response from ${this.name} API`, null);
+    }
+
+    // Claude sometimes wraps JSON in a code fence despite being asked not to
+    return text.replace(/^\s*```(?:json)?\s*\n([\s\S]*?)\n\s*```\s*$/, "$1");
+  },
+};
+
+const ollamaProvider: LlmProvider = {
+  id: "ollama",
+  name: "Ollama",
+  defaultBaseUrl: "http://localhost:11434",
+  authScheme: "none",
+  async chat(settings, request) {
+    const data = await postJson<OllamaChatResponse>(
+      this,
+      `${baseUrlFor(this, settings)}/api/chat`,
+      authHeaders(this, settings),
+      {
+        model: settings.model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        stream: false,
+        format: "json",
+        options: { num_predict: request.maxTokens },
+      }
+    );
+
+    const content = data?.message?.content;
+    if (typeof content !== "string") {
+      throw new ProviderError(`No response from ${this.name}`, null);
+    }
+    return content;
+  },
+  async checkAvailability(settings) {
+    const baseUrl = baseUrlFor(this, settings);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/api/tags`, { headers: authHeaders(this, settings) });
+    } catch (error) {
+      return `Ollama is not running at ${baseUrl}: ${getErrorMessage(error)}`;
+    }
+    if (!response.ok) {
+      return `Ollama at ${baseUrl} returned HTTP ${response.status}`;
+    }
+
+    const data = (await response.json()) as { models?: Array<{ name: string }> };
+    const names = (data.models || []).map((model) => model.name);
+    const wanted = settings.model.includes(":") ? settings.model : `${settings.model}:latest`;
+    if (!names.includes(settings.model) && !names.includes(wanted)) {
+      return `Model ${settings.model} is not available; run \`ollama pull ${settings.model}\``;
+    }
+    return null;
+  },
+};
+
+class LlmProviderRegistry {
+  private providers: LlmProvider[] = [
+    openaiProvider,
+    azureProvider,
+    anthropicProvider,
+    ollamaProvider,
+    openaiCompatibleProvider,
+  ];
+
+  /**
+   * Look up a provider by its ID, falling back to OpenAI
+   */
+  get(id: string | undefined): LlmProvider {
+    return this.providers.find((provider) => provider.id === id) || openaiProvider;
+  }
+
+  /**
+   * Check a provider ID is one of the built-in providers
+   */
+  has(id: string | undefined): boolean {
+    return this.providers.some((provider) => provider.id === id);
+  }
+}
+
+export const llmProviders = new LlmProviderRegistry();
+
+const AUTH_SCHEMES: AuthScheme[] = ["bearer", "api-key", "x-api-key", "none"];
+
+/**
+ * Provider settings from the extension preferences. An auth scheme of "default" or an empty
+ * value keeps the provider's usual scheme.
+ */
+export function resolveLlmSettings(preferences: LlmPreferences): LlmSettings {
+  const provider = llmProviders.get(preferences.llmProvider).id;
+  const authScheme = AUTH_SCHEMES.find((scheme) => scheme === preferences.llmAuthScheme);
+  const baseUrl = preferences.llmBaseUrl?.trim();
+
+  return {
+    provider,
+    apiKey: preferences.openaiKey?.trim() || "",
+    model: preferences.openaiModel?.trim() || "",
+    ...(baseUrl ? { baseUrl } : {}),
+    ...(authScheme ? { authScheme } : {}),
+  };
+}
+
+/**
+ * Settings a provider needs that haven't been configured, e.g. ["API key"]
+ */
+export function missingLlmSettings(settings: LlmSettings): string[] {
+  const provider = llmProviders.get(settings.provider);
+  const missing: string[] = [];
+
+  if ((settings.authScheme ?? provider.authScheme) !== "none" && !settings.apiKey) {
+    missing.push(`${provider.name} API key`);
+  }
+  if (!settings.model) {
+    missing.push(`${provider.name} model`);
+  }
+  if (!provider.defaultBaseUrl && !settings.baseUrl) {
+    missing.push(`${provider.name} base URL`);
+  }
+
+  return missing;
+}
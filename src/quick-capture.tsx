@@ -0,0 +1,162 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  getPreferenceValues,
+  Icon,
+  popToRoot,
+  showHUD,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useState } from "react";
+import * as path from "path";
+import { quickCapture } from "./capture";
+import { syncPipeline } from "./pipeline";
+import { loadRoutes, routeIngestOptions, routeTaskFields } from "./routes";
+import { resolveLlmSettings } from "./providers";
+import { resolveExtractionOptions } from "./extractor";
+import { DEFAULT_ROUTE_ID } from "./state";
+import { logger } from "./log";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+interface Preferences {
+  inboxDir: string;
+  includeGlobs?: string;
+  excludeGlobs?: string;
+  maxScanDepth?: string;
+  chunkOverlapLines?: string;
+  routesFile?: string;
+  llmProvider?: string;
+  llmBaseUrl?: string;
+  llmAuthScheme?: string;
+  openaiKey: string;
+  openaiModel: string;
+  extractionMode?: string;
+  ruleFallback?: boolean;
+  dateOrder?: string;
+  taskFields?: string;
+  notionToken: string;
+  notionDbId: string;
+}
+
+interface CaptureValues {
+  entry: string;
+}
+
+/**
+ * Sync today's file straight away. The pipeline tracks progress per file, so every entry of
+ * today's file that hasn't been synced yet goes along with the one just captured.
+ */
+async function syncCapturedFile(preferences: Preferences, filePath: string): Promise<number> {
+  const route = loadRoutes(preferences).find((candidate) => candidate.id === DEFAULT_ROUTE_ID);
+  if (!route) {
+    throw new Error("Brain dump directory not configured");
+  }
+
+  const summary = await syncPipeline.run({
+    inboxDir: route.inboxDir,
+    ingestOptions: { ...routeIngestOptions(route, preferences), files: [filePath] },
+    llm: resolveLlmSettings(preferences),
+    extraction: resolveExtractionOptions(preferences),
+    notionToken: preferences.notionToken,
+    notionDbId: route.notionDbId,
+    taskFields: routeTaskFields(route, preferences),
+  });
+
+  logger.info("Quick capture sync completed", {
+    ...summary,
+    retryFiles: summary.retryFiles.length,
+  });
+
+  if (summary.retryFiles.length > 0) {
+    throw new Error("Sync failed; today's file will be retried on the next run");
+  }
+
+  return summary.syncedTasks;
+}
+
+/**
+ * Form that appends a timestamped entry to today's braindump file
+ */
+export default function Command() {
+  const preferences = getPreferenceValues<Preferences>();
+  const [entryError, setEntryError] = useState<string | undefined>();
+
+  async function capture(values: CaptureValues, syncNow: boolean) {
+    if (!values.entry.trim()) {
+      setEntryError("Write something to capture");
+      return;
+    }
+
+    try {
+      const captured = await quickCapture.appendEntry(preferences.inboxDir, values.entry);
+      const fileName = path.basename(captured.filePath);
+
+      if (!syncNow) {
+        await showHUD(`📝 Captured to ${fileName}`);
+        await popToRoot();
+        return;
+      }
+
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Syncing today's file...",
+        message: `Captured to ${fileName}`,
+      });
+
+      const synced = await syncCapturedFile(preferences, captured.filePath);
+      await showHUD(
+        synced > 0
+          ? `✅ Captured and synced ${synced} task${synced === 1 ? "" : "s"} to Notion`
+          : "✅ Captured, no tasks found"
+      );
+      await popToRoot();
+    } catch (error) {
+      logger.error("Quick capture failed", { error: getErrorMessage(error) });
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Quick Capture Failed",
+        message: getErrorMessage(error),
+      });
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Capture"
+            icon={Icon.Pencil}
+            onSubmit={(values: CaptureValues) => capture(values, false)}
+          />
+          <Action.SubmitForm
+            title="Capture and Sync Today's File"
+            icon={Icon.Upload}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "enter" }}
+            onSubmit={(values: CaptureValues) => capture(values, true)}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        id="entry"
+        title="Entry"
+        placeholder="- [ ] call John tomorrow at 2pm"
+        error={entryError}
+        onChange={() => setEntryError(undefined)}
+        autoFocus
+      />
+      <Form.Description
+        text={`Appended to today's file in ${preferences.inboxDir}. Syncing now also syncs its other unsynced entries.`}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,273 @@
+import { addDays, addMonths, endOfMonth, isIsoDate, weekdayIndex } from "./dates";
+
+/**
+ * Recurrence rules in a subset of iCalendar RRULE syntax: `FREQ` (DAILY, WEEKLY, MONTHLY or
+ * YEARLY), `INTERVAL`, `BYDAY` (weekdays, or one weekday with an ordinal such as `1MO` or
+ * `-1FR` in monthly rules), `BYMONTHDAY` (1 to 31, or -1 for the last day) and `BYMONTH`.
+ * Occurrences are dates; a task's due time carries over from one occurrence to the next.
+ * A month without the rule's day, such as the 31st, uses its last day instead.
+ */
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceDay {
+  day: number; // 0 for Sunday to 6 for Saturday
+  ordinal?: number; // 1 to 5 for the nth such day of the month, -1 to -5 counting from the end
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: RecurrenceDay[];
+  byMonthDay?: number;
+  byMonth?: number;
+}
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MAX_INTERVAL = 99;
+// Periods searched for an occurrence before giving up on a rule that never matches
+const MAX_PERIODS = 400;
+
+// Shorthands accepted besides RRULE syntax, e.g. in `repeat:` tokens
+const SHORTHANDS: Record<string, RecurrenceRule> = {
+  daily: { freq: "DAILY", interval: 1 },
+  weekly: { freq: "WEEKLY", interval: 1 },
+  fortnightly: { freq: "WEEKLY", interval: 2 },
+  biweekly: { freq: "WEEKLY", interval: 2 },
+  monthly: { freq: "MONTHLY", interval: 1 },
+  yearly: { freq: "YEARLY", interval: 1 },
+  annually: { freq: "YEARLY", interval: 1 },
+  weekdays: {
+    freq: "WEEKLY",
+    interval: 1,
+    byDay: [1, 2, 3, 4, 5].map((day) => ({ day })),
+  },
+};
+
+function parseInteger(value: string, min: number, max: number): number | null {
+  if (!/^[+-]?\d+$/.test(value)) return null;
+  const number = Number(value);
+  return number >= min && number <= max ? number : null;
+}
+
+function parseDay(value: string): RecurrenceDay | null {
+  const match = value.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) return null;
+
+  const day = DAY_CODES.indexOf(match[2]);
+  if (match[1] === undefined) return { day };
+
+  const ordinal = parseInteger(match[1], -5, 5);
+  return ordinal ? { day, ordinal } : null;
+}
+
+/**
+ * A weekday name or abbreviation ("sun", "Tuesday", "th") as a day number
+ */
+function dayFromName(value: string): number | null {
+  const code = DAY_CODES.indexOf(value.toUpperCase());
+  if (code >= 0) return code;
+  const index = DAY_NAMES.findIndex((name) => value.length >= 3 && name.startsWith(value));
+  return index >= 0 ? index : null;
+}
+
+/**
+ * Parse RRULE syntax such as `FREQ=WEEKLY;BYDAY=SU` (an `RRULE:` prefix is allowed), or a
+ * shorthand: daily, weekly, fortnightly, monthly, yearly, weekdays, or a comma-separated list
+ * of weekdays such as `mon,thu`. Returns null for anything outside the supported subset.
+ */
+export function parseRecurrence(value: string): RecurrenceRule | null {
+  const text = value.trim().replace(/^RRULE:/i, "");
+  if (!text) return null;
+
+  const shorthand = SHORTHANDS[text.toLowerCase()];
+  if (shorthand) return { ...shorthand };
+
+  if (!text.includes("=")) {
+    const days = text
+      .toLowerCase()
+      .split(",")
+      .map((name) => dayFromName(name.trim()));
+    if (days.some((day) => day === null)) return null;
+    return { freq: "WEEKLY", interval: 1, byDay: (days as number[]).map((day) => ({ day })) };
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of text.toUpperCase().split(";")) {
+    if (!part) continue;
+    const [key, ruleValue, extra] = part.split("=");
+    if (!ruleValue || extra !== undefined || key in parts) return null;
+    parts[key] = ruleValue;
+  }
+
+  const freq = FREQUENCIES.find((frequency) => frequency === parts.FREQ);
+  if (!freq) return null;
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, ruleValue] of Object.entries(parts)) {
+    if (key === "FREQ") continue;
+
+    if (key === "INTERVAL") {
+      const interval = parseInteger(ruleValue, 1, MAX_INTERVAL);
+      if (!interval) return null;
+      rule.interval = interval;
+    } else if (key === "BYDAY") {
+      const days = ruleValue.split(",").map(parseDay);
+      if (days.some((day) => !day)) return null;
+      rule.byDay = days as RecurrenceDay[];
+    } else if (key === "BYMONTHDAY") {
+      const day = parseInteger(ruleValue, -1, 31);
+      if (!day) return null;
+      rule.byMonthDay = day;
+    } else if (key === "BYMONTH") {
+      const month = parseInteger(ruleValue, 1, 12);
+      if (!month) return null;
+      rule.byMonth = month;
+    } else {
+      return null;
+    }
+  }
+
+  const ordinals = rule.byDay?.filter((day) => day.ordinal !== undefined) ?? [];
+  if (ordinals.length > 0 && (freq !== "MONTHLY" || rule.byDay!.length !== 1)) return null;
+  if (freq === "MONTHLY" && rule.byDay && ordinals.length === 0) return null;
+  if (rule.byDay && (freq === "YEARLY" || rule.byMonthDay !== undefined)) return null;
+  if (rule.byMonthDay !== undefined && freq !== "MONTHLY" && freq !== "YEARLY") return null;
+  if (rule.byMonth !== undefined && freq !== "YEARLY") return null;
+
+  return rule;
+}
+
+/**
+ * A rule in canonical RRULE syntax, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR`
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth !== undefined) parts.push(`BYMONTH=${rule.byMonth}`);
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.byDay) {
+    const days = rule.byDay.map((day) => `${day.ordinal ?? ""}${DAY_CODES[day.day]}`);
+    parts.push(`BYDAY=${days.join(",")}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * A day of the given month, clamped to the month's last day; negative days count from the end
+ */
+function dayOfMonth(monthStart: string, day: number): string {
+  const lastDay = Number(endOfMonth(monthStart).slice(8));
+  const target = day > 0 ? Math.min(day, lastDay) : Math.max(1, lastDay + 1 + day);
+  return `${monthStart.slice(0, 8)}${String(target).padStart(2, "0")}`;
+}
+
+/**
+ * The nth given weekday of a month, or null when the month has fewer
+ */
+function nthWeekday(monthStart: string, { day, ordinal = 1 }: RecurrenceDay): string | null {
+  if (ordinal > 0) {
+    const first = addDays(monthStart, (day - weekdayIndex(monthStart) + 7) % 7);
+    const date = addDays(first, (ordinal - 1) * 7);
+    return date.slice(0, 7) === monthStart.slice(0, 7) ? date : null;
+  }
+
+  const monthEnd = endOfMonth(monthStart);
+  const last = addDays(monthEnd, -((weekdayIndex(monthEnd) - day + 7) % 7));
+  const date = addDays(last, (ordinal + 1) * 7);
+  return date.slice(0, 7) === monthStart.slice(0, 7) ? date : null;
+}
+
+/**
+ * The occurrence of a monthly or yearly rule within the month starting at monthStart
+ */
+function occurrenceInMonth(rule: RecurrenceRule, monthStart: string, start: string): string | null {
+  if (rule.byDay) return nthWeekday(monthStart, rule.byDay[0]);
+  return dayOfMonth(monthStart, rule.byMonthDay ?? Number(start.slice(8)));
+}
+
+/**
+ * The first occurrence strictly after a date. Intervals count from `start`, the series' first
+ * occurrence, which defaults to `after`; `after` is only the lower bound, so a series keeps its
+ * cadence however late it is looked at. Rules without BYDAY, BYMONTHDAY or BYMONTH repeat on
+ * the weekday, day or date of `start`. Null when the rule never matches.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  after: string,
+  start: string = after
+): string | null {
+  if (!isIsoDate(after) || !isIsoDate(start)) return null;
+  const days = rule.byDay?.map((day) => day.day);
+
+  if (rule.freq === "DAILY" || rule.freq === "WEEKLY") {
+    // Weeks start on Monday; weekly intervals count whole weeks from the one `start` is in
+    const dayMs = 24 * 60 * 60 * 1000;
+    const weekStart = (date: string) => addDays(date, -((weekdayIndex(date) + 6) % 7));
+    const periodsSinceStart = (date: string) =>
+      rule.freq === "DAILY"
+        ? Math.round((Date.parse(date) - Date.parse(start)) / dayMs)
+        : Math.round((Date.parse(weekStart(date)) - Date.parse(weekStart(start))) / (7 * dayMs));
+
+    for (let offset = 1; offset <= MAX_PERIODS * 7; offset++) {
+      const date = addDays(after, offset);
+      const matchesDay = days
+        ? days.includes(weekdayIndex(date))
+        : rule.freq === "DAILY" || weekdayIndex(date) === weekdayIndex(start);
+      if (periodsSinceStart(date) % rule.interval === 0 && matchesDay) return date;
+    }
+    return null;
+  }
+
+  const monthStep = (rule.freq === "YEARLY" ? 12 : 1) * rule.interval;
+  const firstMonth =
+    rule.freq === "YEARLY"
+      ? `${start.slice(0, 4)}-${rule.byMonth ? String(rule.byMonth).padStart(2, "0") : start.slice(5, 7)}-01`
+      : `${start.slice(0, 7)}-01`;
+  const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7));
+  // Jump to the last period starting no later than the month `after` is in
+  const skipped = Math.max(0, Math.floor((monthIndex(after) - monthIndex(firstMonth)) / monthStep));
+
+  for (let period = skipped; period <= skipped + MAX_PERIODS; period++) {
+    // The first periods may fall before `after`; they are skipped below
+    const monthStart = addMonths(firstMonth, period * monthStep);
+    const date = occurrenceInMonth(rule, monthStart, start);
+    if (date && date > after) return date;
+  }
+  return null;
+}
+
+/**
+ * Split a due value into its date and optional `THH:MM` time
+ */
+function splitDue(due: string): { date: string; time: string } {
+  return { date: due.slice(0, 10), time: due.slice(10) };
+}
+
+/**
+ * Due value of a recurring task's first occurrence: the first on or after the later of the
+ * anchor date and the due date given, keeping any time of day the due date had
+ */
+export function firstDue(
+  rule: RecurrenceRule,
+  due: string | null,
+  anchorDate: string
+): string | null {
+  const { date, time } = splitDue(due ?? anchorDate);
+  const from = date > anchorDate ? date : anchorDate;
+  const occurrence = nextOccurrence(rule, addDays(from, -1), date);
+  return occurrence ? `${occurrence}${time}` : null;
+}
+
+/**
+ * Due value of the occurrence after the current one. An instance completed late skips the
+ * occurrences that have passed, so the next one is never before today.
+ */
+export function nextDue(rule: RecurrenceRule, due: string | null, today: string): string | null {
+  const { date, time } = splitDue(due ?? today);
+  const yesterday = addDays(today, -1);
+  const occurrence = nextOccurrence(rule, date > yesterday ? date : yesterday, date);
+  return occurrence ? `${occurrence}${time}` : null;
+}
@@ -0,0 +1,178 @@
+import * as fs from "fs";
+import { fileIngester, IngestOptions, resolveIngestOptions } from "./ingest";
+import { parseGlobList } from "./glob";
+import { DEFAULT_ROUTE_ID, getRouteStateManager, TASK_FIELDS, TaskField } from "./state";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+/**
+ * An inbox directory and the Notion database its tasks are synced to
+ */
+export interface SyncRoute {
+  id: string; // Names the route's state file, `state-<id>.json`
+  inboxDir: string;
+  notionDbId: string;
+  include?: string[]; // Override the include and exclude preferences for this inbox
+  exclude?: string[];
+  tags?: string[]; // Added to every task from this inbox
+  fields?: TaskField[]; // Override the task fields preference for this route's database
+}
+
+export interface RoutePreferences {
+  inboxDir: string;
+  notionDbId: string;
+  routesFile?: string;
+  includeGlobs?: string;
+  excludeGlobs?: string;
+  maxScanDepth?: string;
+  chunkOverlapLines?: string;
+  openaiModel?: string;
+  taskFields?: string;
+}
+
+const ROUTE_ID = /^[A-Za-z0-9_-]+$/;
+
+function readStringList(value: unknown, field: string, label: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string") return parseGlobList(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value.map((item) => item.trim()).filter(Boolean);
+  }
+  throw new Error(`${label}: "${field}" must be a list of strings`);
+}
+
+function readTaskFields(names: string[], label: string): TaskField[] {
+  const unknown = names.find((name) => !(TASK_FIELDS as readonly string[]).includes(name));
+  if (unknown !== undefined) {
+    throw new Error(`${label}: unknown task field "${unknown}"; use ${TASK_FIELDS.join(", ")}`);
+  }
+  return names.filter((name, index) => names.indexOf(name) === index) as TaskField[];
+}
+
+function readRequiredString(value: unknown, field: string, label: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${label}: "${field}" is required`);
+  }
+  return value.trim();
+}
+
+/**
+ * Validate the routes listed in a routes file. The file holds a JSON array of
+ * `{ id, inboxDir, notionDbId, include?, exclude?, tags?, fields? }` objects.
+ */
+export function parseRoutes(json: string): SyncRoute[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Routes file is not valid JSON: ${getErrorMessage(error)}`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error("Routes file must contain a JSON array of routes");
+  }
+
+  const seen = new Set<string>([DEFAULT_ROUTE_ID]);
+
+  return parsed.map((entry: unknown, index) => {
+    const label = `Route ${index + 1}`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`${label}: must be an object`);
+    }
+
+    const raw = entry as Record<string, unknown>;
+    const id = readRequiredString(raw.id, "id", label);
+    if (!ROUTE_ID.test(id)) {
+      throw new Error(`${label}: "id" may only contain letters, digits, "-" and "_"`);
+    }
+    if (seen.has(id)) {
+      throw new Error(
+        id === DEFAULT_ROUTE_ID
+          ? `${label}: "${DEFAULT_ROUTE_ID}" is reserved for the inbox set in preferences`
+          : `${label}: duplicate id "${id}"`
+      );
+    }
+    seen.add(id);
+
+    const route: SyncRoute = {
+      id,
+      inboxDir: readRequiredString(raw.inboxDir, "inboxDir", label),
+      notionDbId: readRequiredString(raw.notionDbId, "notionDbId", label),
+    };
+
+    const include = readStringList(raw.include, "include", label);
+    const exclude = readStringList(raw.exclude, "exclude", label);
+    const tags = readStringList(raw.tags, "tags", label)
+      ?.map((tag) => tag.replace(/^#/, ""))
+      .filter(Boolean);
+
+    if (include && include.length > 0) route.include = include;
+    if (exclude) route.exclude = exclude;
+    if (tags && tags.length > 0) route.tags = tags;
+
+    const fields = readStringList(raw.fields, "fields", label);
+    if (fields)
+      route.fields = readTaskFields(
+        fields.map((field) => field.toLowerCase()),
+        label
+      );
+
+    return route;
+  });
+}
+
+/**
+ * The default route from the inbox and database preferences, followed by every route in the
+ * routes file
+ */
+export function loadRoutes(preferences: RoutePreferences): SyncRoute[] {
+  const routes: SyncRoute[] = [
+    { id: DEFAULT_ROUTE_ID, inboxDir: preferences.inboxDir, notionDbId: preferences.notionDbId },
+  ];
+
+  if (preferences.routesFile?.trim()) {
+    const routesPath = fileIngester.expandPath(preferences.routesFile.trim());
+    let json: string;
+    try {
+      json = fs.readFileSync(routesPath, "utf8");
+    } catch (error) {
+      throw new Error(`Cannot read routes file ${routesPath}: ${getErrorMessage(error)}`);
+    }
+    routes.push(...parseRoutes(json));
+  }
+
+  return routes;
+}
+
+/**
+ * Ingest options for a route: the shared preferences with the route's own globs and state
+ */
+export function routeIngestOptions(route: SyncRoute, preferences: RoutePreferences): IngestOptions {
+  const options = resolveIngestOptions(preferences);
+
+  return {
+    ...options,
+    include: route.include ?? options.include,
+    exclude: route.exclude ?? options.exclude,
+    state: getRouteStateManager(route.id),
+  };
+}
+
+/**
+ * Task fields written to a route's database: the route's own list, otherwise the task fields
+ * preference, otherwise all of them
+ */
+export function routeTaskFields(route: SyncRoute, preferences: RoutePreferences): TaskField[] {
+  if (route.fields) return route.fields;
+  if (preferences.taskFields === undefined) return [...TASK_FIELDS];
+
+  return readTaskFields(
+    parseGlobList(preferences.taskFields.toLowerCase()),
+    "Task Fields preference"
+  );
+}
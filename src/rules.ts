@@ -0,0 +1,233 @@
+import { ExtractedTask, TaskPriority } from "./state";
+import { FileChunk } from "./ingest";
+import { DateAnchor, parseDueDate } from "./dates";
+import { chunkLineNumber } from "./spans";
+import { formatRecurrence, parseRecurrence } from "./recurrence";
+
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const CHECKBOX = /^\[([ xX])\]\s*/;
+// Upper case prefixes need no colon; "todo:" in any case needs one, so "todo list" isn't a task
+const TASK_PREFIX = /^(?:TODO|ACTION(?: ITEM)?)\b\s*[:-]?\s*/;
+const TASK_PREFIX_ANY_CASE = /^(?:todo|action(?: item)?)\s*[:-]\s*/i;
+const DUE_TOKEN = /(?:^|\s)due:(\S+)/i;
+const HASHTAG = /(?:^|\s)#([\p{L}_][\p{L}\p{N}_/-]*)/gu;
+const PRIORITY_TOKEN = /(?:^|\s)!(urgent|high|medium|low)\b/i;
+const ASSIGNEE_TOKEN = /(?:^|\s)@([\p{L}][\p{L}\p{N}_-]*)/u;
+const PROJECT_TOKEN = /(?:^|\s)\+([\p{L}][\p{L}\p{N}_-]*)/u;
+// ~30m, ~45min, ~2h, ~1.5h, ~1h30m
+const ESTIMATE_TOKEN =
+  /(?:^|\s)~(\d+(?:\.\d+)?)(h|hrs?|hours?|m|mins?|minutes?)(?:(\d+)(?:m|mins?))?(?=[\s,.;]|$)/i;
+// repeat:weekly, repeat:mon,thu, repeat:FREQ=MONTHLY;BYMONTHDAY=1
+const REPEAT_TOKEN = /(?:^|\s)repeat:(\S+)/i;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^#{1,6}\s/;
+
+export interface RuleClaim {
+  tasks: ExtractedTask[];
+  claimedLines: number[]; // Chunk line indexes of explicit task lines and ticked checkboxes
+}
+
+interface LineTokens {
+  title: string;
+  due: string | null;
+  tags: string[];
+  priority: TaskPriority | null;
+  assignee: string | null;
+  project: string | null;
+  estimateMinutes: number | null;
+  recurrence: string | null;
+}
+
+function estimateMinutes(match: RegExpMatchArray): number | null {
+  const amount = Number(match[1]);
+  const minutes = /^h/i.test(match[2]) ? amount * 60 + Number(match[3] ?? 0) : amount;
+  return minutes >= 1 ? Math.round(minutes) : null;
+}
+
+/**
+ * Tokens pulled out of a task line, leaving its title
+ */
+function parseTokens(text: string): LineTokens {
+  const tags: string[] = [];
+  for (const match of text.matchAll(HASHTAG)) {
+    if (!tags.includes(match[1])) tags.push(match[1]);
+  }
+
+  const due = text.match(DUE_TOKEN);
+  const priority = text.match(PRIORITY_TOKEN);
+  const assignee = text.match(ASSIGNEE_TOKEN);
+  const project = text.match(PROJECT_TOKEN);
+  const estimate = text.match(ESTIMATE_TOKEN);
+  const repeat = text.match(REPEAT_TOKEN);
+  const rule = repeat ? parseRecurrence(repeat[1].replace(/[.,]+$/, "")) : null;
+  const title = [
+    DUE_TOKEN,
+    HASHTAG,
+    PRIORITY_TOKEN,
+    ASSIGNEE_TOKEN,
+    PROJECT_TOKEN,
+    ESTIMATE_TOKEN,
+    REPEAT_TOKEN,
+  ]
+    .reduce((rest, token) => rest.replace(token, " "), text)
+    .replace(/\s+/g, " ")
+    .replace(/ ([,;])/g, "$1")
+    .trim()
+    .replace(/[\s,;:-]+$/, "");
+
+  return {
+    title,
+    due: due ? due[1].replace(/[.,;]+$/, "") : null,
+    tags,
+    priority: priority ? (priority[1].toLowerCase() as TaskPriority) : null,
+    assignee: assignee ? assignee[1] : null,
+    project: project ? project[1] : null,
+    estimateMinutes: estimate ? estimateMinutes(estimate) : null,
+    recurrence: rule ? formatRecurrence(rule) : null,
+  };
+}
+
+/**
+ * The priority, assignee, project, estimate and repeat tokens that were found, as task fields
+ */
+function fieldTokens(tokens: LineTokens): Partial<ExtractedTask> {
+  return {
+    ...(tokens.priority ? { priority: tokens.priority } : {}),
+    ...(tokens.assignee ? { assignee: tokens.assignee } : {}),
+    ...(tokens.project ? { project: tokens.project } : {}),
+    ...(tokens.estimateMinutes ? { estimateMinutes: tokens.estimateMinutes } : {}),
+    ...(tokens.recurrence ? { recurrence: tokens.recurrence } : {}),
+  };
+}
+
+/**
+ * Deterministic extraction of explicitly marked tasks, for use without an LLM.
+ *
+ * Open checkboxes (`- [ ] ...`) and lines starting `TODO:` or `ACTION:` are tasks, as is a
+ * plain list item carrying a `due:` token. Ticked checkboxes, headings and fenced code are
+ * skipped. `due:` tokens take the forms `parseDueDate` understands without spaces
+ * (`16/08`, `2025-08-20T15:00`, `tomorrow`, `fri`, `eod`) and `#hashtags` become tags.
+ * `!high` sets the priority, `@Bob` the assignee, `+Apollo` the project, `~30m` the
+ * estimate and `repeat:weekly` the recurrence. Tokens are removed from the title.
+ */
+class RuleExtractor {
+  /**
+   * Title text of a line when it is an explicit task, otherwise null
+   */
+  taskText(line: string): string | null {
+    if (HEADING.test(line)) return null;
+
+    const listMarker = line.match(LIST_MARKER);
+    const rest = listMarker ? line.slice(listMarker[0].length) : line.trim();
+
+    const checkbox = rest.match(CHECKBOX);
+    if (checkbox) {
+      return checkbox[1] === " " ? rest.slice(checkbox[0].length) : null;
+    }
+
+    const prefix = rest.match(TASK_PREFIX) || rest.match(TASK_PREFIX_ANY_CASE);
+    if (prefix) return rest.slice(prefix[0].length);
+
+    return listMarker && DUE_TOKEN.test(rest) ? rest : null;
+  }
+
+  /**
+   * Whether a line is a ticked checkbox
+   */
+  private isCompleted(line: string): boolean {
+    const listMarker = line.match(LIST_MARKER);
+    const checkbox = (listMarker ? line.slice(listMarker[0].length) : line.trim()).match(CHECKBOX);
+    return checkbox !== null && checkbox[1] !== " ";
+  }
+
+  /**
+   * Find the explicit tasks of a chunk, located on their lines, along with every line the
+   * rules account for: task lines and ticked checkboxes. Lines repeated from the previous
+   * chunk are claimed without producing tasks, since that chunk already produced them.
+   */
+  claim(chunk: FileChunk, anchor: DateAnchor): RuleClaim {
+    const lines = chunk.content.split("\n");
+    const claim: RuleClaim = { tasks: [], claimedLines: [] };
+    let fence: string | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+      const fenceMatch = lines[i].match(FENCE);
+      if (fenceMatch) {
+        if (!fence) fence = fenceMatch[1][0];
+        else if (fenceMatch[1][0] === fence) fence = null;
+        continue;
+      }
+      if (fence) continue;
+
+      if (this.isCompleted(lines[i])) {
+        claim.claimedLines.push(i);
+        continue;
+      }
+
+      const text = this.taskText(lines[i]);
+      if (!text) continue;
+
+      const tokens = parseTokens(text);
+      const { title, due, tags } = tokens;
+      if (!title) continue;
+
+      claim.claimedLines.push(i);
+      if (i < (chunk.overlapLines ?? 0)) continue;
+
+      const line = chunkLineNumber(chunk, i);
+      claim.tasks.push({
+        title: title[0].toUpperCase() + title.slice(1),
+        due: due ? parseDueDate(due, anchor) : null,
+        tags: tags.length > 0 ? tags : null,
+        ...fieldTokens(tokens),
+        startLine: line,
+        endLine: line,
+      });
+    }
+
+    return claim;
+  }
+
+  /**
+   * Extract the explicit tasks of a chunk, located on their lines
+   */
+  extractTasks(chunk: FileChunk, anchor: DateAnchor): ExtractedTask[] {
+    return this.claim(chunk, anchor).tasks;
+  }
+
+  /**
+   * Let the tokens on a task's source lines override the model's reading: a readable due
+   * token replaces its due date, hashtags are added to its tags and field tokens replace its
+   * fields. A time the model found is kept when the due token names the same day without one.
+   */
+  applyLineTokens(tasks: ExtractedTask[], chunk: FileChunk, anchor: DateAnchor): ExtractedTask[] {
+    const lines = chunk.content.split("\n");
+
+    return tasks.map((task) => {
+      if (!task.startLine) return task;
+
+      const endLine = task.endLine ?? task.startLine;
+      const sourceText = lines
+        .filter((_, i) => {
+          const line = chunkLineNumber(chunk, i);
+          return line >= task.startLine! && line <= endLine;
+        })
+        .join(" ");
+      const tokens = parseTokens(sourceText);
+      const fields = fieldTokens(tokens);
+      let dueDate = tokens.due ? parseDueDate(tokens.due, anchor) : null;
+      if (!dueDate && tokens.tags.length === 0 && Object.keys(fields).length === 0) return task;
+      if (dueDate && task.due?.startsWith(`${dueDate}T`)) dueDate = task.due;
+
+      const allTags = [...(task.tags || []), ...tokens.tags];
+      return {
+        ...task,
+        ...fields,
+        due: dueDate ?? task.due,
+        tags: allTags.length > 0 ? allTags.filter((tag, i) => allTags.indexOf(tag) === i) : null,
+      };
+    });
+  }
+}
+
+export const ruleExtractor = new RuleExtractor();
@@ -1,8 +1,11 @@
 import { LaunchProps, getPreferenceValues, clearSearchBar } from "@raycast/api";
 import { fileIngester } from "./ingest";
-import { taskExtractor } from "./extractor";
+import { resolveExtractionOptions, taskExtractor } from "./extractor";
 import { notionClient } from "./notion";
-import { stateManager, TaskWithMeta } from "./state";
+import { syncPipeline } from "./pipeline";
+import { parseArchiveAfterDays } from "./archiver";
+import { loadRoutes, routeIngestOptions, routeTaskFields, SyncRoute } from "./routes";
+import { llmProviders, missingLlmSettings, resolveLlmSettings } from "./providers";
 
 // Utility functions to safely extract error information
 function getErrorMessage(error: unknown): string {
@@ -19,8 +22,21 @@ import { logger } from "./log";
 
 interface Preferences {
   inboxDir: string;
+  includeGlobs?: string;
+  excludeGlobs?: string;
+  maxScanDepth?: string;
+  chunkOverlapLines?: string;
+  archiveAfterDays?: string;
+  routesFile?: string;
+  llmProvider?: string;
+  llmBaseUrl?: string;
+  llmAuthScheme?: string;
   openaiKey: string;
   openaiModel: string;
+  extractionMode?: string;
+  ruleFallback?: boolean;
+  dateOrder?: string;
+  taskFields?: string;
   notionToken: string;
   notionDbId: string;
   enableScheduled: boolean;
@@ -47,92 +63,56 @@ export default async function Command(props: LaunchProps) {
       logger.error("Health checks failed", { issues: healthResults.issues });
       return;
     }
-
-    // Ingest files
-    logger.info("Starting file ingestion");
-    const chunks = await fileIngester.ingestFiles(preferences.inboxDir);
-    
-    if (chunks.length === 0) {
-      logger.info("No files to process, sync completed");
-      stateManager.updateLastRun();
-      return;
+    if (healthResults.skippedRoutes.length > 0) {
+      logger.warn("Skipping routes that failed health checks", {
+        routes: healthResults.skippedRoutes,
+        issues: healthResults.issues,
+      });
     }
 
-    // Extract tasks
-    logger.info("Starting task extraction");
-    const extractionResults = await taskExtractor.extractTasksFromChunks(
-      chunks,
-      preferences.openaiKey,
-      preferences.openaiModel
-    );
-
-    // Flatten and deduplicate tasks
-    const allTasks: TaskWithMeta[] = [];
-    
-    for (const result of extractionResults) {
-      for (let i = 0; i < result.tasks.length; i++) {
-        const task = result.tasks[i];
-        const hash = stateManager.generateTaskHash(task, result.chunk.filePath, i);
-        
-        if (stateManager.isTaskProcessed(hash)) {
-          logger.debug("Skipping already processed task", { 
-            title: task.title.substring(0, 50),
-            hash 
-          });
-          continue;
-        }
-
-        const taskWithMeta: TaskWithMeta = {
-          ...task,
-          hash,
-          filePath: result.chunk.filePath,
-          lineIndex: i,
-          extractedAt: new Date().toISOString(),
-        };
-
-        allTasks.push(taskWithMeta);
+    // Routes are synced one after another; a failing route doesn't stop the others
+    for (const route of healthResults.routes) {
+      try {
+        logger.info("Starting file ingestion", { route: route.id });
+        const summary = await syncPipeline.run(
+          {
+            inboxDir: route.inboxDir,
+            ingestOptions: routeIngestOptions(route, preferences),
+            llm: resolveLlmSettings(preferences),
+            extraction: resolveExtractionOptions(preferences),
+            notionToken: preferences.notionToken,
+            notionDbId: route.notionDbId,
+            defaultTags: route.tags,
+            taskFields: routeTaskFields(route, preferences),
+            archiveAfterDays: parseArchiveAfterDays(preferences.archiveAfterDays),
+          },
+          (stage, count) => {
+            logger.info(
+              stage === "extracting" ? "Starting task extraction" : "Starting Notion sync",
+              { route: route.id, count }
+            );
+          }
+        );
+
+        logger.info("Route sync completed", {
+          route: route.id,
+          ...summary,
+          retryFiles: summary.retryFiles.length,
+        });
+      } catch (error) {
+        logger.error("Route sync failed", {
+          route: route.id,
+          error: getErrorMessage(error),
+          stack: getErrorStack(error),
+        });
       }
     }
 
-    if (allTasks.length === 0) {
-      logger.info("No new tasks to sync");
-      stateManager.updateLastRun();
-      return;
-    }
-
-    // Sync to Notion
-    logger.info("Starting Notion sync", { taskCount: allTasks.length });
-    const syncResults = await notionClient.syncTasks(
-      preferences.notionToken,
-      preferences.notionDbId,
-      allTasks
-    );
-
-    // Mark successfully synced tasks as processed
-    let successCount = 0;
-    for (let i = 0; i < syncResults.length; i++) {
-      const result = syncResults[i];
-      const task = allTasks[i];
-      
-      if (result.success) {
-        stateManager.markTaskProcessed(task.hash);
-        successCount++;
-      }
-    }
-
-    // Clean up old state entries
-    stateManager.cleanup();
-    
-    // Update last run time
-    stateManager.updateLastRun();
-
     const duration = Date.now() - startTime;
-    
-    logger.info("Hourly sync completed successfully", {
-      processedChunks: chunks.length,
-      extractedTasks: allTasks.length,
-      syncedTasks: successCount,
-      failedTasks: allTasks.length - successCount,
+
+    logger.info("Hourly sync completed", {
+      routes: healthResults.routes.length,
+      skippedRoutes: healthResults.skippedRoutes,
       durationMs: duration,
     });
 
@@ -147,8 +127,10 @@ export default async function Command(props: LaunchProps) {
 }
 
 async function performHealthChecks(preferences: Preferences): Promise<{
-  allHealthy: boolean;
+  allHealthy: boolean; // The shared settings work and at least one route can be synced
   issues: string[];
+  routes: SyncRoute[]; // Routes that passed their checks
+  skippedRoutes: string[]; // Routes that failed their checks, with their issues in `issues`
 }> {
   const issues: string[] = [];
 
@@ -156,11 +138,14 @@ async function performHealthChecks(preferences: Preferences): Promise<{
   if (!preferences.inboxDir) {
     issues.push("Inbox directory not configured");
   }
-  if (!preferences.openaiKey) {
-    issues.push("OpenAI API key not configured");
-  }
-  if (!preferences.openaiModel) {
-    issues.push("OpenAI model not configured");
+  // Rule extraction runs offline, so the LLM settings are only needed for the other modes
+  const llm = resolveLlmSettings(preferences);
+  const extraction = resolveExtractionOptions(preferences);
+  const usesLlm = extraction.mode !== "rules";
+  if (usesLlm) {
+    for (const setting of missingLlmSettings(llm)) {
+      issues.push(`${setting} not configured`);
+    }
   }
   if (!preferences.notionToken) {
     issues.push("Notion token not configured");
@@ -170,40 +155,81 @@ async function performHealthChecks(preferences: Preferences): Promise<{
   }
 
   if (issues.length > 0) {
-    return { allHealthy: false, issues };
+    return { allHealthy: false, issues, routes: [], skippedRoutes: [] };
   }
 
-  // Check file system access
-  const fileSystemCheck = await fileIngester.healthCheck(preferences.inboxDir);
-  if (!fileSystemCheck.healthy) {
-    issues.push(`File system: ${fileSystemCheck.message}`);
+  let routes: SyncRoute[];
+  try {
+    routes = loadRoutes(preferences);
+  } catch (error) {
+    return { allHealthy: false, issues: [getErrorMessage(error)], routes: [], skippedRoutes: [] };
   }
 
-  // Check OpenAI API (quick test)
-  try {
-    const openaiCheck = await taskExtractor.healthCheck(
-      preferences.openaiKey,
-      preferences.openaiModel
+  // Issues are prefixed with the route they belong to once there is more than one
+  const label = (name: string, route: SyncRoute) =>
+    routes.length > 1 ? `${name} (${route.id})` : name;
+
+  // Routes are checked on their own, so one broken inbox or database only skips that route
+  const healthyRoutes: SyncRoute[] = [];
+  const skippedRoutes: string[] = [];
+  for (const route of routes) {
+    const routeIssues: string[] = [];
+
+    // Check file system access
+    const fileSystemCheck = await fileIngester.healthCheck(
+      route.inboxDir,
+      routeIngestOptions(route, preferences)
     );
-    if (!openaiCheck.healthy) {
-      issues.push(`OpenAI: ${openaiCheck.message}`);
+    if (!fileSystemCheck.healthy) {
+      routeIssues.push(`${label("File system", route)}: ${fileSystemCheck.message}`);
+    }
+
+    // Check Notion API
+    try {
+      const notionCheck = await notionClient.healthCheck(
+        preferences.notionToken,
+        route.notionDbId
+      );
+      if (!notionCheck.healthy) {
+        routeIssues.push(`${label("Notion", route)}: ${notionCheck.message}`);
+      }
+    } catch (error) {
+      routeIssues.push(`${label("Notion", route)}: ${getErrorMessage(error)}`);
+    }
+
+    if (routeIssues.length > 0) {
+      issues.push(...routeIssues);
+      skippedRoutes.push(route.id);
+    } else {
+      healthyRoutes.push(route);
     }
-  } catch (error) {
-    issues.push(`OpenAI: ${getErrorMessage(error)}`);
   }
 
-  // Check Notion API
-  try {
-    const notionCheck = await notionClient.healthCheck(
-      preferences.notionToken,
-      preferences.notionDbId
-    );
-    if (!notionCheck.healthy) {
-      issues.push(`Notion: ${notionCheck.message}`);
+  // Check the LLM provider (quick test). With rule fallback an unreachable provider only
+  // degrades extraction, so it doesn't stop the sync.
+  if (usesLlm) {
+    const providerName = llmProviders.get(llm.provider).name;
+    let llmIssue: string | null = null;
+    try {
+      const llmCheck = await taskExtractor.healthCheck(llm);
+      if (!llmCheck.healthy) {
+        llmIssue = `${providerName}: ${llmCheck.message}`;
+      }
+    } catch (error) {
+      llmIssue = `${providerName}: ${getErrorMessage(error)}`;
+    }
+
+    if (llmIssue && extraction.ruleFallback) {
+      logger.warn("LLM unavailable, extracting with rules", { issue: llmIssue });
+    } else if (llmIssue) {
+      return { allHealthy: false, issues: [...issues, llmIssue], routes: [], skippedRoutes };
     }
-  } catch (error) {
-    issues.push(`Notion: ${getErrorMessage(error)}`);
   }
 
-  return { allHealthy: issues.length === 0, issues };
+  return {
+    allHealthy: healthyRoutes.length > 0,
+    issues,
+    routes: healthyRoutes,
+    skippedRoutes,
+  };
 }
\ No newline at end of file
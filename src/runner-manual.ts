@@ -7,7 +7,7 @@ import {
   showHUD 
 } from "@raycast/api";
 import { fileIngester } from "./ingest";
-import { taskExtractor } from "./extractor";
+import { resolveExtractionOptions, taskExtractor } from "./extractor";
 
 // Utility functions to safely extract error information
 function getErrorMessage(error: unknown): string {
@@ -21,13 +21,30 @@ function getErrorStack(error: unknown): string | undefined {
   return undefined;
 }
 import { notionClient } from "./notion";
-import { stateManager, TaskWithMeta } from "./state";
+import { syncPipeline } from "./pipeline";
+import { parseArchiveAfterDays } from "./archiver";
+import { loadRoutes, routeIngestOptions, routeTaskFields, SyncRoute } from "./routes";
+import { llmProviders, missingLlmSettings, resolveLlmSettings } from "./providers";
 import { logger } from "./log";
 
 interface Preferences {
   inboxDir: string;
+  includeGlobs?: string;
+  excludeGlobs?: string;
+  maxScanDepth?: string;
+  chunkOverlapLines?: string;
+  archiveAfterDays?: string;
+  routesFile?: string;
+  llmProvider?: string;
+  llmBaseUrl?: string;
+  llmAuthScheme?: string;
   openaiKey: string;
   openaiModel: string;
+  extractionMode?: string;
+  ruleFallback?: boolean;
+  dateOrder?: string;
+  bypassCache?: boolean;
+  taskFields?: string;
   notionToken: string;
   notionDbId: string;
   enableScheduled: boolean;
@@ -74,120 +91,105 @@ export default async function Command(props: LaunchProps) {
       message: "Looking for modified markdown files",
     });
 
-    const chunks = await fileIngester.ingestFiles(preferences.inboxDir);
-    
-    if (chunks.length === 0) {
-      await showHUD("✅ No new files to process");
-      logger.info("No files to process, sync completed");
-      stateManager.updateLastRun();
-      return;
-    }
-
-    // Extract tasks
-    await showToast({
-      style: Toast.Style.Animated,
-      title: "Extracting tasks...",
-      message: `Processing ${chunks.length} file chunk${chunks.length === 1 ? "" : "s"}`,
-    });
-
-    const extractionResults = await taskExtractor.extractTasksFromChunks(
-      chunks,
-      preferences.openaiKey,
-      preferences.openaiModel
-    );
-
-    // Flatten and deduplicate tasks
-    const allTasks: TaskWithMeta[] = [];
-    
-    for (const result of extractionResults) {
-      for (let i = 0; i < result.tasks.length; i++) {
-        const task = result.tasks[i];
-        const hash = stateManager.generateTaskHash(task, result.chunk.filePath, i);
-        
-        if (stateManager.isTaskProcessed(hash)) {
-          logger.debug("Skipping already processed task", { 
-            title: task.title.substring(0, 50),
-            hash 
-          });
-          continue;
-        }
-
-        const taskWithMeta: TaskWithMeta = {
-          ...task,
-          hash,
-          filePath: result.chunk.filePath,
-          lineIndex: i,
-          extractedAt: new Date().toISOString(),
-        };
-
-        allTasks.push(taskWithMeta);
-      }
+    const { routes, skippedRoutes } = healthResults;
+    const routeCount = routes.length + skippedRoutes.length;
+    const totals = { processedChunks: 0, extractedTasks: 0, syncedTasks: 0, retryFiles: 0 };
+    // Routes that failed their health checks count as failed, and the others still sync
+    const failedRoutes: string[] = [...skippedRoutes];
+    const failures: string[] = [...healthResults.issues];
+    if (skippedRoutes.length > 0) {
+      logger.warn("Skipping routes that failed health checks", {
+        routes: skippedRoutes,
+        issues: healthResults.issues,
+      });
     }
 
-    if (allTasks.length === 0) {
-      await showHUD("✅ No new tasks found");
-      logger.info("No new tasks to sync");
-      stateManager.updateLastRun();
-      return;
-    }
+    for (const route of routes) {
+      const prefix = routeCount > 1 ? `${route.id}: ` : "";
 
-    // Sync to Notion
-    await showToast({
-      style: Toast.Style.Animated,
-      title: "Syncing to Notion...",
-      message: `Creating ${allTasks.length} task${allTasks.length === 1 ? "" : "s"}`,
-    });
+      try {
+        const summary = await syncPipeline.run(
+          {
+            inboxDir: route.inboxDir,
+            ingestOptions: routeIngestOptions(route, preferences),
+            llm: resolveLlmSettings(preferences),
+            extraction: {
+              ...resolveExtractionOptions(preferences),
+              bypassCache: preferences.bypassCache ?? false,
+            },
+            notionToken: preferences.notionToken,
+            notionDbId: route.notionDbId,
+            defaultTags: route.tags,
+            taskFields: routeTaskFields(route, preferences),
+            archiveAfterDays: parseArchiveAfterDays(preferences.archiveAfterDays),
+          },
+          async (stage, count) => {
+            if (stage === "extracting") {
+              await showToast({
+                style: Toast.Style.Animated,
+                title: "Extracting tasks...",
+                message: `${prefix}Processing ${count} file chunk${count === 1 ? "" : "s"}`,
+              });
+            } else {
+              await showToast({
+                style: Toast.Style.Animated,
+                title: "Syncing to Notion...",
+                message: `${prefix}Creating ${count} task${count === 1 ? "" : "s"}`,
+              });
+            }
+          }
+        );
 
-    const syncResults = await notionClient.syncTasks(
-      preferences.notionToken,
-      preferences.notionDbId,
-      allTasks
-    );
+        totals.processedChunks += summary.processedChunks;
+        totals.extractedTasks += summary.extractedTasks;
+        totals.syncedTasks += summary.syncedTasks;
+        totals.retryFiles += summary.retryFiles.length;
 
-    // Mark successfully synced tasks as processed
-    let successCount = 0;
-    let failedCount = 0;
-    
-    for (let i = 0; i < syncResults.length; i++) {
-      const result = syncResults[i];
-      const task = allTasks[i];
-      
-      if (result.success) {
-        stateManager.markTaskProcessed(task.hash);
-        successCount++;
-      } else {
-        failedCount++;
-        logger.warn("Task sync failed", {
-          title: task.title,
-          error: result.error,
+        logger.info("Route sync completed", {
+          route: route.id,
+          ...summary,
+          retryFiles: summary.retryFiles.length,
+        });
+      } catch (error) {
+        failedRoutes.push(route.id);
+        failures.push(`${prefix}${getErrorMessage(error)}`);
+        logger.error("Route sync failed", {
+          route: route.id,
+          error: getErrorMessage(error),
+          stack: getErrorStack(error),
         });
       }
     }
 
-    // Clean up old state entries
-    stateManager.cleanup();
-    
-    // Update last run time
-    stateManager.updateLastRun();
-
     const duration = Date.now() - startTime;
+    const retryCount = totals.retryFiles;
 
     // Show final result
-    if (failedCount === 0) {
-      await showHUD(`✅ Synced ${successCount} task${successCount === 1 ? "" : "s"} to Notion`);
-    } else {
+    if (failedRoutes.length === routeCount) {
+      throw new Error(failures.join("; "));
+    } else if (failedRoutes.length > 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Sync partially failed",
+        message: `✅ ${totals.syncedTasks} synced, ⚠️ ${failedRoutes.join(", ")} failed`,
+      });
+    } else if (retryCount > 0) {
       await showToast({
         style: Toast.Style.Success,
         title: "Sync completed with warnings",
-        message: `✅ ${successCount} synced, ⚠️ ${failedCount} failed`,
+        message: `✅ ${totals.syncedTasks} synced, ⚠️ ${retryCount} file${retryCount === 1 ? "" : "s"} will be retried next run`,
       });
+    } else if (totals.processedChunks === 0) {
+      await showHUD("✅ No new files to process");
+    } else if (totals.extractedTasks === 0) {
+      await showHUD("✅ No new tasks found");
+    } else {
+      await showHUD(`✅ Synced ${totals.syncedTasks} task${totals.syncedTasks === 1 ? "" : "s"} to Notion`);
     }
-    
-    logger.info("Manual sync completed successfully", {
-      processedChunks: chunks.length,
-      extractedTasks: allTasks.length,
-      syncedTasks: successCount,
-      failedTasks: failedCount,
+
+    logger.info("Manual sync completed", {
+      ...totals,
+      failedRoutes,
       durationMs: duration,
     });
 
@@ -209,8 +211,10 @@ export default async function Command(props: LaunchProps) {
 }
 
 async function performHealthChecks(preferences: Preferences): Promise<{
-  allHealthy: boolean;
+  allHealthy: boolean; // The shared settings work and at least one route can be synced
   issues: string[];
+  routes: SyncRoute[]; // Routes that passed their checks
+  skippedRoutes: string[]; // Routes that failed their checks, with their issues in `issues`
 }> {
   const issues: string[] = [];
 
@@ -218,11 +222,14 @@ async function performHealthChecks(preferences: Preferences): Promise<{
   if (!preferences.inboxDir) {
     issues.push("Inbox directory not configured");
   }
-  if (!preferences.openaiKey) {
-    issues.push("OpenAI API key not configured");
-  }
-  if (!preferences.openaiModel) {
-    issues.push("OpenAI model not configured");
+  // Rule extraction runs offline, so the LLM settings are only needed for the other modes
+  const llm = resolveLlmSettings(preferences);
+  const extraction = resolveExtractionOptions(preferences);
+  const usesLlm = extraction.mode !== "rules";
+  if (usesLlm) {
+    for (const setting of missingLlmSettings(llm)) {
+      issues.push(`${setting} not configured`);
+    }
   }
   if (!preferences.notionToken) {
     issues.push("Notion token not configured");
@@ -232,40 +239,81 @@ async function performHealthChecks(preferences: Preferences): Promise<{
   }
 
   if (issues.length > 0) {
-    return { allHealthy: false, issues };
+    return { allHealthy: false, issues, routes: [], skippedRoutes: [] };
   }
 
-  // Check file system access
-  const fileSystemCheck = await fileIngester.healthCheck(preferences.inboxDir);
-  if (!fileSystemCheck.healthy) {
-    issues.push(`File system: ${fileSystemCheck.message}`);
+  let routes: SyncRoute[];
+  try {
+    routes = loadRoutes(preferences);
+  } catch (error) {
+    return { allHealthy: false, issues: [getErrorMessage(error)], routes: [], skippedRoutes: [] };
   }
 
-  // Check OpenAI API (quick test) 
-  try {
-    const openaiCheck = await taskExtractor.healthCheck(
-      preferences.openaiKey,
-      preferences.openaiModel
+  // Issues are prefixed with the route they belong to once there is more than one
+  const label = (name: string, route: SyncRoute) =>
+    routes.length > 1 ? `${name} (${route.id})` : name;
+
+  // Routes are checked on their own, so one broken inbox or database only skips that route
+  const healthyRoutes: SyncRoute[] = [];
+  const skippedRoutes: string[] = [];
+  for (const route of routes) {
+    const routeIssues: string[] = [];
+
+    // Check file system access
+    const fileSystemCheck = await fileIngester.healthCheck(
+      route.inboxDir,
+      routeIngestOptions(route, preferences)
     );
-    if (!openaiCheck.healthy) {
-      issues.push(`OpenAI: ${openaiCheck.message}`);
+    if (!fileSystemCheck.healthy) {
+      routeIssues.push(`${label("File system", route)}: ${fileSystemCheck.message}`);
+    }
+
+    // Check Notion API
+    try {
+      const notionCheck = await notionClient.healthCheck(
+        preferences.notionToken,
+        route.notionDbId
+      );
+      if (!notionCheck.healthy) {
+        routeIssues.push(`${label("Notion", route)}: ${notionCheck.message}`);
+      }
+    } catch (error) {
+      routeIssues.push(`${label("Notion", route)}: ${getErrorMessage(error)}`);
+    }
+
+    if (routeIssues.length > 0) {
+      issues.push(...routeIssues);
+      skippedRoutes.push(route.id);
+    } else {
+      healthyRoutes.push(route);
     }
-  } catch (error) {
-    issues.push(`OpenAI: ${getErrorMessage(error)}`);
   }
 
-  // Check Notion API
-  try {
-    const notionCheck = await notionClient.healthCheck(
-      preferences.notionToken,
-      preferences.notionDbId
-    );
-    if (!notionCheck.healthy) {
-      issues.push(`Notion: ${notionCheck.message}`);
+  // Check the LLM provider (quick test). With rule fallback an unreachable provider only
+  // degrades extraction, so it doesn't stop the sync.
+  if (usesLlm) {
+    const providerName = llmProviders.get(llm.provider).name;
+    let llmIssue: string | null = null;
+    try {
+      const llmCheck = await taskExtractor.healthCheck(llm);
+      if (!llmCheck.healthy) {
+        llmIssue = `${providerName}: ${llmCheck.message}`;
+      }
+    } catch (error) {
+      llmIssue = `${providerName}: ${getErrorMessage(error)}`;
+    }
+
+    if (llmIssue && extraction.ruleFallback) {
+      logger.warn("LLM unavailable, extracting with rules", { issue: llmIssue });
+    } else if (llmIssue) {
+      return { allHealthy: false, issues: [...issues, llmIssue], routes: [], skippedRoutes };
     }
-  } catch (error) {
-    issues.push(`Notion: ${getErrorMessage(error)}`);
   }
 
-  return { allHealthy: issues.length === 0, issues };
+  return {
+    allHealthy: healthyRoutes.length > 0,
+    issues,
+    routes: healthyRoutes,
+    skippedRoutes,
+  };
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { getPreferenceValues, showHUD } from "@raycast/api";
+import { ArchiveEntry, fileArchiver } from "./archiver";
+import { loadRoutes } from "./routes";
+import { getRouteStateManager } from "./state";
+import { logger } from "./log";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+interface Preferences {
+  inboxDir: string;
+  notionDbId: string;
+  routesFile?: string;
+}
+
+/**
+ * Move the files archived by the most recent sync back into every route's inbox
+ */
+export default async function Command() {
+  try {
+    const preferences = getPreferenceValues<Preferences>();
+    const restored: ArchiveEntry[] = [];
+    const skipped: ArchiveEntry[] = [];
+
+    for (const route of loadRoutes(preferences)) {
+      const result = fileArchiver.undoLastArchive(route.inboxDir, getRouteStateManager(route.id));
+      restored.push(...result.restored);
+      skipped.push(...result.skipped);
+    }
+
+    if (restored.length === 0 && skipped.length === 0) {
+      await showHUD("Nothing to restore");
+    } else if (skipped.length === 0) {
+      await showHUD(`↩️ Restored ${restored.length} file${restored.length === 1 ? "" : "s"}`);
+    } else {
+      await showHUD(
+        `↩️ Restored ${restored.length}, ⚠️ ${skipped.length} left in the archive (original path in use)`
+      );
+    }
+  } catch (error) {
+    logger.error("Failed to undo archive", { error: getErrorMessage(error) });
+    await showHUD(`⚠️ ${getErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,141 @@
+import { getPreferenceValues, showHUD } from "@raycast/api";
+import { syncPipeline } from "./pipeline";
+import { InboxWatcher, defaultLockPath, requestWatchStop } from "./watcher";
+import { loadRoutes, routeIngestOptions, routeTaskFields, SyncRoute } from "./routes";
+import { missingLlmSettings, resolveLlmSettings } from "./providers";
+import { DEFAULT_ROUTE_ID, stateManager } from "./state";
+import { resolveExtractionOptions } from "./extractor";
+import { logger } from "./log";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+interface Preferences {
+  inboxDir: string;
+  includeGlobs?: string;
+  excludeGlobs?: string;
+  maxScanDepth?: string;
+  chunkOverlapLines?: string;
+  watchQuietSeconds?: string;
+  routesFile?: string;
+  llmProvider?: string;
+  llmBaseUrl?: string;
+  llmAuthScheme?: string;
+  openaiKey: string;
+  openaiModel: string;
+  extractionMode?: string;
+  ruleFallback?: boolean;
+  dateOrder?: string;
+  taskFields?: string;
+  notionToken: string;
+  notionDbId: string;
+}
+
+/**
+ * Toggle watch mode: starts a watcher for every route, or stops the ones already running
+ */
+export default async function Command() {
+  const lockPath = defaultLockPath();
+
+  // Commands share a worker process, so the running watcher is asked to stop through its lock
+  // rather than signalled
+  if (requestWatchStop(lockPath)) {
+    logger.info("Requested watch mode shutdown");
+    await showHUD("⏹ Stopped watching brain dump directory");
+    return;
+  }
+
+  const preferences = getPreferenceValues<Preferences>();
+  const llm = resolveLlmSettings(preferences);
+  const extraction = resolveExtractionOptions(preferences);
+  const missing = [
+    !preferences.inboxDir && "inbox directory",
+    ...(extraction.mode === "rules" ? [] : missingLlmSettings(llm)),
+    !preferences.notionToken && "Notion token",
+    !preferences.notionDbId && "Notion database ID",
+  ].filter(Boolean);
+
+  if (missing.length > 0) {
+    await showHUD(`⚠️ Not configured: ${missing.join(", ")}`);
+    return;
+  }
+
+  let routes: SyncRoute[];
+  try {
+    routes = loadRoutes(preferences);
+  } catch (error) {
+    await showHUD(`⚠️ ${getErrorMessage(error)}`);
+    return;
+  }
+
+  const quietSeconds = parseFloat(preferences.watchQuietSeconds || "");
+
+  // The default route holds the lock the toggle checks; other routes get a lock of their own
+  const watchers = routes.map((route) => {
+    const ingestOptions = routeIngestOptions(route, preferences);
+
+    return new InboxWatcher({
+      dirPath: route.inboxDir,
+      scanOptions: ingestOptions,
+      quietPeriodMs:
+        Number.isFinite(quietSeconds) && quietSeconds >= 0 ? quietSeconds * 1000 : undefined,
+      lockPath:
+        route.id === DEFAULT_ROUTE_ID ? lockPath : lockPath.replace(/\.lock$/, `-${route.id}.lock`),
+      onFiles: async (files) => {
+        // Other commands save state while the watcher runs, so start from what is on disk
+        (ingestOptions.state ?? stateManager).reload();
+
+        const summary = await syncPipeline.run({
+          inboxDir: route.inboxDir,
+          ingestOptions: { ...ingestOptions, files },
+          llm,
+          extraction,
+          notionToken: preferences.notionToken,
+          notionDbId: route.notionDbId,
+          defaultTags: route.tags,
+          taskFields: routeTaskFields(route, preferences),
+        });
+
+        logger.info("Watch sync completed", {
+          route: route.id,
+          ...summary,
+          retryFiles: summary.retryFiles.length,
+        });
+      },
+      // Any watcher asked to stop, or losing its lock, stops them all
+      onStopRequested: () => stopRequested(),
+    });
+  });
+
+  const stopAll = () => Promise.all(watchers.map((watcher) => watcher.stop()));
+  let stopRequested: () => void = () => undefined;
+  const stopped = new Promise<void>((resolve) => {
+    stopRequested = () => {
+      stopAll().finally(resolve);
+    };
+  });
+
+  try {
+    for (const watcher of watchers) {
+      await watcher.start();
+    }
+  } catch (error) {
+    logger.error("Failed to start watch mode", { error: getErrorMessage(error) });
+    await stopAll();
+    await showHUD(`⚠️ ${getErrorMessage(error)}`);
+    return;
+  }
+
+  await showHUD(
+    routes.length > 1
+      ? `👀 Watching ${routes.length} brain dump directories`
+      : "👀 Watching brain dump directory"
+  );
+
+  // Keep running until the command is launched again
+  await stopped;
+}
@@ -0,0 +1,270 @@
+import { DateAnchor, parseDueDate } from "./dates";
+import { TASK_PRIORITIES, TaskPriority } from "./state";
+import { parseRecurrence } from "./recurrence";
+
+/**
+ * Schema of the task payload returned by the LLM. Validation reports every problem with the
+ * path it was found at, e.g. `tasks[2].due`, so the exact errors can be sent back to the
+ * model for repair, and keeps the items that are valid.
+ */
+
+export interface RawTask {
+  title: string;
+  due: string | null;
+  tags: string[] | null;
+  priority?: TaskPriority | null;
+  assignee?: string | null;
+  project?: string | null;
+  estimateMinutes?: number | null;
+  recurrence?: string | null;
+  source?: string;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface PayloadValidation {
+  tasks: RawTask[]; // Items that passed validation, in order
+  rejected: number; // Items that failed
+  issues: SchemaIssue[];
+}
+
+export interface FieldRule {
+  type: "string" | "string[]" | "number";
+  required?: boolean; // Missing fields are otherwise treated as null
+  nullable?: boolean;
+  minLength?: number; // For lists, applies to each item
+  maxLength?: number;
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  maxItems?: number;
+  enum?: readonly string[];
+  pattern?: RegExp;
+  patternHint?: string; // Describes the pattern in error messages
+  format?: "due-date" | "recurrence";
+}
+
+export type ObjectSchema = Record<string, FieldRule>;
+
+export const MAX_TASKS = 100;
+
+export const TASK_SCHEMA: ObjectSchema = {
+  title: { type: "string", required: true, minLength: 1, maxLength: 200 },
+  due: { type: "string", nullable: true, format: "due-date" },
+  tags: {
+    type: "string[]",
+    nullable: true,
+    minLength: 1,
+    maxLength: 50,
+    maxItems: 10,
+    pattern: /^[^,]+$/,
+    patternHint: "must not contain commas",
+  },
+  priority: { type: "string", nullable: true, enum: TASK_PRIORITIES },
+  assignee: { type: "string", nullable: true, minLength: 1, maxLength: 100 },
+  project: { type: "string", nullable: true, minLength: 1, maxLength: 100 },
+  estimateMinutes: { type: "number", nullable: true, integer: true, min: 1, max: 10080 },
+  recurrence: { type: "string", nullable: true, format: "recurrence" },
+  source: { type: "string", maxLength: 2000 },
+};
+
+function describe(value: unknown): string {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  return typeof value === "string" ? JSON.stringify(value) : `a ${typeof value}`;
+}
+
+function checkString(
+  value: string,
+  rule: FieldRule,
+  path: string,
+  anchor: DateAnchor,
+  issues: SchemaIssue[]
+): void {
+  const length = value.trim().length;
+  if (rule.minLength !== undefined && length < rule.minLength) {
+    issues.push({
+      path,
+      message:
+        rule.minLength === 1
+          ? "must not be empty"
+          : `must be at least ${rule.minLength} characters`,
+    });
+  }
+  if (rule.maxLength !== undefined && length > rule.maxLength) {
+    issues.push({ path, message: `must be at most ${rule.maxLength} characters (got ${length})` });
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `must be one of ${rule.enum.map((option) => `"${option}"`).join(", ")} (got ${describe(value)})`,
+    });
+  }
+  if (rule.pattern && !rule.pattern.test(value)) {
+    issues.push({
+      path,
+      message: `${rule.patternHint ?? `must match ${rule.pattern}`} (got ${describe(value)})`,
+    });
+  }
+  if (rule.format === "due-date" && parseDueDate(value, anchor) === null) {
+    issues.push({
+      path,
+      message: `${describe(value)} is not a date; use "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM"`,
+    });
+  }
+  if (rule.format === "recurrence" && parseRecurrence(value) === null) {
+    issues.push({
+      path,
+      message: `${describe(value)} is not a supported recurrence rule; use RRULE syntax such as "FREQ=WEEKLY;BYDAY=SU"`,
+    });
+  }
+}
+
+function checkNumber(value: number, rule: FieldRule, path: string, issues: SchemaIssue[]): void {
+  if (rule.integer && !Number.isInteger(value)) {
+    issues.push({ path, message: `must be a whole number (got ${value})` });
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    issues.push({ path, message: `must be at least ${rule.min} (got ${value})` });
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    issues.push({ path, message: `must be at most ${rule.max} (got ${value})` });
+  }
+}
+
+/**
+ * Validate the fields of one object against a schema. Fields the schema doesn't know are
+ * ignored.
+ */
+export function validateFields(
+  value: unknown,
+  schema: ObjectSchema,
+  path: string,
+  anchor: DateAnchor
+): SchemaIssue[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return [{ path, message: `must be an object (got ${describe(value)})` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  const record = value as Record<string, unknown>;
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const fieldPath = `${path}.${field}`;
+    const fieldValue = record[field];
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (rule.required) {
+        issues.push({ path: fieldPath, message: "is required" });
+      } else if (fieldValue === null && !rule.nullable) {
+        issues.push({ path: fieldPath, message: "must not be null" });
+      }
+      continue;
+    }
+
+    if (rule.type === "number") {
+      if (typeof fieldValue !== "number" || !Number.isFinite(fieldValue)) {
+        issues.push({ path: fieldPath, message: `must be a number (got ${describe(fieldValue)})` });
+      } else {
+        checkNumber(fieldValue, rule, fieldPath, issues);
+      }
+      continue;
+    }
+
+    if (rule.type === "string") {
+      if (typeof fieldValue !== "string") {
+        issues.push({ path: fieldPath, message: `must be a string (got ${describe(fieldValue)})` });
+      } else {
+        checkString(fieldValue, rule, fieldPath, anchor, issues);
+      }
+      continue;
+    }
+
+    if (!Array.isArray(fieldValue)) {
+      issues.push({
+        path: fieldPath,
+        message: `must be a list of strings (got ${describe(fieldValue)})`,
+      });
+      continue;
+    }
+    if (rule.maxItems !== undefined && fieldValue.length > rule.maxItems) {
+      issues.push({
+        path: fieldPath,
+        message: `must have at most ${rule.maxItems} items (got ${fieldValue.length})`,
+      });
+    }
+    fieldValue.forEach((item, index) => {
+      const itemPath = `${fieldPath}[${index}]`;
+      if (typeof item !== "string") {
+        issues.push({ path: itemPath, message: `must be a string (got ${describe(item)})` });
+      } else {
+        checkString(item, rule, itemPath, anchor, issues);
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a parsed `{ "tasks": [...] }` payload. Valid items are kept even when others fail.
+ */
+export function validateTaskPayload(payload: unknown, anchor: DateAnchor): PayloadValidation {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return {
+      tasks: [],
+      rejected: 0,
+      issues: [
+        { path: "$", message: `must be an object with a "tasks" list (got ${describe(payload)})` },
+      ],
+    };
+  }
+
+  const rawTasks = (payload as { tasks?: unknown }).tasks;
+  if (!Array.isArray(rawTasks)) {
+    return {
+      tasks: [],
+      rejected: 0,
+      issues: [{ path: "tasks", message: `must be a list (got ${describe(rawTasks)})` }],
+    };
+  }
+
+  const result: PayloadValidation = { tasks: [], rejected: 0, issues: [] };
+  if (rawTasks.length > MAX_TASKS) {
+    result.issues.push({
+      path: "tasks",
+      message: `must have at most ${MAX_TASKS} items (got ${rawTasks.length})`,
+    });
+  }
+
+  rawTasks.slice(0, MAX_TASKS).forEach((item, index) => {
+    const issues = validateFields(item, TASK_SCHEMA, `tasks[${index}]`, anchor);
+    if (issues.length > 0) {
+      result.issues.push(...issues);
+      result.rejected++;
+      return;
+    }
+
+    const task = item as Record<string, unknown>;
+    result.tasks.push({
+      title: task.title as string,
+      due: (task.due as string | undefined) ?? null,
+      tags: (task.tags as string[] | undefined) ?? null,
+      ...(typeof task.priority === "string" ? { priority: task.priority as TaskPriority } : {}),
+      ...(typeof task.assignee === "string" ? { assignee: task.assignee } : {}),
+      ...(typeof task.project === "string" ? { project: task.project } : {}),
+      ...(typeof task.estimateMinutes === "number"
+        ? { estimateMinutes: task.estimateMinutes }
+        : {}),
+      ...(typeof task.recurrence === "string" ? { recurrence: task.recurrence } : {}),
+      ...(typeof task.source === "string" ? { source: task.source } : {}),
+    });
+  });
+
+  result.rejected += Math.max(0, rawTasks.length - MAX_TASKS);
+  return result;
+}
@@ -0,0 +1,88 @@
+import * as crypto from "crypto";
+
+export interface Section {
+  key: string;
+  heading: string | null;
+  time: string | null; // HH:MM:SS when the heading is a timestamp
+  startLine: number;
+  text: string;
+}
+
+const TIMESTAMP_HEADING = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\b/;
+
+const SECTION_HEADING = /^##\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Split markdown content into `##` sections. Content before the first heading becomes a
+ * preamble section with an empty key. Repeated headings get an occurrence suffix so every
+ * key is unique within a file.
+ */
+export function splitSections(content: string): Section[] {
+  const lines = content.split("\n");
+  const sections: Section[] = [];
+  const occurrences = new Map<string, number>();
+
+  let current: Section = { key: "", heading: null, time: null, startLine: 1, text: "" };
+  let currentLines: string[] = [];
+
+  const flush = () => {
+    current.text = currentLines.join("\n");
+    if (current.heading !== null || current.text.trim().length > 0) {
+      sections.push(current);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    const match = line.match(SECTION_HEADING);
+    if (!match) {
+      currentLines.push(line);
+      return;
+    }
+
+    flush();
+
+    const heading = match[1];
+    const seen = occurrences.get(heading) || 0;
+    occurrences.set(heading, seen + 1);
+
+    const time = heading.match(TIMESTAMP_HEADING);
+
+    current = {
+      key: seen === 0 ? heading : `${heading}#${seen}`,
+      heading,
+      time: time ? `${time[1].padStart(2, "0")}:${time[2]}:${time[3] || "00"}` : null,
+      startLine: index + 1,
+      text: "",
+    };
+    currentLines = [line];
+  });
+
+  flush();
+  return sections;
+}
+
+/**
+ * Find the file's top-level `# ` title line, if it has one
+ */
+export function findTitle(content: string): string | null {
+  const match = content.match(/^#\s+.+$/m);
+  return match ? match[0].trim() : null;
+}
+
+/**
+ * Create a short, stable digest of some content
+ */
+export function digestContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex").substring(0, 16);
+}
+
+/**
+ * Digest every section of a file, keyed by section key
+ */
+export function digestSections(content: string): Record<string, string> {
+  const digests: Record<string, string> = {};
+  for (const section of splitSections(content)) {
+    digests[section.key] = digestContent(section.text.trimEnd());
+  }
+  return digests;
+}
@@ -0,0 +1,144 @@
+import * as path from "path";
+import { FileChunk } from "./ingest";
+
+export interface LineSpan {
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+}
+
+// Minimum word overlap for a quote to match a line it doesn't contain verbatim
+const FUZZY_THRESHOLD = 0.6;
+
+/**
+ * Strip list markers, checkboxes, heading hashes and punctuation so a quote matches its line
+ * however the model reproduced the markdown around it
+ */
+function normaliseLine(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "")
+    .replace(/^\[[ xX]\]\s*/, "")
+    .replace(/^#+\s+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.split(" ").filter(Boolean));
+}
+
+/**
+ * Dice coefficient of the word sets of two normalised lines
+ */
+function similarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+function lineMatches(line: string, quoteLine: string): boolean {
+  return line.length > 0 && (line.includes(quoteLine) || quoteLine.includes(line));
+}
+
+/**
+ * File line of a line in the chunk
+ */
+export function chunkLineNumber(chunk: FileChunk, index: number): number {
+  return chunk.lineMap ? chunk.lineMap[index] : (chunk.startLine ?? 1) + index;
+}
+
+/**
+ * Text of a file line within the chunk, or null when the chunk doesn't hold it
+ */
+export function chunkLineText(chunk: FileChunk, line: number): string | null {
+  const lines = chunk.content.split("\n");
+  const index = lines.findIndex((_, i) => chunkLineNumber(chunk, i) === line);
+  return index === -1 ? null : lines[index];
+}
+
+/**
+ * Heading of the `##` entry a file line falls in, taken from the chunk's lines or else the
+ * headings the chunk continues under. Null for lines outside any entry.
+ */
+export function entryHeadingAt(chunk: FileChunk, line: number): string | null {
+  const isEntryHeading = (text: string) => /^##\s/.test(text);
+  let heading = (chunk.headingContext || []).filter(isEntryHeading).pop() ?? null;
+
+  chunk.content.split("\n").forEach((text, index) => {
+    if (chunkLineNumber(chunk, index) <= line && isEntryHeading(text)) heading = text.trim();
+  });
+  return heading;
+}
+
+/**
+ * Find which lines of a chunk a quote came from. Quotes spanning several lines must match
+ * consecutive non-blank lines; when nothing matches verbatim, the most similar line wins if
+ * it is close enough.
+ */
+export function locateSource(chunk: FileChunk, quote: string | null | undefined): LineSpan | null {
+  if (!quote) return null;
+
+  const quoteLines = quote.split("\n").map(normaliseLine).filter(Boolean);
+  if (quoteLines.length === 0) return null;
+
+  const lines = chunk.content.split("\n").map(normaliseLine);
+  const toSpan = (first: number, last: number): LineSpan => ({
+    startLine: chunkLineNumber(chunk, first),
+    endLine: chunkLineNumber(chunk, last),
+  });
+
+  for (let start = 0; start < lines.length; start++) {
+    if (!lineMatches(lines[start], quoteLines[0])) continue;
+
+    let matched = 1;
+    let end = start;
+    for (let i = start + 1; i < lines.length && matched < quoteLines.length; i++) {
+      if (!lines[i]) continue;
+      if (!lineMatches(lines[i], quoteLines[matched])) break;
+      matched++;
+      end = i;
+    }
+
+    if (matched === quoteLines.length) {
+      return toSpan(start, end);
+    }
+  }
+
+  const bestLine = (quoteLine: string, from: number): number | null => {
+    let best: number | null = null;
+    let bestScore = FUZZY_THRESHOLD;
+
+    for (let i = from; i < lines.length; i++) {
+      const score = similarity(lines[i], quoteLine);
+      if (score >= bestScore && (best === null || score > bestScore)) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  };
+
+  const first = bestLine(quoteLines[0], 0);
+  if (first === null) return null;
+  if (quoteLines.length === 1) return toSpan(first, first);
+
+  const last = bestLine(quoteLines[quoteLines.length - 1], first);
+  return toSpan(first, last ?? first);
+}
+
+/**
+ * Format a span as `file.md:6` or `file.md:6-8`
+ */
+export function formatSpan(filePath: string, span: LineSpan): string {
+  const lines =
+    span.endLine > span.startLine ? `${span.startLine}-${span.endLine}` : `${span.startLine}`;
+  return `${path.basename(filePath)}:${lines}`;
+}
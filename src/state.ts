@@ -3,6 +3,7 @@ import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
 import { logger } from "./log";
+import { digestContent } from "./sections";
 
 // Utility function to safely extract error messages
 function getErrorMessage(error: unknown): string {
@@ -11,31 +12,95 @@ function getErrorMessage(error: unknown): string {
   return String(error);
 }
 
+// Priorities a task can have, most pressing first
+export const TASK_PRIORITIES = ["urgent", "high", "medium", "low"] as const;
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+// Optional task fields, each written to its own Notion property when enabled for a database
+export const TASK_FIELDS = ["priority", "assignee", "project", "estimate", "recurrence"] as const;
+export type TaskField = (typeof TASK_FIELDS)[number];
+
 export interface ExtractedTask {
   title: string;
   due: string | null;
   tags: string[] | null;
+  priority?: TaskPriority | null;
+  assignee?: string | null; // Person the task is delegated to, by name
+  project?: string | null;
+  estimateMinutes?: number | null;
+  recurrence?: string | null; // RRULE such as FREQ=WEEKLY;BYDAY=SU; `due` is the next occurrence
+  startLine?: number; // Lines in the source file the task was found on, when located
+  endLine?: number;
+  capturedAt?: string; // How far into a voice memo the task was spoken, as mm:ss or h:mm:ss
+}
+
+// The line a task was found on, identifying it whatever it was titled
+export interface TaskSource {
+  line: string;
+  occurrence: number; // Tasks taken from the same line before this one
 }
 
 export interface TaskWithMeta extends ExtractedTask {
   hash: string;
   filePath: string;
-  lineIndex: number;
+  startLine: number;
+  endLine: number;
   extractedAt: string;
+  targetDatabaseId?: string; // Overrides the configured database, from frontmatter `target`
+  promptVersion?: string; // Prompt template the LLM extracted the task with; unset for rules
+}
+
+// A recurring task's current instance in Notion, renewed once it is marked done
+export interface RecurringInstance {
+  pageId: string;
+  databaseId: string;
+  task: TaskWithMeta;
+}
+
+export interface FileDigest {
+  hash: string;
+  size: number;
+  sections?: Record<string, string>;
+}
+
+// Progress recorded for a file, held back until its tasks have been synced
+export interface FileCheckpoint {
+  mtime: number;
+  digest: FileDigest;
+}
+
+/**
+ * Digest of a file's content, compared on later runs to tell whether it changed
+ */
+export function digestFile(content: string): FileDigest {
+  return {
+    hash: digestContent(content),
+    size: Buffer.byteLength(content, "utf8"),
+  };
 }
 
 export interface AppState {
+  version: number;
   lastRun: string | null;
   processedTasks: Set<string>;
   lastModifiedTimes: Record<string, number>;
+  fileDigests: Record<string, FileDigest>;
+  pathAliases: Record<string, string>; // Current path of a moved file → path it was first seen at
+  recurringTasks: Record<string, RecurringInstance>; // By Notion page ID
 }
 
-class StateManager {
+const STATE_VERSION = 2;
+
+// Route configured by the extension preferences; its state lives in the original state.json
+export const DEFAULT_ROUTE_ID = "default";
+
+export class StateManager {
   private stateFilePath: string;
   private state: AppState;
+  private stagedCheckpoints = new Map<string, FileCheckpoint>();
 
-  constructor() {
-    this.stateFilePath = path.join(environment.supportPath, "state.json");
+  constructor(fileName = "state.json") {
+    this.stateFilePath = path.join(environment.supportPath, fileName);
     this.state = this.loadState();
   }
 
@@ -50,23 +115,68 @@ class StateManager {
           ? new Set<string>(parsed.processedTasks)
           : new Set<string>();
 
-        return {
+        const state: AppState = {
+          version: typeof parsed.version === "number" ? parsed.version : 1,
           lastRun: parsed.lastRun || null,
           processedTasks,
           lastModifiedTimes: parsed.lastModifiedTimes || {},
+          fileDigests: parsed.fileDigests || {},
+          pathAliases: parsed.pathAliases || {},
+          recurringTasks: parsed.recurringTasks || {},
         };
+
+        return state.version < STATE_VERSION ? this.migrateState(state) : state;
       }
     } catch (error) {
       logger.warn("Failed to load state, starting fresh", { error: getErrorMessage(error) });
     }
 
     return {
+      version: STATE_VERSION,
       lastRun: null,
       processedTasks: new Set<string>(),
       lastModifiedTimes: {},
+      fileDigests: {},
+      pathAliases: {},
+      recurringTasks: {},
     };
   }
 
+  /**
+   * Upgrade state written by older versions. Version 1 only tracked mtimes, so files whose
+   * mtime hasn't moved since they were processed get a digest of their current content.
+   */
+  private migrateState(state: AppState): AppState {
+    let digested = 0;
+
+    for (const [filePath, mtime] of Object.entries(state.lastModifiedTimes)) {
+      try {
+        const stats = fs.statSync(filePath);
+        if (stats.mtimeMs <= mtime && !state.fileDigests[filePath]) {
+          state.fileDigests[filePath] = this.computeDigest(filePath);
+          digested++;
+        }
+      } catch {
+        // File no longer exists; cleanup will drop its mtime eventually
+      }
+    }
+
+    logger.info("Migrated state file", {
+      fromVersion: state.version,
+      toVersion: STATE_VERSION,
+      digestedFiles: digested,
+    });
+
+    return { ...state, version: STATE_VERSION };
+  }
+
+  /**
+   * Hash a file's content
+   */
+  private computeDigest(filePath: string): FileDigest {
+    return digestFile(fs.readFileSync(filePath, "utf8"));
+  }
+
   private saveState(): void {
     try {
       const dir = path.dirname(this.stateFilePath);
@@ -75,9 +185,13 @@ class StateManager {
       }
 
       const serialisableState = {
+        version: this.state.version,
         lastRun: this.state.lastRun,
         processedTasks: Array.from(this.state.processedTasks),
         lastModifiedTimes: this.state.lastModifiedTimes,
+        fileDigests: this.state.fileDigests,
+        pathAliases: this.state.pathAliases,
+        recurringTasks: this.state.recurringTasks,
       };
 
       fs.writeFileSync(this.stateFilePath, JSON.stringify(serialisableState, null, 2), "utf8");
@@ -89,18 +203,69 @@ class StateManager {
   }
 
   /**
-   * Generate a stable hash for a task based on its content and location
+   * Resolve a file to the path it was first processed at, so moved files keep their task hashes
+   */
+  private canonicalPath(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    return this.state.pathAliases[resolved] || resolved;
+  }
+
+  /**
+   * Move a file's recorded mtime and digests to its new path after it was moved
+   */
+  renameFile(fromPath: string, toPath: string): void {
+    const from = path.resolve(fromPath);
+    const to = path.resolve(toPath);
+    const original = this.canonicalPath(from);
+
+    for (const record of [this.state.lastModifiedTimes, this.state.fileDigests] as Record<string, unknown>[]) {
+      if (from in record) {
+        record[to] = record[from];
+        delete record[from];
+      }
+    }
+
+    delete this.state.pathAliases[from];
+    if (original !== to) {
+      this.state.pathAliases[to] = original;
+    } else {
+      delete this.state.pathAliases[to];
+    }
+  }
+
+  /**
+   * Generate a stable hash for a task from the `##` entry it was found in and the text of the
+   * line it was found on, or its title when it wasn't located. Line numbers are left out, so
+   * lines added above a task in an edited entry don't make it new, and the title is too, so
+   * the rules and the LLM wording the same line differently give the same task.
    */
-  generateTaskHash(task: ExtractedTask, filePath: string, lineIndex: number): string {
+  generateTaskHash(
+    task: ExtractedTask,
+    filePath: string,
+    entry: string | null,
+    source?: TaskSource
+  ): string {
     const hashInput = JSON.stringify({
-      title: task.title.trim().toLowerCase(),
-      filePath: path.resolve(filePath),
-      lineIndex,
+      ...(source
+        ? { line: source.line.trim().toLowerCase().replace(/\s+/g, " ") }
+        : { title: task.title.trim().toLowerCase() }),
+      filePath: this.canonicalPath(filePath),
+      entry,
+      // Further tasks taken from the same line
+      ...(source?.occurrence ? { occurrence: source.occurrence } : {}),
     });
     
     return crypto.createHash("sha256").update(hashInput).digest("hex").substring(0, 16);
   }
 
+  /**
+   * Generate the Task ID of a later occurrence of a recurring task
+   */
+  generateOccurrenceHash(taskHash: string, due: string | null): string {
+    const hashInput = JSON.stringify({ series: taskHash, due });
+    return crypto.createHash("sha256").update(hashInput).digest("hex").substring(0, 16);
+  }
+
   /**
    * Check if a task has already been processed
    */
@@ -116,37 +281,129 @@ class StateManager {
   }
 
   /**
-   * Check if a file has been modified since last processing
+   * Remember the Notion page of a recurring task's current instance
+   */
+  trackRecurringTask(pageId: string, databaseId: string, task: TaskWithMeta): void {
+    this.state.recurringTasks[pageId] = { pageId, databaseId, task };
+  }
+
+  /**
+   * Stop following a recurring task's instance
+   */
+  untrackRecurringTask(pageId: string): void {
+    delete this.state.recurringTasks[pageId];
+  }
+
+  /**
+   * Current instances of every recurring task synced through this state
+   */
+  getRecurringTasks(): RecurringInstance[] {
+    return Object.values(this.state.recurringTasks);
+  }
+
+  /**
+   * Check if a file's content has changed since last processing. The mtime is only used as a
+   * quick pre-check: when it has moved on, the content digest decides.
    */
   isFileModified(filePath: string): boolean {
     try {
       const stats = fs.statSync(filePath);
-      const currentMtime = stats.mtimeMs;
       const lastMtime = this.state.lastModifiedTimes[filePath];
-      
-      if (!lastMtime) {
+      const digest = this.state.fileDigests[filePath];
+
+      if (!lastMtime && !digest) {
         return true; // Never processed before
       }
-      
-      return currentMtime > lastMtime;
+
+      if (lastMtime && stats.mtimeMs <= lastMtime && (!digest || digest.size === stats.size)) {
+        return false;
+      }
+
+      if (!digest || digest.size !== stats.size) {
+        return true;
+      }
+
+      const currentHash = digestContent(fs.readFileSync(filePath, "utf8"));
+      if (currentHash !== digest.hash) {
+        return true;
+      }
+
+      // Content is identical (touch, cloud sync), so remember the new mtime for the quick check
+      this.state.lastModifiedTimes[filePath] = stats.mtimeMs;
+      logger.debug("File mtime changed but content is unchanged", { filePath });
+      return false;
     } catch (error) {
-      logger.warn("Failed to check file modification time", { filePath, error: getErrorMessage(error) });
+      logger.warn("Failed to check file modification", { filePath, error: getErrorMessage(error) });
       return true; // Assume modified if we can't check
     }
   }
 
   /**
-   * Update the last modified time for a file
+   * Record the current mtime and content digest for a file, optionally with per-section
+   * digests so later runs can tell which sections changed
    */
-  updateFileModifiedTime(filePath: string): void {
+  updateFileModifiedTime(filePath: string, sections?: Record<string, string>): void {
     try {
       const stats = fs.statSync(filePath);
+      const digest = this.computeDigest(filePath);
+      if (sections) {
+        digest.sections = sections;
+      }
       this.state.lastModifiedTimes[filePath] = stats.mtimeMs;
+      this.state.fileDigests[filePath] = digest;
     } catch (error) {
       logger.warn("Failed to update file modified time", { filePath, error: getErrorMessage(error) });
     }
   }
 
+  /**
+   * Hold back the mtime and digest of the content read for this run without marking the file
+   * processed. The checkpoint only takes effect once committed, so a file whose extraction or
+   * sync fails is picked up again on the next run. The file is not looked at again, so text
+   * added after it was read still counts as new.
+   */
+  stageFileCheckpoint(
+    filePath: string,
+    read: FileCheckpoint,
+    sections?: Record<string, string>
+  ): void {
+    const digest = sections ? { ...read.digest, sections } : { ...read.digest };
+    this.stagedCheckpoints.set(filePath, { mtime: read.mtime, digest });
+  }
+
+  /**
+   * Mark a staged file as processed
+   */
+  commitFileCheckpoint(filePath: string): void {
+    const checkpoint = this.stagedCheckpoints.get(filePath);
+    if (!checkpoint) return;
+
+    this.state.lastModifiedTimes[filePath] = checkpoint.mtime;
+    this.state.fileDigests[filePath] = checkpoint.digest;
+    this.stagedCheckpoints.delete(filePath);
+  }
+
+  /**
+   * Drop a staged checkpoint so the file is processed again next run
+   */
+  discardFileCheckpoint(filePath: string): void {
+    this.stagedCheckpoints.delete(filePath);
+  }
+
+  /**
+   * Files with a checkpoint waiting to be committed or discarded
+   */
+  getStagedFiles(): string[] {
+    return Array.from(this.stagedCheckpoints.keys());
+  }
+
+  /**
+   * Get the per-section digests recorded for a file, if section tracking was used
+   */
+  getSectionDigests(filePath: string): Record<string, string> | undefined {
+    return this.state.fileDigests[filePath]?.sections;
+  }
+
   /**
    * Get the last run timestamp
    */
@@ -198,6 +455,7 @@ class StateManager {
     
     filesToRemove.forEach(filePath => {
       delete this.state.lastModifiedTimes[filePath];
+      delete this.state.fileDigests[filePath];
     });
     
     if (filesToRemove.length > 0) {
@@ -218,13 +476,41 @@ class StateManager {
     this.saveState();
   }
 
+  /**
+   * Read the state from disk again, dropping staged checkpoints. Long-running processes call
+   * this before each run, so saving doesn't overwrite what other runs saved in the meantime.
+   */
+  reload(): void {
+    this.stagedCheckpoints.clear();
+    this.state = this.loadState();
+  }
+
   /**
    * Reset all state (for testing or debugging)
    */
   reset(): void {
-    this.state = this.loadState();
+    this.reload();
     this.saveState();
   }
 }
 
-export const stateManager = new StateManager();
\ No newline at end of file
+export const stateManager = new StateManager();
+
+const routeStateManagers = new Map<string, StateManager>();
+
+/**
+ * State for an inbox route. Every route keeps its own `state-<id>.json`, so routes never share
+ * file checkpoints or processed task hashes.
+ */
+export function getRouteStateManager(routeId: string): StateManager {
+  if (routeId === DEFAULT_ROUTE_ID) {
+    return stateManager;
+  }
+
+  let manager = routeStateManagers.get(routeId);
+  if (!manager) {
+    manager = new StateManager(`state-${routeId}.json`);
+    routeStateManagers.set(routeId, manager);
+  }
+  return manager;
+}
@@ -0,0 +1,85 @@
+export interface ModelBudget {
+  contextWindow: number; // Total tokens the model accepts (prompt + completion)
+  outputBudget: number; // Tokens requested for the completion
+}
+
+// Longest matching prefix wins, so "gpt-4o-mini" resolves before "gpt-4o" and "gpt-4"
+const MODEL_BUDGETS: Record<string, ModelBudget> = {
+  "gpt-5": { contextWindow: 400000, outputBudget: 16000 },
+  "gpt-4.1": { contextWindow: 1047576, outputBudget: 8192 },
+  "gpt-4o": { contextWindow: 128000, outputBudget: 4096 },
+  "gpt-4o-mini": { contextWindow: 128000, outputBudget: 4096 },
+  "gpt-4-turbo": { contextWindow: 128000, outputBudget: 4096 },
+  "gpt-4-32k": { contextWindow: 32768, outputBudget: 2048 },
+  "gpt-4": { contextWindow: 8192, outputBudget: 1500 },
+  "gpt-3.5-turbo": { contextWindow: 16385, outputBudget: 2048 },
+  o1: { contextWindow: 200000, outputBudget: 16000 },
+  o3: { contextWindow: 200000, outputBudget: 16000 },
+  "o4-mini": { contextWindow: 200000, outputBudget: 16000 },
+};
+
+const DEFAULT_BUDGET: ModelBudget = { contextWindow: 8192, outputBudget: 1500 };
+
+// Tokens reserved for the system prompt, prompt template and earlier-entry context
+const PROMPT_OVERHEAD_TOKENS = 2500;
+
+// Upper bound per chunk, enough for a busy day of notes while keeping extraction focused
+const MAX_CHUNK_TOKENS = 32000;
+
+const CJK = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/u;
+const EMOJI = /\p{Extended_Pictographic}/u;
+const NON_LATIN = /[^\s\x20-\u024f]/u;
+
+/**
+ * Look up the context window and output budget for a model
+ */
+export function getModelBudget(model: string | undefined): ModelBudget {
+  if (!model) return DEFAULT_BUDGET;
+
+  const normalised = model.trim().toLowerCase();
+  const match = Object.keys(MODEL_BUDGETS)
+    .filter((prefix) => normalised === prefix || normalised.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? MODEL_BUDGETS[match] : DEFAULT_BUDGET;
+}
+
+/**
+ * Fractional token weight of some text. Calibrated against the GPT-4o tokenizer: English and
+ * markdown average about four characters per token, CJK characters about one token each,
+ * emoji about two, and other non-Latin scripts about two characters per token.
+ */
+export function tokenWeight(text: string): number {
+  let weight = 0;
+
+  for (const char of text) {
+    if (CJK.test(char)) {
+      weight += 1;
+    } else if (EMOJI.test(char)) {
+      weight += 2;
+    } else if (NON_LATIN.test(char)) {
+      weight += 0.5;
+    } else {
+      weight += 0.25;
+    }
+  }
+
+  return weight;
+}
+
+/**
+ * Estimate how many tokens some text will use
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(tokenWeight(text));
+}
+
+/**
+ * Work out how many tokens of braindump content fit in a single request to a model
+ */
+export function getChunkTokenBudget(model: string | undefined): number {
+  const budget = getModelBudget(model);
+  const available = budget.contextWindow - budget.outputBudget - PROMPT_OVERHEAD_TOKENS;
+
+  return Math.max(500, Math.min(MAX_CHUNK_TOKENS, available));
+}
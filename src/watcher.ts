@@ -0,0 +1,423 @@
+import { environment } from "@raycast/api";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { DEFAULT_SCAN_OPTIONS, fileIngester, ScanOptions } from "./ingest";
+import { matchesAnyGlob } from "./glob";
+import { logger } from "./log";
+
+// Utility function to safely extract error messages
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  return String(error);
+}
+
+export interface WatchOptions {
+  dirPath: string;
+  scanOptions?: Partial<ScanOptions>;
+  quietPeriodMs?: number; // How long a file must go unchanged before it is processed
+  pollIntervalMs?: number; // Scan interval when polling instead of using fs.watch
+  usePolling?: boolean;
+  lockPath?: string;
+  heartbeatIntervalMs?: number; // How often the lock is refreshed and checked for a stop request
+  onFiles: (files: string[]) => Promise<void>;
+  onStopRequested?: () => void; // Called instead of stopping when another command asks to stop
+}
+
+// Contents of a watch lock file. Raycast runs commands in a shared worker, so the pid alone
+// doesn't say whether a watcher is still running; the heartbeat does.
+export interface WatchLock {
+  kind: typeof LOCK_KIND;
+  pid: number;
+  token: string; // Identifies the watcher; a stop request names it
+  heartbeat: number; // Last time the watcher refreshed the lock, in ms since the epoch
+}
+
+export type WatchMode = "fs.watch" | "polling";
+
+const DEFAULT_QUIET_PERIOD_MS = 5000;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 2000;
+const LOCK_KIND = "brainpipe-watch";
+
+// A lock not refreshed for this many heartbeats belongs to a watcher that is gone
+const MISSED_HEARTBEATS = 5;
+
+/**
+ * Default location of the lock file that keeps a single watcher running
+ */
+export function defaultLockPath(): string {
+  return path.join(environment.supportPath, "watch.lock");
+}
+
+/**
+ * File a stop request for the watcher holding a lock is written to
+ */
+function stopPath(lockPath: string): string {
+  return `${lockPath}.stop`;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * The watcher holding a lock file, if it is still running. Locks that aren't a watcher's, or
+ * whose process is gone or has stopped refreshing them, are stale.
+ */
+export function readLockOwner(
+  lockPath: string,
+  heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS
+): WatchLock | null {
+  let lock: Partial<WatchLock>;
+  try {
+    lock = JSON.parse(fs.readFileSync(lockPath, "utf8"));
+  } catch {
+    return null;
+  }
+
+  if (
+    !lock ||
+    lock.kind !== LOCK_KIND ||
+    typeof lock.token !== "string" ||
+    typeof lock.pid !== "number" ||
+    typeof lock.heartbeat !== "number"
+  ) {
+    return null;
+  }
+  if (Date.now() - lock.heartbeat > heartbeatIntervalMs * MISSED_HEARTBEATS) return null;
+
+  return isProcessAlive(lock.pid) ? (lock as WatchLock) : null;
+}
+
+/**
+ * Ask the watcher holding a lock to stop. The watcher picks the request up on its next
+ * heartbeat. Returns false when no watcher is running.
+ */
+export function requestWatchStop(
+  lockPath: string,
+  heartbeatIntervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS
+): boolean {
+  const owner = readLockOwner(lockPath, heartbeatIntervalMs);
+  if (!owner) return false;
+
+  fs.writeFileSync(stopPath(lockPath), owner.token, "utf8");
+  return true;
+}
+
+/**
+ * Watches the inbox directory and hands over files once they have stopped changing. Bursts of
+ * saves to the same file are debounced into a single run, and runs never overlap.
+ */
+export class InboxWatcher {
+  private readonly dirPath: string;
+  private readonly quietPeriodMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly lockPath: string;
+  private readonly heartbeatIntervalMs: number;
+  private readonly token = crypto.randomUUID();
+  private watcher: fs.FSWatcher | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private quietTimers = new Map<string, NodeJS.Timeout>();
+  private readyFiles = new Set<string>();
+  private snapshot = new Map<string, string>();
+  private activeRun: Promise<void> | null = null;
+  private started = false;
+  private currentMode: WatchMode | null = null;
+
+  constructor(private options: WatchOptions) {
+    this.dirPath = path.resolve(fileIngester.expandPath(options.dirPath));
+    this.quietPeriodMs = options.quietPeriodMs ?? DEFAULT_QUIET_PERIOD_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.lockPath = options.lockPath ?? defaultLockPath();
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  }
+
+  get mode(): WatchMode | null {
+    return this.currentMode;
+  }
+
+  private lockContents(): string {
+    const lock: WatchLock = {
+      kind: LOCK_KIND,
+      pid: process.pid,
+      token: this.token,
+      heartbeat: Date.now(),
+    };
+    return JSON.stringify(lock);
+  }
+
+  /**
+   * Take the single-instance lock, replacing it if its owner is no longer running
+   */
+  private acquireLock(): void {
+    fs.mkdirSync(path.dirname(this.lockPath), { recursive: true });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const fd = fs.openSync(this.lockPath, "wx");
+        fs.writeSync(fd, this.lockContents());
+        fs.closeSync(fd);
+        // A request left behind for an earlier watcher doesn't apply to this one
+        fs.rmSync(stopPath(this.lockPath), { force: true });
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+        const owner = readLockOwner(this.lockPath, this.heartbeatIntervalMs);
+        if (owner !== null) {
+          throw new Error(`Watch mode is already running (pid ${owner.pid})`);
+        }
+
+        logger.warn("Removing stale watch lock", { lockPath: this.lockPath });
+        fs.rmSync(this.lockPath, { force: true });
+      }
+    }
+
+    throw new Error(`Could not acquire watch lock: ${this.lockPath}`);
+  }
+
+  private ownsLock(): boolean {
+    try {
+      return JSON.parse(fs.readFileSync(this.lockPath, "utf8")).token === this.token;
+    } catch {
+      return false;
+    }
+  }
+
+  private releaseLock(): void {
+    if (this.ownsLock()) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Refresh the lock so other commands can tell the watcher is alive, and act on a stop
+   * request addressed to it
+   */
+  private heartbeat(): void {
+    let stopToken: string | null = null;
+    try {
+      stopToken = fs.readFileSync(stopPath(this.lockPath), "utf8").trim();
+    } catch {
+      // No stop request
+    }
+
+    // A watcher that went quiet long enough for another to take its lock over stops too
+    const lockLost = !this.ownsLock();
+    if (stopToken === this.token || lockLost) {
+      if (stopToken === this.token) fs.rmSync(stopPath(this.lockPath), { force: true });
+      logger.info(lockLost ? "Watch lock taken over, stopping" : "Watch mode stop requested", {
+        directory: this.dirPath,
+      });
+      if (this.options.onStopRequested) {
+        this.options.onStopRequested();
+      } else {
+        void this.stop();
+      }
+      return;
+    }
+
+    try {
+      const tempPath = `${this.lockPath}.${this.token}.tmp`;
+      fs.writeFileSync(tempPath, this.lockContents(), "utf8");
+      fs.renameSync(tempPath, this.lockPath);
+    } catch (error) {
+      logger.warn("Failed to refresh watch lock", { error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Quick filter on raw events; the scan before each run applies the full rules
+   */
+  private isCandidate(filePath: string): boolean {
+    const relativePath = path.relative(this.dirPath, filePath).split(path.sep).join("/");
+    if (!relativePath || relativePath.startsWith("..")) return false;
+
+    const include = this.options.scanOptions?.include ?? DEFAULT_SCAN_OPTIONS.include;
+    const exclude = this.options.scanOptions?.exclude ?? DEFAULT_SCAN_OPTIONS.exclude;
+    return matchesAnyGlob(relativePath, include) && !matchesAnyGlob(relativePath, exclude);
+  }
+
+  /**
+   * Restart the quiet period for a file that just changed
+   */
+  private handleChange(filePath: string): void {
+    if (!this.started || !this.isCandidate(filePath)) return;
+
+    const existing = this.quietTimers.get(filePath);
+    if (existing) clearTimeout(existing);
+
+    this.quietTimers.set(
+      filePath,
+      setTimeout(() => {
+        this.quietTimers.delete(filePath);
+        this.readyFiles.add(filePath);
+        void this.flush();
+      }, this.quietPeriodMs)
+    );
+  }
+
+  /**
+   * Hand the files that have settled to the callback, one run at a time
+   */
+  private async flush(): Promise<void> {
+    if (this.activeRun || this.readyFiles.size === 0 || !this.started) return;
+
+    const candidates = Array.from(this.readyFiles);
+    this.readyFiles.clear();
+
+    this.activeRun = (async () => {
+      try {
+        const matching = new Set(
+          await fileIngester.scanDirectory(this.dirPath, this.options.scanOptions)
+        );
+        const files = candidates.filter((filePath) => matching.has(filePath)).sort();
+        if (files.length === 0) return;
+
+        logger.info("Watched files settled, processing", {
+          files: files.map((filePath) => path.relative(this.dirPath, filePath)),
+        });
+        await this.options.onFiles(files);
+      } catch (error) {
+        logger.error("Watch run failed", { error: getErrorMessage(error) });
+      }
+    })();
+
+    await this.activeRun;
+    this.activeRun = null;
+
+    // Files that settled while the run was in progress
+    await this.flush();
+  }
+
+  /**
+   * Record the mtime and size of every matching file, reporting the ones that changed
+   */
+  private async poll(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fileIngester.scanDirectory(this.dirPath, this.options.scanOptions);
+    } catch (error) {
+      logger.warn("Failed to poll watched directory", { error: getErrorMessage(error) });
+      return;
+    }
+
+    const next = new Map<string, string>();
+    for (const filePath of files) {
+      try {
+        const stats = fs.statSync(filePath);
+        next.set(filePath, `${stats.mtimeMs}:${stats.size}`);
+      } catch {
+        // Deleted between the scan and the stat
+      }
+    }
+
+    const initial = this.snapshot.size === 0 && this.pollTimer === null;
+    if (!initial) {
+      for (const [filePath, signature] of next) {
+        if (this.snapshot.get(filePath) !== signature) {
+          this.handleChange(filePath);
+        }
+      }
+    }
+
+    this.snapshot = next;
+  }
+
+  private async startPolling(): Promise<void> {
+    this.currentMode = "polling";
+    await this.poll();
+
+    const tick = () => {
+      this.pollTimer = setTimeout(async () => {
+        await this.poll();
+        if (this.started) tick();
+      }, this.pollIntervalMs);
+    };
+    tick();
+  }
+
+  /**
+   * Start watching. Uses fs.watch when the platform supports recursive watching and falls back
+   * to polling otherwise.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    if (!fs.existsSync(this.dirPath) || !fs.statSync(this.dirPath).isDirectory()) {
+      throw new Error(`Directory does not exist: ${this.dirPath}`);
+    }
+
+    this.acquireLock();
+    this.started = true;
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatIntervalMs);
+
+    if (!this.options.usePolling) {
+      try {
+        this.watcher = fs.watch(this.dirPath, { recursive: true }, (_event, filename) => {
+          if (filename) this.handleChange(path.join(this.dirPath, filename.toString()));
+        });
+        this.watcher.on("error", (error) => {
+          logger.warn("fs.watch failed, falling back to polling", {
+            error: getErrorMessage(error),
+          });
+          this.watcher?.close();
+          this.watcher = null;
+          if (this.started) void this.startPolling();
+        });
+        this.currentMode = "fs.watch";
+      } catch (error) {
+        logger.warn("fs.watch unavailable, falling back to polling", {
+          error: getErrorMessage(error),
+        });
+      }
+    }
+
+    if (!this.watcher) {
+      await this.startPolling();
+    }
+
+    logger.info("Watching inbox", {
+      directory: this.dirPath,
+      mode: this.currentMode,
+      quietPeriodMs: this.quietPeriodMs,
+    });
+  }
+
+  /**
+   * Stop watching, wait for a run in progress to finish and release the lock. Files still
+   * inside their quiet period are left for the next run.
+   */
+  async stop(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+
+    this.watcher?.close();
+    this.watcher = null;
+
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = null;
+
+    this.quietTimers.forEach((timer) => clearTimeout(timer));
+    this.quietTimers.clear();
+    this.readyFiles.clear();
+
+    if (this.activeRun) await this.activeRun;
+
+    this.releaseLock();
+    this.currentMode = null;
+    logger.info("Stopped watching inbox", { directory: this.dirPath });
+  }
+}